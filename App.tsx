@@ -1,189 +1,504 @@
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { generateNpc } from './services/npcGenerator';
-import { decodeDnaProfile, generateNpcImage } from './services/geminiService';
-import { generatePersonalityDna } from './services/dnaGenerator';
+import { decodeDnaProfile, generateNpcImage, generateRelationshipWeb, getAiSettings, isAiConfigured, setAiSettings } from './services/geminiService';
+import { generatePersonalityDna, type DnaGenerationOptions } from './services/dnaGenerator';
+import { decodeDna, encodeDna, validateDna } from './services/dnaDecoder';
+import { writeLocalProfile } from './services/localProfileWriter';
+import { buildStandaloneHtml } from './services/htmlExport';
+import { downloadFile } from './services/download';
+import { bundleFileName, createNpcBundle, parseNpcBundle } from './services/npcBundle';
+import { buildObsidianVault, vaultFileName } from './services/obsidianExport';
+import { getDataPacks, setDataPacks, type DataPackEntry } from './services/dataPacks';
+import { createRng, generateSeed } from './services/random';
 import { NpcCard } from './components/NpcCard';
 import { Button } from './components/Button';
 import { Spinner } from './components/Spinner';
-import type { Npc } from './types';
+import { AiSettingsPanel } from './components/AiSettingsPanel';
+import { DataPacksPanel } from './components/DataPacksPanel';
+import { GenerationOptionsForm } from './components/GenerationOptionsForm';
+import { RosterSidebar } from './components/RosterSidebar';
+import { LibraryPanel } from './components/LibraryPanel';
+import { CampaignPanel } from './components/CampaignPanel';
+import { FamilyPanel } from './components/FamilyPanel';
+import { RelationshipWebPanel } from './components/RelationshipWebPanel';
+import { applyRelationshipWeb } from './services/relationshipWeb';
+import { breedOffspring, rollSibling, type Relation } from './services/inheritance';
+import { createTaskQueue } from './services/taskQueue';
+import { deleteCampaign, deleteSavedNpc, listCampaigns, listSavedNpcs, putCampaign, putSavedNpc } from './services/npcLibrary';
+import type { CampaignContext, GenerationMetadata, Npc, NpcGenerationOptions, NpcProfile, RosterEntry, SavedNpc } from './types';
+import type { AiSettings } from './services/aiProviders';
+
+// Writes the profile with the configured AI, or locally from the decoded DNA when no AI is available.
+// The campaign setting only reaches the AI; the offline writer has no use for it.
+const writeProfile = async (dna: string, npc: Npc, campaign: CampaignContext | null): Promise<NpcProfile> => {
+  if (isAiConfigured()) {
+    return decodeDnaProfile(dna, npc, campaign);
+  }
+  const decoded = decodeDna(dna);
+  if (!decoded) {
+    throw new Error('The DNA code could not be decoded.');
+  }
+  return writeLocalProfile(decoded, npc);
+};
+
+// What the current settings record as the writer of a profile and the painter of a portrait.
+const profileWriter = (): Pick<GenerationMetadata, 'provider' | 'textModel'> =>
+  isAiConfigured() ? { provider: getAiSettings().provider, textModel: getAiSettings().textModel } : { provider: 'local', textModel: null };
+const portraitModel = (): string | null => isAiConfigured() ? getAiSettings().imageModel : null;
+
+const MAX_BATCH_SIZE = 24;
+const DEFAULT_CONCURRENCY = 3;
+
+// Turns a pasted DNA code into the current, checksummed format. Throws if it does not validate.
+const normalizePastedDna = (input: string): string => {
+  const validation = validateDna(input);
+  if ('errors' in validation) {
+    throw new Error(`Invalid DNA code. ${validation.errors.map(e => e.message).join(' ')}`);
+  }
+  // Legacy codes are upgraded to the current, checksummed format.
+  return encodeDna(validation.decoded);
+};
+
+const createRosterEntry = (seed: string, isPinned = false): RosterEntry => ({
+  id: crypto.randomUUID(),
+  seed,
+  status: 'generating',
+  isPinned,
+  npc: null,
+  dna: null,
+  profile: null,
+  imageUrl: null,
+  isImageLoading: false,
+  isRedecoding: false,
+  error: null,
+  libraryId: null,
+  generation: null,
+});
 
 // FIX: Changed to a named export to address module resolution issues.
 export function App() {
-  const [npc, setNpc] = useState<Npc | null>(null);
-  const [npcProfile, setNpcProfile] = useState<string | null>(null);
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
-  const [dna, setDna] = useState<string | null>(null);
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [seedInput, setSeedInput] = useState('');
+  const [dnaInput, setDnaInput] = useState('');
+  const [batchSize, setBatchSize] = useState(1);
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [generationOptions, setGenerationOptions] = useState<NpcGenerationOptions>({});
+  const [dnaOptions, setDnaOptions] = useState<DnaGenerationOptions>({});
+  const [aiSettings, setAiSettingsState] = useState<AiSettings>(getAiSettings);
+  const [dataPacks, setDataPacksState] = useState<DataPackEntry[]>(getDataPacks);
+  const [library, setLibrary] = useState<SavedNpc[]>([]);
+  const [campaigns, setCampaigns] = useState<CampaignContext[]>([]);
+  const [activeCampaignName, setActiveCampaignName] = useState('');
   const [error, setError] = useState<string | null>(null);
 
-  const [isProfileLoading, setIsProfileLoading] = useState(false);
-  const [isImageLoading, setIsImageLoading] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
   const [isDownloading, setIsDownloading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isWeaving, setIsWeaving] = useState(false);
 
   const npcCardRef = useRef<HTMLDivElement>(null);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+  // Every AI call goes through this queue, so a big batch never has more than `concurrency` requests in flight.
+  const aiQueueRef = useRef(createTaskQueue(DEFAULT_CONCURRENCY));
 
-  const handleGenerateProfile = useCallback(async () => {
-    setIsProfileLoading(true);
-    setError(null);
-    setNpc(null);
-    setNpcProfile(null);
-    setImageUrl(null);
-    setDna(null);
+  const selected = roster.find(entry => entry.id === selectedId) ?? roster[0] ?? null;
+  const npc = selected?.status === 'ready' ? selected.npc : null;
+  const activeCampaign = campaigns.find(campaign => campaign.name === activeCampaignName) ?? null;
+  // Re-read on every render; changing the AI settings re-renders the app.
+  const aiConfigured = isAiConfigured();
+
+  useEffect(() => {
+    Promise.all([listSavedNpcs(), listCampaigns()])
+      .then(([records, savedCampaigns]) => {
+        setLibrary(records);
+        setCampaigns(savedCampaigns);
+      })
+      .catch(err => {
+        console.error('Failed to load the NPC library:', err);
+        setError(err instanceof Error ? err.message : 'The NPC library could not be loaded.');
+      });
+  }, []);
+
+  const handleAiSettingsChange = useCallback((settings: AiSettings) => {
+    setAiSettings(settings);
+    setAiSettingsState(settings);
+  }, []);
+
+  const handleDataPacksChange = useCallback((entries: DataPackEntry[]) => {
+    setDataPacks(entries);
+    setDataPacksState(entries);
+  }, []);
+
+  const handleConcurrencyChange = useCallback((value: number) => {
+    setConcurrency(value);
+    aiQueueRef.current.setConcurrency(value);
+  }, []);
+
+  // Updates apply only while the entry still holds the seed they were made for, so a stale result
+  // from before a regenerate cannot overwrite the new one.
+  const updateEntry = useCallback((id: string, seed: string, changes: Partial<RosterEntry>) => {
+    setRoster(entries => entries.map(entry => entry.id === id && entry.seed === seed ? { ...entry, ...changes } : entry));
+  }, []);
 
+  // Rolls the NPC and DNA with `roll`, then writes the profile and portrait for them.
+  const fillEntry = useCallback(async (id: string, seed: string, roll: () => { npc: Npc; dna: string }) => {
     try {
-      const baseNpc = generateNpc();
-      const personalityDna = generatePersonalityDna();
+      const { npc: baseNpc, dna: personalityDna } = roll();
+      const queue = aiQueueRef.current;
 
+      // Without an AI provider the portrait is skipped rather than reported as a failure.
       const [profileResult, imageResult] = await Promise.allSettled([
-        decodeDnaProfile(personalityDna, baseNpc),
-        generateNpcImage(baseNpc),
+        queue.run(() => writeProfile(personalityDna, baseNpc, activeCampaign)),
+        isAiConfigured() ? queue.run(() => generateNpcImage(baseNpc)) : Promise.resolve(null),
       ]);
 
-      // The profile is essential. If it fails, we can't proceed.
+      // The profile is essential. If it fails, the entry fails.
       if (profileResult.status === 'rejected') {
-        console.error('Failed to generate NPC profile:', profileResult.reason);
-        // Throw the specific reason to be displayed to the user.
         throw profileResult.reason;
       }
 
-      // Profile succeeded, so we can set the main state.
-      setNpc(baseNpc);
-      setDna(personalityDna);
-      setNpcProfile(profileResult.value);
-
-      // Now handle the image result, which is non-essential.
-      if (imageResult.status === 'fulfilled') {
-        setImageUrl(imageResult.value);
-      } else {
+      // The portrait is not; the entry keeps its profile and notes the missing image.
+      if (imageResult.status === 'rejected') {
         console.error('Failed to generate NPC image:', imageResult.reason);
-        // Set an error for the user, but we will still show the profile.
-        setError('The character profile was created, but the portrait could not be generated.');
-        setImageUrl(null); // Ensure image is cleared.
       }
+      updateEntry(id, seed, {
+        status: 'ready',
+        npc: baseNpc,
+        dna: personalityDna,
+        profile: profileResult.value,
+        imageUrl: imageResult.status === 'fulfilled' ? imageResult.value : null,
+        generation: { ...profileWriter(), imageModel: imageResult.status === 'fulfilled' && imageResult.value ? portraitModel() : null },
+        error: imageResult.status === 'rejected' ? 'The character profile was created, but the portrait could not be generated.' : null,
+      });
     } catch (err) {
       console.error('Failed to generate NPC:', err);
+      updateEntry(id, seed, {
+        status: 'failed',
+        error: err instanceof Error ? err.message : 'An unknown error occurred during generation.',
+      });
+    }
+  }, [activeCampaign, updateEntry]);
+
+  // The same seed always yields the same base NPC and DNA; the AI output is not reproducible.
+  const rollFromSeed = useCallback((seed: string, pastedDna: string | null) => () => ({
+    npc: generateNpc(createRng(seed, 'npc'), generationOptions),
+    dna: pastedDna ?? generatePersonalityDna(createRng(seed, 'dna'), dnaOptions),
+  }), [generationOptions, dnaOptions]);
+
+  const handleGenerateBatch = useCallback(async () => {
+    setError(null);
+
+    let pastedDna: string | null = null;
+    try {
+      // A pasted DNA code replaces the rolled one for every NPC in the batch, but only if it validates.
+      pastedDna = dnaInput.trim() ? normalizePastedDna(dnaInput) : null;
+    } catch (err) {
       setError(err instanceof Error ? err.message : 'An unknown error occurred during generation.');
-      // Clear all state on a critical failure
-      setNpc(null);
-      setNpcProfile(null);
-      setImageUrl(null);
-      setDna(null);
+      return;
+    }
+
+    // With a seed, a batch numbers it so the whole batch is reproducible.
+    const baseSeed = seedInput.trim();
+    const entries = Array.from({ length: batchSize }, (_, i) =>
+      createRosterEntry(!baseSeed ? generateSeed() : batchSize === 1 ? baseSeed : `${baseSeed}-${i + 1}`));
+
+    // Pinned NPCs stay; everything else is replaced by the new batch.
+    setRoster(current => [...current.filter(entry => entry.isPinned), ...entries]);
+    setSelectedId(entries[0].id);
+    setIsGenerating(true);
+
+    try {
+      await Promise.all(entries.map(entry => fillEntry(entry.id, entry.seed, rollFromSeed(entry.seed, pastedDna))));
     } finally {
-      setIsProfileLoading(false);
+      setIsGenerating(false);
+    }
+  }, [seedInput, dnaInput, batchSize, fillEntry, rollFromSeed]);
+
+  const handleRegenerate = useCallback((id: string) => {
+    setError(null);
+
+    let pastedDna: string | null = null;
+    try {
+      pastedDna = dnaInput.trim() ? normalizePastedDna(dnaInput) : null;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred during generation.');
+      return;
+    }
+
+    const fresh = createRosterEntry(generateSeed());
+    setRoster(entries => entries.map(entry => entry.id === id ? { ...fresh, id, isPinned: entry.isPinned } : entry));
+    fillEntry(id, fresh.seed, rollFromSeed(fresh.seed, pastedDna));
+  }, [dnaInput, fillEntry, rollFromSeed]);
+
+  const handleBreed = useCallback((relation: Relation, firstId: string, secondId: string | null, mutationRate: number) => {
+    const first = roster.find(entry => entry.id === firstId);
+    const second = roster.find(entry => entry.id === secondId);
+    if (!first?.npc || !first.dna) return;
+    const firstParent = { npc: first.npc, dna: first.dna };
+    const secondParent = second?.npc && second.dna ? { npc: second.npc, dna: second.dna } : null;
+    if (relation === 'offspring' && !secondParent) {
+      setError('A child needs a second parent that is still in the roster and has finished generating.');
+      return;
     }
+    setError(null);
+
+    const entry = createRosterEntry(generateSeed());
+    setRoster(entries => [...entries, entry]);
+    setSelectedId(entry.id);
+    // Failures such as incompatible races surface on the new entry, like any other generation error.
+    fillEntry(entry.id, entry.seed, () => secondParent && relation === 'offspring'
+      ? breedOffspring(entry.seed, firstParent, secondParent, mutationRate)
+      : rollSibling(entry.seed, firstParent, mutationRate));
+  }, [roster, fillEntry]);
+
+  const handleTogglePin = useCallback((id: string) => {
+    setRoster(entries => entries.map(entry => entry.id === id ? { ...entry, isPinned: !entry.isPinned } : entry));
+  }, []);
+
+  const handleDiscard = useCallback((id: string) => {
+    setRoster(entries => entries.filter(entry => entry.id !== id));
+    setSelectedId(current => current === id ? null : current);
   }, []);
 
+  const handleRedecode = useCallback(async (editedDna: string) => {
+    if (!selected?.npc) return;
+    const { id, seed, npc: baseNpc, generation } = selected;
+    // A saved NPC is re-decoded in its own campaign's setting, or none if its campaign has no
+    // setting, whichever campaign is active. Only unsaved NPCs use the active campaign.
+    const saved = library.find(record => record.id === selected.libraryId);
+    const campaign = saved
+      ? campaigns.find(context => saved.campaign && context.name === saved.campaign) ?? null
+      : activeCampaign;
+    updateEntry(id, seed, { isRedecoding: true });
+    setError(null);
+
+    try {
+      const profile = await aiQueueRef.current.run(() => writeProfile(editedDna, baseNpc, campaign));
+      updateEntry(id, seed, { dna: editedDna, profile, generation: { imageModel: null, ...generation, ...profileWriter() } });
+    } catch (err) {
+      console.error('Failed to re-decode DNA:', err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+    } finally {
+      updateEntry(id, seed, { isRedecoding: false });
+    }
+  }, [selected, library, campaigns, activeCampaign, updateEntry]);
+
   const handleGenerateImage = useCallback(async () => {
-    if (!npc) return;
-    setIsImageLoading(true);
+    if (!selected?.npc) return;
+    const { id, seed, npc: baseNpc, generation } = selected;
+    updateEntry(id, seed, { isImageLoading: true, error: null });
     setError(null);
-    
+
     try {
-      const generatedImageUrl = await generateNpcImage(npc);
-      setImageUrl(generatedImageUrl);
+      const generatedImageUrl = await aiQueueRef.current.run(() => generateNpcImage(baseNpc));
+      // Records opened from before generation was tracked do not know what wrote their profile.
+      updateEntry(id, seed, { imageUrl: generatedImageUrl, generation: { provider: 'unknown', textModel: null, ...generation, imageModel: portraitModel() } });
     } catch (err) {
       console.error('Failed to generate image:', err);
       setError(err instanceof Error ? err.message : 'An unknown error occurred.');
-      setImageUrl(null); // Clear image on failure
+      updateEntry(id, seed, { imageUrl: null }); // Clear image on failure
     } finally {
-      setIsImageLoading(false);
+      updateEntry(id, seed, { isImageLoading: false });
     }
-  }, [npc]);
+  }, [selected, updateEntry]);
 
-  const handleDownloadHtml = useCallback(() => {
-    if (!npcCardRef.current || !npc) return;
-    setIsDownloading(true);
+  const handleSaveToLibrary = useCallback(async () => {
+    if (selected?.status !== 'ready' || !selected.npc || !selected.dna || !selected.profile) return;
+    setIsSaving(true);
+    setError(null);
 
     try {
-      // 1. Clone the card element to avoid modifying the live DOM.
-      const cardElement = npcCardRef.current.cloneNode(true) as HTMLElement;
+      // Saving again updates the same record and keeps its tags and campaign.
+      const existing = library.find(record => record.id === selected.libraryId);
+      const now = new Date().toISOString();
+      const stored = await putSavedNpc({
+        id: existing?.id ?? crypto.randomUUID(),
+        tags: existing?.tags ?? [],
+        campaign: existing?.campaign ?? activeCampaignName,
+        relationships: existing?.relationships ?? [],
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+        npc: selected.npc,
+        dna: selected.dna,
+        profile: selected.profile,
+        imageUrl: selected.imageUrl,
+        seed: selected.seed || null,
+        generation: selected.generation,
+      });
+      setLibrary(records => [stored, ...records.filter(record => record.id !== stored.id)]);
+      updateEntry(selected.id, selected.seed, { libraryId: stored.id });
+    } catch (err) {
+      console.error('Failed to save NPC:', err);
+      setError(err instanceof Error ? err.message : 'The NPC could not be saved to the library.');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [selected, library, activeCampaignName, updateEntry]);
 
-      // 2. Find and remove the "Re-generate Portrait" button from the cloned element.
-      const buttonToRemove = cardElement.querySelector('[data-download-remove="true"]');
-      if (buttonToRemove) {
-          buttonToRemove.remove();
-      }
+  const handleOpenSaved = useCallback((record: SavedNpc) => {
+    const open = roster.find(entry => entry.libraryId === record.id);
+    if (open) {
+      setSelectedId(open.id);
+      return;
+    }
+    // Opened NPCs are pinned so the next batch does not replace them.
+    const entry: RosterEntry = {
+      ...createRosterEntry(record.seed ?? ''),
+      status: 'ready',
+      isPinned: true,
+      npc: record.npc,
+      dna: record.dna,
+      profile: record.profile,
+      imageUrl: record.imageUrl,
+      libraryId: record.id,
+      generation: record.generation ?? null,
+    };
+    setRoster(entries => [...entries, entry]);
+    setSelectedId(entry.id);
+  }, [roster]);
 
-      // 3. Get the raw HTML of the modified clone.
-      const cardHtml = cardElement.outerHTML;
-
-      // 4. This script will be embedded in the downloaded file to make the tabs interactive.
-      const script = 'const tabs = document.querySelectorAll(\'[role="tab"]\');\n' +
-        'const tabPanels = document.querySelectorAll(\'[role="tabpanel"]\');\n' +
-        'const inactiveClasses = \'bg-transparent text-slate-400 hover:bg-slate-800 hover:text-slate-200\';\n' +
-        'const activeClasses = \'bg-slate-700 text-amber-400\';\n' +
-        'const baseClasses = \'px-4 py-2 text-sm font-bold transition-colors duration-200 focus:outline-none rounded-t-lg\';\n' +
-        'function switchTab(clickedTab) {\n' +
-        '  tabs.forEach(tab => {\n' +
-        '    tab.setAttribute(\'aria-selected\', \'false\');\n' +
-        '    tab.className = baseClasses + \' \' + inactiveClasses;\n' +
-        '  });\n' +
-        '  tabPanels.forEach(panel => {\n' +
-        '    panel.hidden = true;\n' +
-        '  });\n' +
-        '  clickedTab.setAttribute(\'aria-selected\', \'true\');\n' +
-        '  clickedTab.className = baseClasses + \' \' + activeClasses;\n' +
-        '  const controlledPanel = document.getElementById(clickedTab.getAttribute(\'aria-controls\'));\n' +
-        '  if (controlledPanel) {\n' +
-        '    controlledPanel.hidden = false;\n' +
-        '  }\n' +
-        '}\n' +
-        'tabs.forEach(tab => {\n' +
-        '  tab.addEventListener(\'click\', (e) => switchTab(e.currentTarget));\n' +
-        '});\n' +
-        'if (tabs.length > 0) {\n' +
-        '  switchTab(tabs[0]);\n' +
-        '}\n';
-
-      // 5. Define the SVG icon as a string and URL-encode it for the data URI.
-      const svgIcon = `<svg xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="#f59e0b" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M12 2L2 8.5V15.5L12 22L22 15.5V8.5L12 2Z"></path><line x1="2" y1="8.5" x2="12" y2="12"></line><line x1="22" y1="8.5" x2="12" y2="12"></line><line x1="12" y1="2" x2="12" y2="12"></line><line x1="12" y1="22" x2="12" y2="12"></line><line x1="2" y1="15.5" x2="12" y2="12"></line><line x1="22" y1="15.5" x2="12" y2="12"></line></svg>`;
-      const faviconUrlEncoded = `data:image/svg+xml,${svgIcon.replace(/</g, '%3C').replace(/>/g, '%3E').replace(/#/g, '%23').replace(/"/g, "'")}`;
-
-      // 6. Construct the full HTML document string, including the embedded icon.
-      const fullHtml = `
-      <!DOCTYPE html>
-      <html lang="en">
-      <head>
-        <meta charset="UTF-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>${npc.name} - NPC Profile</title>
-        <script src="https://cdn.tailwindcss.com"></script>
-        <link rel="icon" href="${faviconUrlEncoded}">
-        <style>
-          body {
-            background-color: #0f172a; /* bg-slate-900 */
-            display: flex;
-            justify-content: center;
-            align-items: flex-start;
-            padding: 2rem;
-            min-height: 100vh;
-            font-family: sans-serif;
-          }
-        </style>
-      </head>
-      <body>
-        ${cardHtml}
-        <script>${script}</script>
-      </body>
-      </html>`;
-
-      // 7. Create a Blob and trigger the download.
-      const blob = new Blob([fullHtml], { type: 'text/html' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `npc-profile-${npc.name.replace(/\s+/g, '_')}.html`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+  const handleUpdateSaved = useCallback(async (record: SavedNpc) => {
+    try {
+      const stored = await putSavedNpc(record);
+      setLibrary(records => records.map(r => r.id === stored.id ? stored : r));
+    } catch (err) {
+      console.error('Failed to update saved NPC:', err);
+      setError(err instanceof Error ? err.message : 'The saved NPC could not be updated.');
+    }
+  }, []);
+
+  const handleDeleteSaved = useCallback(async (id: string) => {
+    try {
+      await deleteSavedNpc(id);
+      setLibrary(records => records.filter(record => record.id !== id));
+      setRoster(entries => entries.map(entry => entry.libraryId === id ? { ...entry, libraryId: null } : entry));
+    } catch (err) {
+      console.error('Failed to delete saved NPC:', err);
+      setError(err instanceof Error ? err.message : 'The saved NPC could not be deleted.');
+    }
+  }, []);
+
+  const handleExportBundle = useCallback((records: SavedNpc[], label?: string) => {
+    if (records.length === 0) return;
+    downloadFile(bundleFileName(records, label), JSON.stringify(createNpcBundle(records), null, 2), 'application/json');
+  }, []);
+
+  // A roster entry as it stands, with its library tags, campaign and links if it has been saved.
+  const toSavedRecord = useCallback((entry: RosterEntry): SavedNpc => {
+    const existing = library.find(record => record.id === entry.libraryId);
+    const now = new Date().toISOString();
+    return {
+      id: existing?.id ?? crypto.randomUUID(),
+      tags: existing?.tags ?? [],
+      campaign: existing?.campaign ?? activeCampaignName,
+      relationships: existing?.relationships ?? [],
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      npc: entry.npc!,
+      dna: entry.dna!,
+      profile: entry.profile!,
+      imageUrl: entry.imageUrl,
+      seed: entry.seed || null,
+      generation: entry.generation,
+    };
+  }, [library, activeCampaignName]);
 
+  const handleExportSelected = useCallback(() => {
+    if (selected?.status !== 'ready' || !selected.npc || !selected.dna || !selected.profile) return;
+    handleExportBundle([toSavedRecord(selected)]);
+  }, [selected, toSavedRecord, handleExportBundle]);
+
+  // Every finished NPC in the roster goes into one vault, so links between them resolve.
+  const handleExportObsidian = useCallback(() => {
+    const records = roster
+      .filter(entry => entry.status === 'ready' && entry.npc && entry.dna && entry.profile)
+      .map(toSavedRecord);
+    if (records.length === 0) return;
+    downloadFile(vaultFileName(records), buildObsidianVault(records), 'application/zip');
+  }, [roster, toSavedRecord]);
+
+  // Imported NPCs go into the library under their own ids, so importing the same bundle again
+  // updates them rather than duplicating them, and open pinned in the roster.
+  const handleImportBundle = useCallback(async (file: File) => {
+    setError(null);
+    try {
+      const bundle = parseNpcBundle(await file.text());
+      const stored = await Promise.all(bundle.npcs.map(record => putSavedNpc(record)));
+      const storedIds = new Set(stored.map(record => record.id));
+      setLibrary(records => [...stored, ...records.filter(record => !storedIds.has(record.id))]);
+
+      const entries: RosterEntry[] = stored.map(record => ({
+        ...createRosterEntry(record.seed ?? ''),
+        status: 'ready',
+        isPinned: true,
+        npc: record.npc,
+        dna: record.dna,
+        profile: record.profile,
+        imageUrl: record.imageUrl,
+        libraryId: record.id,
+        generation: record.generation ?? null,
+      }));
+      setRoster(current => [...current.filter(entry => !entry.libraryId || !storedIds.has(entry.libraryId)), ...entries]);
+      setSelectedId(entries[0].id);
+    } catch (err) {
+      console.error('Failed to import NPC bundle:', err);
+      setError(err instanceof Error ? err.message : 'The NPC bundle could not be imported.');
+    }
+  }, []);
+
+  const handleWeaveRelationships = useCallback(async (ids: string[]) => {
+    const records = library.filter(record => ids.includes(record.id));
+    setIsWeaving(true);
+    setError(null);
+
+    try {
+      const links = await generateRelationshipWeb(records, activeCampaign);
+      const stored = await Promise.all(applyRelationshipWeb(records, links).map(putSavedNpc));
+      setLibrary(current => current.map(record => stored.find(s => s.id === record.id) ?? record));
+    } catch (err) {
+      console.error('Failed to weave relationships:', err);
+      setError(err instanceof Error ? err.message : 'The relationship web could not be generated.');
+    } finally {
+      setIsWeaving(false);
+    }
+  }, [library, activeCampaign]);
+
+  const handleSaveCampaign = useCallback(async (campaign: CampaignContext) => {
+    try {
+      const stored = await putCampaign(campaign);
+      setCampaigns(current => [...current.filter(c => c.name !== stored.name), stored].sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (err) {
+      console.error('Failed to save campaign:', err);
+      setError(err instanceof Error ? err.message : 'The campaign could not be saved.');
+    }
+  }, []);
+
+  const handleDeleteCampaign = useCallback(async (name: string) => {
+    try {
+      await deleteCampaign(name);
+      setCampaigns(current => current.filter(c => c.name !== name));
+      setActiveCampaignName(current => current === name ? '' : current);
+    } catch (err) {
+      console.error('Failed to delete campaign:', err);
+      setError(err instanceof Error ? err.message : 'The campaign could not be deleted.');
+    }
+  }, []);
+
+  const handleDownloadHtml = useCallback(async () => {
+    if (!npcCardRef.current || !npc) return;
+    setIsDownloading(true);
+
+    try {
+      const html = await buildStandaloneHtml(npcCardRef.current, { title: `${npc.name} - NPC Profile` });
+      downloadFile(`npc-profile-${npc.name.replace(/\s+/g, '_')}.html`, html, 'text/html');
     } catch (error) {
         console.error("Failed to generate HTML file:", error);
         setError("Unable to download the NPC profile. Please try again.");
     } finally {
         setIsDownloading(false);
     }
-}, [npc]);
+  }, [npc]);
 
   return (
     <div className="bg-slate-900 min-h-screen text-white font-sans p-4 md:p-8 flex flex-col items-center">
@@ -204,44 +519,157 @@ export function App() {
         </div>
       )}
 
+      <AiSettingsPanel settings={aiSettings} onChange={handleAiSettingsChange} />
+      <DataPacksPanel entries={dataPacks} onChange={handleDataPacksChange} />
+      <CampaignPanel
+        campaigns={campaigns}
+        activeName={activeCampaignName}
+        onSelect={setActiveCampaignName}
+        onSave={handleSaveCampaign}
+        onDelete={handleDeleteCampaign}
+      />
+      <RelationshipWebPanel
+        records={library}
+        isAiAvailable={aiConfigured}
+        isWeaving={isWeaving}
+        onWeave={handleWeaveRelationships}
+        onOpen={handleOpenSaved}
+      />
+      <LibraryPanel records={library} onOpen={handleOpenSaved} onUpdate={handleUpdateSaved} onDelete={handleDeleteSaved} onExport={handleExportBundle} />
+      <FamilyPanel candidates={roster.filter(entry => entry.status === 'ready')} onBreed={handleBreed} />
+      <GenerationOptionsForm
+        options={generationOptions}
+        onChange={setGenerationOptions}
+        dnaOptions={dnaOptions}
+        onDnaOptionsChange={setDnaOptions}
+      />
+
       <div className="mb-8 flex flex-wrap gap-4 justify-center">
-        <Button onClick={handleGenerateProfile} variant="primary" disabled={isProfileLoading}>
-          {isProfileLoading ? <><Spinner /> <span>Decoding DNA...</span></> : 'Generate NPC Profile'}
+        <input
+          type="text"
+          value={seedInput}
+          onChange={(e) => setSeedInput(e.target.value)}
+          placeholder="Seed (optional)"
+          aria-label="Generation seed"
+          className="px-4 py-3 rounded-lg bg-slate-800 border border-slate-700 text-slate-200 placeholder-slate-500 font-mono focus:outline-none focus:ring-4 focus:ring-slate-500"
+        />
+        <input
+          type="text"
+          value={dnaInput}
+          onChange={(e) => setDnaInput(e.target.value)}
+          placeholder="Paste a DNA code (optional)"
+          aria-label="Personality DNA code"
+          className="px-4 py-3 rounded-lg bg-slate-800 border border-slate-700 text-slate-200 placeholder-slate-500 font-mono focus:outline-none focus:ring-4 focus:ring-slate-500"
+        />
+        <label className="flex items-center gap-2 text-slate-400 text-sm">
+          NPCs
+          <input
+            type="number"
+            min={1}
+            max={MAX_BATCH_SIZE}
+            value={batchSize}
+            onChange={(e) => setBatchSize(Math.min(MAX_BATCH_SIZE, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+            className="w-16 px-2 py-3 rounded-lg bg-slate-800 border border-slate-700 text-slate-200 focus:outline-none focus:ring-4 focus:ring-slate-500"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-slate-400 text-sm" title="How many AI requests may run at the same time">
+          Parallel
+          <input
+            type="number"
+            min={1}
+            max={8}
+            value={concurrency}
+            onChange={(e) => handleConcurrencyChange(Math.min(8, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+            className="w-16 px-2 py-3 rounded-lg bg-slate-800 border border-slate-700 text-slate-200 focus:outline-none focus:ring-4 focus:ring-slate-500"
+          />
+        </label>
+        <Button onClick={handleGenerateBatch} variant="primary" disabled={isGenerating}>
+          {isGenerating ? <><Spinner /> <span>Decoding DNA...</span></> : batchSize > 1 ? `Generate ${batchSize} NPCs` : 'Generate NPC Profile'}
         </Button>
+        {npc && (
+          <Button onClick={handleSaveToLibrary} variant="secondary" disabled={isSaving}>
+            {isSaving ? <><Spinner /> <span>Saving...</span></> : selected?.libraryId ? 'Update in Library' : 'Save to Library'}
+          </Button>
+        )}
         {npc && (
           <Button onClick={handleDownloadHtml} variant="secondary" disabled={isDownloading}>
             {isDownloading ? <><Spinner /> <span>Downloading...</span></> : 'Download Character Sheet'}
           </Button>
         )}
+        {npc && (
+          <Button onClick={handleExportSelected} variant="secondary" title="Save a .npc.json bundle that can be imported again">
+            Export Bundle
+          </Button>
+        )}
+        {npc && (
+          <Button onClick={handleExportObsidian} variant="secondary" title="Save every finished NPC in the roster as Obsidian notes">
+            Export to Obsidian
+          </Button>
+        )}
+        <Button onClick={() => bundleInputRef.current?.click()} variant="secondary" title="Open NPCs from a .npc.json bundle">
+          Import Bundle
+        </Button>
+        <input
+          ref={bundleInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImportBundle(file);
+            // Cleared so picking the same file again still fires.
+            e.target.value = '';
+          }}
+        />
       </div>
 
-      <main className="w-full flex justify-center">
-        {isProfileLoading && (
-          <div className="text-center text-slate-400 flex flex-col items-center">
-            <Spinner />
-            <p className="mt-2">Decoding personality DNA and crafting narrative...</p>
-          </div>
-        )}
-        {npc && npcProfile && dna && !isProfileLoading && (
-          <NpcCard
-            ref={npcCardRef}
-            npc={npc}
-            profile={npcProfile}
-            imageUrl={imageUrl}
-            isImageLoading={isImageLoading}
-            onGenerateImage={handleGenerateImage}
-            dna={dna}
+      <main className="w-full flex flex-col lg:flex-row gap-6 justify-center">
+        {roster.length > 0 && (
+          <RosterSidebar
+            entries={roster}
+            selectedId={selected?.id ?? null}
+            onSelect={setSelectedId}
+            onTogglePin={handleTogglePin}
+            onRegenerate={handleRegenerate}
+            onDiscard={handleDiscard}
           />
         )}
-        {!npc && !isProfileLoading && (
-          <div className="text-center text-slate-500 max-w-md">
-            <p>Click the button to generate your first fully-realized NPC from a unique personality DNA code!</p>
-          </div>
-        )}
+        <div className="flex-1 min-w-0 flex flex-col items-center">
+          {selected?.status === 'generating' && (
+            <div className="text-center text-slate-400 flex flex-col items-center">
+              <Spinner />
+              <p className="mt-2">Decoding personality DNA and crafting narrative...</p>
+            </div>
+          )}
+          {selected?.error && (
+            <p className={`max-w-4xl w-full mb-4 px-4 py-3 rounded-lg border ${selected.status === 'failed' ? 'bg-red-900/30 border-red-700 text-red-300' : 'bg-amber-900/20 border-amber-800 text-amber-300'}`}>
+              {selected.error}
+            </p>
+          )}
+          {selected && npc && selected.profile && selected.dna && (
+            <NpcCard
+              ref={npcCardRef}
+              npc={npc}
+              profile={selected.profile}
+              imageUrl={selected.imageUrl}
+              isImageLoading={selected.isImageLoading}
+              onGenerateImage={handleGenerateImage}
+              dna={selected.dna}
+              seed={selected.seed}
+              onRedecode={handleRedecode}
+              isRedecoding={selected.isRedecoding}
+            />
+          )}
+          {roster.length === 0 && (
+            <div className="text-center text-slate-500 max-w-md">
+              <p>Click the button to generate your first fully-realized NPC from a unique personality DNA code! Raise the count to prep a whole town at once.</p>
+            </div>
+          )}
+        </div>
       </main>
 
       <footer className="mt-auto pt-8 text-center text-slate-500 text-sm">
-        <p>Built with React, TypeScript, and the Google Gemini API.</p>
+        <p>Built with React, TypeScript, and the Google Gemini API or any OpenAI-compatible model server.</p>
       </footer>
     </div>
   );
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { defaultModels, providerLabels, type AiProviderId, type AiSettings } from '../services/aiProviders';
+
+interface AiSettingsPanelProps {
+  settings: AiSettings;
+  onChange: (settings: AiSettings) => void;
+}
+
+const inputClasses = 'w-full px-3 py-2 rounded-md bg-slate-900 border border-slate-700 text-slate-200 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-slate-500';
+const labelClasses = 'block text-sm font-semibold text-slate-400 mb-1';
+
+export const AiSettingsPanel: React.FC<AiSettingsPanelProps> = ({ settings, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const update = (changes: Partial<AiSettings>) => onChange({ ...settings, ...changes });
+
+  const handleProviderChange = (provider: AiProviderId) => {
+    // Switching providers resets the models, since model names are never shared between them.
+    update({ provider, ...defaultModels[provider] });
+  };
+
+  return (
+    <div className="w-full max-w-4xl mb-6 bg-slate-800/50 border border-slate-700 rounded-lg">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex justify-between items-center px-4 py-3 text-left text-slate-300 font-bold focus:outline-none"
+        aria-expanded={isOpen}
+      >
+        <span>AI Settings <span className="font-normal text-slate-500">({providerLabels[settings.provider]}, {settings.textModel})</span></span>
+        <span className="text-slate-500">{isOpen ? '−' : '+'}</span>
+      </button>
+      {isOpen && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 px-4 pb-4">
+          <div>
+            <label className={labelClasses} htmlFor="ai-provider">Provider</label>
+            <select
+              id="ai-provider"
+              value={settings.provider}
+              onChange={(e) => handleProviderChange(e.target.value as AiProviderId)}
+              className={inputClasses}
+            >
+              {(Object.keys(providerLabels) as AiProviderId[]).map(id => (
+                <option key={id} value={id}>{providerLabels[id]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClasses} htmlFor="ai-api-key">API Key</label>
+            <input
+              id="ai-api-key"
+              type="password"
+              value={settings.apiKey}
+              onChange={(e) => update({ apiKey: e.target.value })}
+              placeholder={settings.provider === 'gemini' ? 'Defaults to GEMINI_API_KEY' : 'Optional'}
+              className={inputClasses}
+            />
+          </div>
+          <div>
+            <label className={labelClasses} htmlFor="ai-text-model">Text Model</label>
+            <input
+              id="ai-text-model"
+              type="text"
+              value={settings.textModel}
+              onChange={(e) => update({ textModel: e.target.value })}
+              className={inputClasses}
+            />
+          </div>
+          <div>
+            <label className={labelClasses} htmlFor="ai-image-model">Image Model</label>
+            <input
+              id="ai-image-model"
+              type="text"
+              value={settings.imageModel}
+              onChange={(e) => update({ imageModel: e.target.value })}
+              placeholder="Leave empty if the server cannot generate images"
+              className={inputClasses}
+            />
+          </div>
+          {settings.provider === 'openai-compatible' && (
+            <div className="md:col-span-2">
+              <label className={labelClasses} htmlFor="ai-base-url">Server URL</label>
+              <input
+                id="ai-base-url"
+                type="text"
+                value={settings.baseUrl}
+                onChange={(e) => update({ baseUrl: e.target.value })}
+                placeholder="http://localhost:11434/v1"
+                className={inputClasses}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import type { CampaignContext } from '../types';
+
+interface CampaignPanelProps {
+  campaigns: CampaignContext[];
+  /** Name of the campaign new profiles are written for; empty for none. */
+  activeName: string;
+  onSelect: (name: string) => void;
+  onSave: (campaign: CampaignContext) => void;
+  onDelete: (name: string) => void;
+}
+
+const inputClassName = "w-full px-3 py-2 rounded-md bg-slate-900 border border-slate-700 text-slate-200 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-slate-500";
+
+const emptyCampaign = (name: string): CampaignContext => ({
+  name,
+  worldName: '',
+  region: '',
+  factions: [],
+  conflicts: [],
+  tone: '',
+  updatedAt: '',
+});
+
+const lines = (text: string): string[] => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+// Factions are edited one per line as "Name: description".
+const parseFactions = (text: string): CampaignContext['factions'] => lines(text).map(line => {
+  const separator = line.indexOf(':');
+  return separator < 0
+    ? { name: line, description: '' }
+    : { name: line.slice(0, separator).trim(), description: line.slice(separator + 1).trim() };
+});
+
+const formatFactions = (factions: CampaignContext['factions']): string =>
+  factions.map(f => f.description ? `${f.name}: ${f.description}` : f.name).join('\n');
+
+const CampaignEditor: React.FC<{ campaign: CampaignContext; onSave: (campaign: CampaignContext) => void; onDelete: () => void }> = ({ campaign, onSave, onDelete }) => {
+  const [worldName, setWorldName] = useState(campaign.worldName);
+  const [region, setRegion] = useState(campaign.region);
+  const [tone, setTone] = useState(campaign.tone);
+  const [factions, setFactions] = useState(formatFactions(campaign.factions));
+  const [conflicts, setConflicts] = useState(campaign.conflicts.join('\n'));
+
+  const handleSave = () => onSave({
+    ...campaign,
+    worldName: worldName.trim(),
+    region: region.trim(),
+    tone: tone.trim(),
+    factions: parseFactions(factions),
+    conflicts: lines(conflicts),
+  });
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+      <label className="block text-sm font-semibold text-slate-400">
+        World
+        <input type="text" value={worldName} onChange={(e) => setWorldName(e.target.value)} placeholder="e.g. Faerûn" className={`mt-1 ${inputClassName}`} />
+      </label>
+      <label className="block text-sm font-semibold text-slate-400">
+        Region
+        <input type="text" value={region} onChange={(e) => setRegion(e.target.value)} placeholder="e.g. The Sword Coast" className={`mt-1 ${inputClassName}`} />
+      </label>
+      <label className="block text-sm font-semibold text-slate-400">
+        Tone
+        <input type="text" value={tone} onChange={(e) => setTone(e.target.value)} placeholder="e.g. grim and political" className={`mt-1 ${inputClassName}`} />
+      </label>
+      <label className="block text-sm font-semibold text-slate-400 md:col-span-3">
+        Factions <span className="font-normal text-slate-500">(one per line, "Name: description")</span>
+        <textarea value={factions} onChange={(e) => setFactions(e.target.value)} rows={4} placeholder="The Zhentarim: a mercenary network buying influence in every port" className={`mt-1 ${inputClassName}`} />
+      </label>
+      <label className="block text-sm font-semibold text-slate-400 md:col-span-3">
+        Current Conflicts <span className="font-normal text-slate-500">(one per line)</span>
+        <textarea value={conflicts} onChange={(e) => setConflicts(e.target.value)} rows={3} placeholder="Bandits have cut the trade road to Neverwinter" className={`mt-1 ${inputClassName}`} />
+      </label>
+      <div className="md:col-span-3 flex gap-2">
+        <button onClick={handleSave} className="px-4 py-2 rounded-md bg-amber-600 text-white hover:bg-amber-500 text-sm font-bold">Save Campaign</button>
+        <button
+          onClick={() => { if (window.confirm(`Delete the campaign setting "${campaign.name}"? Saved NPCs keep their campaign name.`)) onDelete(); }}
+          className="px-4 py-2 rounded-md bg-slate-700 text-slate-200 hover:bg-red-800 text-sm font-bold"
+        >
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Picks the active campaign and edits its setting. The active campaign's setting is sent along
+ * with every AI profile request, and new library saves are filed under it.
+ */
+export const CampaignPanel: React.FC<CampaignPanelProps> = ({ campaigns, activeName, onSelect, onSave, onDelete }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const active = campaigns.find(c => c.name === activeName) ?? null;
+
+  const handleCreate = () => {
+    const name = newName.trim();
+    if (!name) return;
+    if (!campaigns.some(c => c.name === name)) {
+      onSave(emptyCampaign(name));
+    }
+    onSelect(name);
+    setNewName('');
+  };
+
+  return (
+    <div className="w-full max-w-4xl mb-6 bg-slate-800/50 border border-slate-700 rounded-lg">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex justify-between items-center px-4 py-3 text-left text-slate-300 font-bold focus:outline-none"
+        aria-expanded={isOpen}
+      >
+        <span>Campaign <span className="font-normal text-slate-500">({active ? active.name : 'none'})</span></span>
+        <span className="text-slate-500">{isOpen ? '−' : '+'}</span>
+      </button>
+      {isOpen && (
+        <div className="px-4 pb-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="block text-sm font-semibold text-slate-400">
+              Active Campaign
+              <select value={active?.name ?? ''} onChange={(e) => onSelect(e.target.value)} className={`mt-1 ${inputClassName}`}>
+                <option value="">None (generic setting)</option>
+                {campaigns.map(c => <option key={c.name} value={c.name}>{c.name}</option>)}
+              </select>
+            </label>
+            <div>
+              <label className="block text-sm font-semibold text-slate-400 mb-1" htmlFor="new-campaign-name">New Campaign</label>
+              <div className="flex gap-2">
+                <input
+                  id="new-campaign-name"
+                  type="text"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); }}
+                  placeholder="Campaign name"
+                  className={inputClassName}
+                />
+                <button onClick={handleCreate} className="px-3 py-2 rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600 text-sm font-bold">Create</button>
+              </div>
+            </div>
+          </div>
+          {active && (
+            <CampaignEditor key={`${active.name}:${active.updatedAt}`} campaign={active} onSave={onSave} onDelete={() => onDelete(active.name)} />
+          )}
+          <p className="text-xs text-slate-500 mt-4">The setting is only used when an AI provider writes the profile.</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React, { useMemo } from 'react';
+import { compareDna } from '../services/compatibility';
+import type { SavedNpc } from '../types';
+
+interface CompatibilityReportViewProps {
+  first: SavedNpc;
+  second: SavedNpc;
+  onClose: () => void;
+}
+
+const firstName = (record: SavedNpc) => record.npc.name.split(' ')[0];
+
+const scoreColor = (score: number) => score >= 55 ? 'text-emerald-400' : score >= 40 ? 'text-amber-400' : 'text-red-400';
+
+export const CompatibilityReportView: React.FC<CompatibilityReportViewProps> = ({ first, second, onClose }) => {
+  const report = useMemo(() => {
+    try {
+      return compareDna(first.dna, second.dna, firstName(first), firstName(second));
+    } catch (error) {
+      console.error('Failed to compare NPCs:', error);
+      return null;
+    }
+  }, [first, second]);
+
+  return (
+    <div className="mt-4 bg-slate-900/50 border border-slate-700 rounded-lg p-4">
+      <div className="flex justify-between items-start mb-3">
+        <h4 className="font-bold text-slate-200">{first.npc.name} & {second.npc.name}</h4>
+        <button onClick={onClose} className="text-slate-500 hover:text-slate-200" aria-label="Close comparison">×</button>
+      </div>
+      {!report ? (
+        <p className="text-red-400 text-sm">The DNA of one of these NPCs could not be decoded.</p>
+      ) : (
+        <>
+          <div className="flex items-baseline gap-3 mb-4">
+            <span className={`text-3xl font-extrabold ${scoreColor(report.score)}`}>{report.score}</span>
+            <span className="text-slate-300 font-semibold">{report.verdict}</span>
+            <span className="text-slate-500 text-sm">Alignment distance {report.alignmentDistance}/16</span>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+            <div>
+              <h5 className="font-bold text-emerald-400 mb-1">Common Ground</h5>
+              {report.complements.length === 0 ? <p className="text-slate-500">Nothing in particular.</p> : (
+                <ul className="list-disc list-inside space-y-1 text-slate-300">
+                  {report.complements.map((point, i) => <li key={i}>{point.description}</li>)}
+                </ul>
+              )}
+            </div>
+            <div>
+              <h5 className="font-bold text-red-400 mb-1">Friction Points</h5>
+              {report.frictionPoints.length === 0 ? <p className="text-slate-500">Nothing in particular.</p> : (
+                <ul className="list-disc list-inside space-y-1 text-slate-300">
+                  {report.frictionPoints.map((point, i) => <li key={i}>{point.description}</li>)}
+                </ul>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useRef, useState } from 'react';
+import { findMissingRaceData, mergeDataPacks, parseDataPack, summarizeDataPack, type DataPackEntry } from '../services/dataPacks';
+
+interface DataPacksPanelProps {
+  entries: DataPackEntry[];
+  onChange: (entries: DataPackEntry[]) => void;
+}
+
+const smallButtonClassName = "px-2 py-1 rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600 text-sm font-bold disabled:opacity-40 disabled:cursor-not-allowed";
+
+/**
+ * Loads homebrew data packs and turns them on and off. Enabled packs apply from top to bottom,
+ * so a pack lower in the list wins where two change the same entry.
+ */
+export const DataPacksPanel: React.FC<DataPacksPanelProps> = ({ entries, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const enabledCount = entries.filter(entry => entry.enabled).length;
+  const missing = findMissingRaceData(mergeDataPacks(entries.filter(entry => entry.enabled).map(entry => entry.pack)));
+
+  // A pack with the id of one already loaded replaces it in place, keeping its position and toggle.
+  const handleLoad = async (files: File[]) => {
+    setLoadError(null);
+    let next = entries;
+    const errors: string[] = [];
+    for (const file of files) {
+      try {
+        const pack = parseDataPack(await file.text());
+        next = next.some(entry => entry.pack.id === pack.id)
+          ? next.map(entry => entry.pack.id === pack.id ? { ...entry, pack } : entry)
+          : [...next, { pack, enabled: true }];
+      } catch (err) {
+        errors.push(`${file.name}: ${err instanceof Error ? err.message : 'The file could not be read.'}`);
+      }
+    }
+    if (errors.length > 0) setLoadError(errors.join('\n'));
+    if (next !== entries) onChange(next);
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...entries];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="w-full max-w-4xl mb-6 bg-slate-800/50 border border-slate-700 rounded-lg">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex justify-between items-center px-4 py-3 text-left text-slate-300 font-bold focus:outline-none"
+        aria-expanded={isOpen}
+      >
+        <span>Data Packs <span className="font-normal text-slate-500">({enabledCount === 0 ? 'built-in tables' : `${enabledCount} enabled`})</span></span>
+        <span className="text-slate-500">{isOpen ? '−' : '+'}</span>
+      </button>
+      {isOpen && (
+        <div className="px-4 pb-4">
+          {entries.length === 0 ? (
+            <p className="text-sm text-slate-500">No data packs loaded. NPCs are rolled from the built-in tables.</p>
+          ) : (
+            <ul className="space-y-2">
+              {entries.map((entry, index) => (
+                <li key={entry.pack.id} className="flex items-start gap-3 bg-slate-900/60 border border-slate-700 rounded-md px-3 py-2">
+                  <input
+                    type="checkbox"
+                    checked={entry.enabled}
+                    onChange={(e) => onChange(entries.map(other => other === entry ? { ...other, enabled: e.target.checked } : other))}
+                    className="mt-1 accent-amber-500"
+                    aria-label={`Enable ${entry.pack.name}`}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className={`font-bold ${entry.enabled ? 'text-slate-200' : 'text-slate-500'}`}>{entry.pack.name}</p>
+                    {entry.pack.description && <p className="text-sm text-slate-400">{entry.pack.description}</p>}
+                    <p className="text-xs text-slate-500">{summarizeDataPack(entry.pack)}</p>
+                  </div>
+                  <div className="flex gap-1">
+                    <button onClick={() => move(index, -1)} disabled={index === 0} className={smallButtonClassName} aria-label={`Apply ${entry.pack.name} earlier`}>↑</button>
+                    <button onClick={() => move(index, 1)} disabled={index === entries.length - 1} className={smallButtonClassName} aria-label={`Apply ${entry.pack.name} later`}>↓</button>
+                    <button
+                      onClick={() => { if (window.confirm(`Remove the data pack "${entry.pack.name}"?`)) onChange(entries.filter(other => other !== entry)); }}
+                      className="px-2 py-1 rounded-md bg-slate-700 text-slate-200 hover:bg-red-800 text-sm font-bold"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+          {loadError && <p className="mt-3 text-sm text-red-300 whitespace-pre-line">{loadError}</p>}
+          {missing.length > 0 && (
+            <p className="mt-3 text-sm text-amber-300">
+              {missing.join(' ')} Missing names fall back to human names, a missing description to a generic portrait prompt, and races without racial features get plain stat blocks.
+            </p>
+          )}
+          <div className="mt-4 flex items-center gap-3">
+            <button onClick={() => fileInputRef.current?.click()} className="px-4 py-2 rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600 text-sm font-bold">
+              Load Data Pack
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                const files = Array.from(e.target.files ?? []) as File[];
+                if (files.length > 0) handleLoad(files);
+                // Cleared so picking the same file again still fires.
+                e.target.value = '';
+              }}
+            />
+            <p className="text-xs text-slate-500">Packs change the tables new NPCs are rolled from. NPCs already rolled keep their details.</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from './Button';
+import { Spinner } from './Spinner';
+import { computeAlignment, encodeDna, getGneStrength, getLncAlignment, type DecodedDna } from '../services/dnaDecoder';
+
+interface DnaEditorProps {
+  decoded: DecodedDna;
+  onRedecode?: (dna: string) => void;
+  isRedecoding?: boolean;
+}
+
+type PairedTraits = DecodedDna['pairedTraits'];
+type UnpairedTraits = DecodedDna['unpairedTraits'];
+
+const Slider: React.FC<{ label: string; value: number; max: number; onChange: (value: number) => void }> = ({ label, value, max, onChange }) => (
+  <label className="flex items-center gap-2 text-xs text-slate-500">
+    <span className="w-16">{label}</span>
+    <input
+      type="range"
+      min={1}
+      max={max}
+      step={1}
+      value={value}
+      onChange={(e) => onChange(parseInt(e.target.value, 10))}
+      className="flex-1 accent-amber-600"
+    />
+    <span className="w-8 text-right font-mono text-slate-400">{value}/{max}</span>
+  </label>
+);
+
+/**
+ * Lets the GM flip and tune every trait of a decoded DNA. The alignment averages follow the edits
+ * live; nothing changes on the NPC until the edited DNA is re-decoded.
+ */
+export const DnaEditor: React.FC<DnaEditorProps> = ({ decoded, onRedecode, isRedecoding = false }) => {
+  const [pairedTraits, setPairedTraits] = useState<PairedTraits>(decoded.pairedTraits);
+  const [unpairedTraits, setUnpairedTraits] = useState<UnpairedTraits>(decoded.unpairedTraits);
+
+  const alignment = useMemo(() => computeAlignment(pairedTraits, unpairedTraits), [pairedTraits, unpairedTraits]);
+  const editedDna = useMemo(() => encodeDna({ pairedTraits, unpairedTraits }), [pairedTraits, unpairedTraits]);
+  const isDirty = pairedTraits !== decoded.pairedTraits || unpairedTraits !== decoded.unpairedTraits;
+
+  const updatePaired = (index: number, changes: Partial<PairedTraits[number]>) => {
+    setPairedTraits(traits => traits.map((trait, i) => {
+      if (i !== index) return trait;
+      const updated = { ...trait, ...changes };
+      return { ...updated, influence: getLncAlignment(updated.score) };
+    }));
+  };
+
+  const updateUnpaired = (index: number, score: number) => {
+    setUnpairedTraits(traits => traits.map((trait, i) => i === index ? { ...trait, score, strength: getGneStrength(score) } : trait));
+  };
+
+  const handleReset = () => {
+    setPairedTraits(decoded.pairedTraits);
+    setUnpairedTraits(decoded.unpairedTraits);
+  };
+
+  return (
+    <div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+        <div>
+          <h5 className="font-bold text-slate-300 mb-2">Alignment Averages</h5>
+          <p className="text-slate-400"><strong>{alignment.lnc} ({alignment.lncScore}/9):</strong> Law vs Chaos</p>
+          <p className="text-slate-400"><strong>{alignment.gne} ({alignment.gneScore}/9):</strong> Good vs Evil</p>
+        </div>
+        {isDirty && (
+          <div className="flex flex-col gap-2" data-download-remove="true">
+            <p className="text-xs text-slate-500 font-mono break-all">{editedDna}</p>
+            <div className="flex gap-2">
+              <Button onClick={() => onRedecode?.(editedDna)} disabled={isRedecoding || !onRedecode} variant="primary">
+                {isRedecoding ? <><Spinner /> <span>Re-decoding...</span></> : 'Re-decode Profile'}
+              </Button>
+              <Button onClick={handleReset} disabled={isRedecoding} variant="secondary">Reset</Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <h4 className="text-xl font-bold text-amber-500 border-b-2 border-amber-800/50 pb-2 mb-3">Paired Traits (LNC)</h4>
+      <div className="space-y-4 mb-6">
+        {pairedTraits.map((trait, index) => {
+          const [trait1, trait2] = trait.pair.split(' / ');
+          return (
+            <div key={trait.pair} className="bg-slate-900/30 p-3 rounded-md">
+              <div className="flex justify-between items-center text-lg">
+                <button onClick={() => updatePaired(index, { name: trait1 })} className={trait.name === trait1 ? 'font-bold text-amber-400' : 'text-slate-500 hover:text-slate-300'}>{trait1}</button>
+                <span className="text-slate-600 font-sans text-sm">vs</span>
+                <button onClick={() => updatePaired(index, { name: trait2 })} className={trait.name === trait2 ? 'font-bold text-amber-400' : 'text-slate-500 hover:text-slate-300'}>{trait2}</button>
+              </div>
+              <div className="w-full bg-slate-700 rounded-full h-2.5 mt-2">
+                <div className="bg-amber-600 h-2.5 rounded-full" style={{ width: `${trait.intensity * 20}%` }}></div>
+              </div>
+              <div className="mt-2 space-y-1 font-sans" data-download-remove="true">
+                <Slider label="Intensity" value={trait.intensity} max={5} onChange={(intensity) => updatePaired(index, { intensity })} />
+                <Slider label="LNC Score" value={trait.score} max={9} onChange={(score) => updatePaired(index, { score })} />
+              </div>
+              <p className="text-xs text-slate-500 mt-1 text-right">Intensity: {trait.intensity}/5, Influence: {trait.influence}</p>
+            </div>
+          );
+        })}
+      </div>
+
+      <h4 className="text-xl font-bold text-amber-500 border-b-2 border-amber-800/50 pb-2 mb-3">Unpaired Traits (GNE)</h4>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {unpairedTraits.map((trait, index) => (
+          <div key={trait.name} className="bg-slate-900/30 p-3 rounded-md">
+            <p className="font-semibold text-slate-300">{trait.name}</p>
+            <p className="text-sm text-slate-400">Strength: <span className="font-bold">{trait.strength} ({trait.score}/9)</span></p>
+            <div className="mt-2 font-sans" data-download-remove="true">
+              <Slider label="Score" value={trait.score} max={9} onChange={(score) => updateUnpaired(index, score)} />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { DEFAULT_MUTATION_RATE, getChildRaces, type Relation } from '../services/inheritance';
+import type { RosterEntry } from '../types';
+
+interface FamilyPanelProps {
+  /** Roster entries that finished generating. */
+  candidates: RosterEntry[];
+  onBreed: (relation: Relation, firstId: string, secondId: string | null, mutationRate: number) => void;
+}
+
+const inputClassName = "w-full px-3 py-2 rounded-md bg-slate-900 border border-slate-700 text-slate-200 focus:outline-none focus:ring-2 focus:ring-slate-500";
+
+/**
+ * Breeds a child from two roster NPCs, or rolls a sibling for one, and adds the result to the roster.
+ */
+export const FamilyPanel: React.FC<FamilyPanelProps> = ({ candidates, onBreed }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [relation, setRelation] = useState<Relation>('offspring');
+  const [firstId, setFirstId] = useState('');
+  const [secondId, setSecondId] = useState('');
+  const [mutationRate, setMutationRate] = useState(DEFAULT_MUTATION_RATE);
+
+  const first = candidates.find(entry => entry.id === firstId)?.npc ?? null;
+  const second = candidates.find(entry => entry.id === secondId)?.npc ?? null;
+  const childRaces = first && second ? getChildRaces(first.race, second.race) : [];
+  const canBreed = relation === 'sibling' ? !!first : !!first && !!second && firstId !== secondId && childRaces.length > 0;
+
+  const npcSelect = (label: string, value: string, onChange: (id: string) => void) => (
+    <label className="block text-sm font-semibold text-slate-400">
+      {label}
+      <select value={value} onChange={(e) => onChange(e.target.value)} className={`mt-1 ${inputClassName}`}>
+        <option value="">Choose an NPC...</option>
+        {candidates.map(entry => <option key={entry.id} value={entry.id}>{entry.npc?.name} ({entry.npc?.race})</option>)}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="w-full max-w-4xl mb-6 bg-slate-800/50 border border-slate-700 rounded-lg">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex justify-between items-center px-4 py-3 text-left text-slate-300 font-bold focus:outline-none"
+        aria-expanded={isOpen}
+      >
+        <span>Family <span className="font-normal text-slate-500">(offspring and siblings)</span></span>
+        <span className="text-slate-500">{isOpen ? '−' : '+'}</span>
+      </button>
+      {isOpen && (
+        <div className="px-4 pb-4">
+          {candidates.length === 0 ? (
+            <p className="text-slate-500 text-sm">Generate or open some NPCs first; relatives are made from NPCs in the roster.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="flex gap-4 md:col-span-2 text-slate-300">
+                <label className="flex items-center gap-2">
+                  <input type="radio" name="relation" checked={relation === 'offspring'} onChange={() => setRelation('offspring')} className="accent-amber-600" />
+                  Child of two NPCs
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="radio" name="relation" checked={relation === 'sibling'} onChange={() => setRelation('sibling')} className="accent-amber-600" />
+                  Sibling of one NPC
+                </label>
+              </div>
+              {npcSelect(relation === 'offspring' ? 'First Parent' : 'Sibling Of', firstId, setFirstId)}
+              {relation === 'offspring' && npcSelect('Second Parent', secondId, setSecondId)}
+              <label className="flex items-center gap-2 text-sm text-slate-400 md:col-span-2">
+                <span className="w-32">Mutation rate</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={0.5}
+                  step={0.05}
+                  value={mutationRate}
+                  onChange={(e) => setMutationRate(parseFloat(e.target.value))}
+                  className="flex-1 accent-amber-600"
+                />
+                <span className="w-12 text-right font-mono">{Math.round(mutationRate * 100)}%</span>
+              </label>
+              {relation === 'offspring' && first && second && (
+                <p className={`text-sm md:col-span-2 ${childRaces.length > 0 ? 'text-slate-400' : 'text-red-400'}`}>
+                  {childRaces.length > 0
+                    ? `Their child will be ${childRaces.join(' or ')}.`
+                    : `A ${first.race} and a ${second.race} cannot have children together.`}
+                </p>
+              )}
+              <div className="md:col-span-2">
+                <button
+                  onClick={() => onBreed(relation, firstId, relation === 'offspring' ? secondId : null, mutationRate)}
+                  disabled={!canBreed}
+                  className="px-4 py-2 rounded-md bg-amber-600 text-white hover:bg-amber-500 text-sm font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {relation === 'offspring' ? 'Breed Child' : 'Roll Sibling'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
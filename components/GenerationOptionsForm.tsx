@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { getNpcFieldTables } from '../services/npcGenerator';
+import { getTableLabel } from '../services/dataPacks';
+import { gneTraitMap, lncTraitMap, type GneAlignment, type LncAlignment } from '../services/dnaDecoder';
+import type { DnaGenerationOptions } from '../services/dnaGenerator';
+import type { ConstrainableNpcField, NpcGenerationOptions } from '../types';
+
+interface GenerationOptionsFormProps {
+  options: NpcGenerationOptions;
+  onChange: (options: NpcGenerationOptions) => void;
+  dnaOptions: DnaGenerationOptions;
+  onDnaOptionsChange: (options: DnaGenerationOptions) => void;
+}
+
+const lockableFields: { field: ConstrainableNpcField; label: string }[] = [
+  { field: 'race', label: 'Race' },
+  { field: 'gender', label: 'Gender' },
+  { field: 'age', label: 'Age Band' },
+  { field: 'profession', label: 'Profession' },
+  { field: 'demeanor', label: 'Demeanor' },
+  { field: 'wantsOrNeed', label: 'Wants / Needs' },
+  { field: 'secretOrObstacle', label: 'Secret / Obstacle' },
+];
+
+const lncAlignments: LncAlignment[] = ['Lawful', 'Neutral', 'Chaotic'];
+const gneAlignments: GneAlignment[] = ['Good', 'Neutral', 'Evil'];
+const traitNames = [...lncTraitMap.flatMap(({ name1, name2 }) => [name1, name2]), ...Object.values(gneTraitMap)];
+
+const inputClassName = "px-3 py-2 rounded-md bg-slate-900 border border-slate-700 text-slate-200 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-slate-500";
+
+const toList = (constraint?: string | string[]): string[] => typeof constraint === 'string' ? [constraint] : constraint ?? [];
+
+// One field's locked values: none means random, one is pinned, several restrict the roll to those.
+const ConstraintPicker: React.FC<{
+  id: string;
+  label: string;
+  suggestions: string[];
+  values: string[];
+  onChange: (values: string[]) => void;
+}> = ({ id, label, suggestions, values, onChange }) => {
+  const [draft, setDraft] = useState('');
+  const listId = `constraint-${id}`;
+
+  const addDraft = () => {
+    const value = draft.trim();
+    if (value && !values.includes(value)) {
+      onChange([...values, value]);
+    }
+    setDraft('');
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-semibold text-slate-400 mb-1" htmlFor={listId + '-input'}>
+        {label} <span className="font-normal text-slate-500">{values.length === 0 ? '(random)' : values.length === 1 ? '(locked)' : '(one of)'}</span>
+      </label>
+      <div className="flex gap-2">
+        <input
+          id={listId + '-input'}
+          type="text"
+          list={listId}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); addDraft(); } }}
+          placeholder="Type or choose..."
+          className={`flex-1 min-w-0 ${inputClassName}`}
+        />
+        <button onClick={addDraft} className="px-3 py-2 rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600 text-sm font-bold">Add</button>
+        <datalist id={listId}>
+          {suggestions.map(value => <option key={value} value={value} />)}
+        </datalist>
+      </div>
+      {values.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-2">
+          {values.map(value => (
+            <span key={value} className="flex items-center gap-1 bg-amber-900/40 text-amber-300 text-sm px-2 py-1 rounded">
+              {value}
+              <button onClick={() => onChange(values.filter(v => v !== value))} className="text-amber-500 hover:text-amber-200" aria-label={`Remove ${value}`}>×</button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const GenerationOptionsForm: React.FC<GenerationOptionsFormProps> = ({ options, onChange, dnaOptions, onDnaOptionsChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const fieldTables = getNpcFieldTables();
+  const lockedCount = lockableFields.filter(({ field }) => toList(options[field]).length > 0).length
+    + (dnaOptions.lnc ? 1 : 0) + (dnaOptions.gne ? 1 : 0) + (dnaOptions.dominantTraits?.length ? 1 : 0);
+
+  const updateField = (field: ConstrainableNpcField, values: string[]) => {
+    const next = { ...options };
+    if (values.length === 0) {
+      delete next[field];
+    } else {
+      next[field] = values.length === 1 ? values[0] : values;
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="w-full max-w-4xl mb-6 bg-slate-800/50 border border-slate-700 rounded-lg">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex justify-between items-center px-4 py-3 text-left text-slate-300 font-bold focus:outline-none"
+        aria-expanded={isOpen}
+      >
+        <span>Lock Attributes <span className="font-normal text-slate-500">({lockedCount === 0 ? 'all random' : `${lockedCount} locked`})</span></span>
+        <span className="text-slate-500">{isOpen ? '−' : '+'}</span>
+      </button>
+      {isOpen && (
+        <div className="px-4 pb-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {lockableFields.map(({ field, label }) => (
+              <ConstraintPicker
+                key={field}
+                id={field}
+                label={label}
+                suggestions={Array.from(new Set(fieldTables[field].map(getTableLabel)))}
+                values={toList(options[field])}
+                onChange={(values) => updateField(field, values)}
+              />
+            ))}
+          </div>
+          <h4 className="font-bold text-slate-300 mt-6 mb-2">Personality DNA</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="grid grid-cols-2 gap-2">
+              <label className="block text-sm font-semibold text-slate-400">
+                Law / Chaos
+                <select
+                  value={dnaOptions.lnc ?? ''}
+                  onChange={(e) => onDnaOptionsChange({ ...dnaOptions, lnc: (e.target.value || undefined) as LncAlignment | undefined })}
+                  className={`mt-1 w-full ${inputClassName}`}
+                >
+                  <option value="">Random</option>
+                  {lncAlignments.map(a => <option key={a} value={a}>{a}</option>)}
+                </select>
+              </label>
+              <label className="block text-sm font-semibold text-slate-400">
+                Good / Evil
+                <select
+                  value={dnaOptions.gne ?? ''}
+                  onChange={(e) => onDnaOptionsChange({ ...dnaOptions, gne: (e.target.value || undefined) as GneAlignment | undefined })}
+                  className={`mt-1 w-full ${inputClassName}`}
+                >
+                  <option value="">Random</option>
+                  {gneAlignments.map(a => <option key={a} value={a}>{a}</option>)}
+                </select>
+              </label>
+            </div>
+            <ConstraintPicker
+              id="dominant-traits"
+              label="Dominant Traits"
+              suggestions={traitNames}
+              values={dnaOptions.dominantTraits ?? []}
+              onChange={(dominantTraits) => onDnaOptionsChange({ ...dnaOptions, dominantTraits })}
+            />
+          </div>
+          {lockedCount > 0 && (
+            <button onClick={() => { onChange({}); onDnaOptionsChange({}); }} className="mt-4 text-sm text-slate-400 hover:text-slate-200 underline">Clear all locks</button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useMemo, useState } from 'react';
+import { collectLibraryFacets, filterLibrary } from '../services/npcLibrary';
+import { decodeDna, type GneAlignment, type LncAlignment } from '../services/dnaDecoder';
+import { getTableLabel } from '../services/dataPacks';
+import { CompatibilityReportView } from './CompatibilityReportView';
+import type { SavedNpc } from '../types';
+
+interface LibraryPanelProps {
+  records: SavedNpc[];
+  onOpen: (record: SavedNpc) => void;
+  onUpdate: (record: SavedNpc) => void;
+  onDelete: (id: string) => void;
+  /** Downloads records as one `.npc.json` bundle; `label` names the file. */
+  onExport: (records: SavedNpc[], label?: string) => void;
+}
+
+const inputClassName = "px-3 py-2 rounded-md bg-slate-900 border border-slate-700 text-slate-200 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-slate-500";
+
+const parseTags = (text: string): string[] => Array.from(new Set(text.split(',').map(tag => tag.trim()).filter(Boolean)));
+
+// Inline editor for a record's campaign and tags.
+const RecordEditor: React.FC<{ record: SavedNpc; campaigns: string[]; onSave: (record: SavedNpc) => void; onCancel: () => void }> = ({ record, campaigns, onSave, onCancel }) => {
+  const [campaign, setCampaign] = useState(record.campaign);
+  const [tags, setTags] = useState(record.tags.join(', '));
+
+  return (
+    <div className="mt-2 grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-2 items-end">
+      <label className="text-xs text-slate-500">
+        Campaign
+        <input type="text" list="library-campaigns" value={campaign} onChange={(e) => setCampaign(e.target.value)} placeholder="Unassigned" className={`mt-1 w-full ${inputClassName}`} />
+        <datalist id="library-campaigns">
+          {campaigns.map(c => <option key={c} value={c} />)}
+        </datalist>
+      </label>
+      <label className="text-xs text-slate-500">
+        Tags (comma separated)
+        <input type="text" value={tags} onChange={(e) => setTags(e.target.value)} placeholder="villain, tavern" className={`mt-1 w-full ${inputClassName}`} />
+      </label>
+      <div className="flex gap-2">
+        <button onClick={() => onSave({ ...record, campaign: campaign.trim(), tags: parseTags(tags) })} className="px-3 py-2 rounded-md bg-amber-600 text-white hover:bg-amber-500 text-sm font-bold">Save</button>
+        <button onClick={onCancel} className="px-3 py-2 rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600 text-sm font-bold">Cancel</button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Browses the saved NPC library: full-text search, campaign, tag and alignment filters,
+ * per-record campaign/tag editing, and export of the filtered records as one bundle.
+ */
+export const LibraryPanel: React.FC<LibraryPanelProps> = ({ records, onOpen, onUpdate, onDelete, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [campaign, setCampaign] = useState<string | undefined>(undefined);
+  const [tags, setTags] = useState<string[]>([]);
+  const [lnc, setLnc] = useState<LncAlignment | undefined>(undefined);
+  const [gne, setGne] = useState<GneAlignment | undefined>(undefined);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const facets = useMemo(() => collectLibraryFacets(records), [records]);
+  const results = useMemo(() => filterLibrary(records, { query, campaign, tags, lnc, gne }), [records, query, campaign, tags, lnc, gne]);
+
+  // Picking a third NPC to compare drops the oldest pick.
+  const toggleCompare = (id: string) => setCompareIds(current => current.includes(id) ? current.filter(c => c !== id) : [...current, id].slice(-2));
+  const compared = compareIds.map(id => records.find(record => record.id === id)).filter((record): record is SavedNpc => !!record);
+
+  const toggleTag = (tag: string) => setTags(current => current.includes(tag) ? current.filter(t => t !== tag) : [...current, tag]);
+
+  return (
+    <div className="w-full max-w-4xl mb-6 bg-slate-800/50 border border-slate-700 rounded-lg">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex justify-between items-center px-4 py-3 text-left text-slate-300 font-bold focus:outline-none"
+        aria-expanded={isOpen}
+      >
+        <span>Library <span className="font-normal text-slate-500">({records.length} saved)</span></span>
+        <span className="text-slate-500">{isOpen ? '−' : '+'}</span>
+      </button>
+      {isOpen && (
+        <div className="px-4 pb-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-2 mb-3">
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search name, race, profession, profile..."
+              aria-label="Search library"
+              className={`md:col-span-4 ${inputClassName}`}
+            />
+            <select value={campaign ?? '*'} onChange={(e) => setCampaign(e.target.value === '*' ? undefined : e.target.value)} aria-label="Campaign" className={`md:col-span-2 ${inputClassName}`}>
+              <option value="*">All campaigns</option>
+              <option value="">Unassigned</option>
+              {facets.campaigns.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+            <select value={lnc ?? ''} onChange={(e) => setLnc((e.target.value || undefined) as LncAlignment | undefined)} aria-label="Law / Chaos" className={inputClassName}>
+              <option value="">Any Law/Chaos</option>
+              <option value="Lawful">Lawful</option>
+              <option value="Neutral">Neutral</option>
+              <option value="Chaotic">Chaotic</option>
+            </select>
+            <select value={gne ?? ''} onChange={(e) => setGne((e.target.value || undefined) as GneAlignment | undefined)} aria-label="Good / Evil" className={inputClassName}>
+              <option value="">Any Good/Evil</option>
+              <option value="Good">Good</option>
+              <option value="Neutral">Neutral</option>
+              <option value="Evil">Evil</option>
+            </select>
+          </div>
+          {facets.tags.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-3">
+              {facets.tags.map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => toggleTag(tag)}
+                  className={`text-xs px-2 py-1 rounded ${tags.includes(tag) ? 'bg-amber-900/40 text-amber-300' : 'bg-slate-700 text-slate-400 hover:text-slate-200'}`}
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {results.length > 0 && (
+            <div className="flex justify-end mb-2">
+              <button
+                onClick={() => onExport(results, campaign || 'library')}
+                className="text-sm text-slate-400 hover:text-slate-200"
+                title="Download these NPCs as a .npc.json bundle to share or import elsewhere"
+              >
+                Export {results.length === 1 ? '1 NPC' : `${results.length} NPCs`} as bundle
+              </button>
+            </div>
+          )}
+
+          {results.length === 0 ? (
+            <p className="text-slate-500 text-sm">{records.length === 0 ? 'Saved NPCs appear here.' : 'No saved NPCs match these filters.'}</p>
+          ) : (
+            <ul className="divide-y divide-slate-700">
+              {results.map(record => {
+                const alignment = decodeDna(record.dna)?.alignment;
+                return (
+                  <li key={record.id} className="py-2">
+                    <div className="flex items-center gap-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="font-semibold text-slate-200 truncate">{record.npc.name}</p>
+                        <p className="text-xs text-slate-500 truncate">
+                          {record.npc.race} {getTableLabel(record.npc.profession)}
+                          {alignment && ` · ${alignment.lnc} ${alignment.gne}`}
+                          {record.campaign && ` · ${record.campaign}`}
+                          {record.tags.length > 0 && ` · ${record.tags.map(t => `#${t}`).join(' ')}`}
+                        </p>
+                      </div>
+                      <label className="flex items-center gap-1 text-sm text-slate-400" title="Compare with another saved NPC">
+                        <input type="checkbox" checked={compareIds.includes(record.id)} onChange={() => toggleCompare(record.id)} className="accent-amber-600" />
+                        Compare
+                      </label>
+                      <button onClick={() => onOpen(record)} className="text-sm text-amber-400 hover:text-amber-300 font-bold">Open</button>
+                      <button onClick={() => setEditingId(editingId === record.id ? null : record.id)} className="text-sm text-slate-400 hover:text-slate-200">Edit</button>
+                      <button
+                        onClick={() => { if (window.confirm(`Delete ${record.npc.name} from the library?`)) onDelete(record.id); }}
+                        className="text-sm text-slate-400 hover:text-red-400"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                    {editingId === record.id && (
+                      <RecordEditor
+                        record={record}
+                        campaigns={facets.campaigns}
+                        onSave={(updated) => { onUpdate(updated); setEditingId(null); }}
+                        onCancel={() => setEditingId(null)}
+                      />
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          {compared.length === 2 ? (
+            <CompatibilityReportView first={compared[0]} second={compared[1]} onClose={() => setCompareIds([])} />
+          ) : compared.length === 1 && (
+            <p className="mt-3 text-sm text-slate-500">Tick a second NPC to see how {compared[0].npc.name} would get along with them.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
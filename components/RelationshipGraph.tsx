@@ -0,0 +1,176 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { relationshipLabels, relationshipTypes } from '../services/relationshipWeb';
+import type { NpcRelationship, RelationshipType, SavedNpc } from '../types';
+
+interface RelationshipGraphProps {
+  records: SavedNpc[];
+  links: NpcRelationship[];
+  onOpen: (record: SavedNpc) => void;
+}
+
+type Point = { x: number; y: number };
+
+const WIDTH = 800;
+const HEIGHT = 480;
+const NODE_RADIUS = 28;
+
+export const relationshipColors: Record<RelationshipType, string> = {
+  rival: '#ef4444',
+  debtor: '#f59e0b',
+  lover: '#ec4899',
+  sibling: '#38bdf8',
+  blackmailer: '#a855f7',
+  ally: '#10b981',
+};
+
+// Starts every NPC on a circle; dragging moves them from there.
+const circleLayout = (records: SavedNpc[]): Record<string, Point> => {
+  const radius = Math.min(WIDTH, HEIGHT) / 2 - NODE_RADIUS * 2;
+  return Object.fromEntries(records.map((record, i) => {
+    const angle = (2 * Math.PI * i) / records.length - Math.PI / 2;
+    return [record.id, { x: WIDTH / 2 + radius * Math.cos(angle), y: HEIGHT / 2 + radius * Math.sin(angle) }];
+  }));
+};
+
+const initials = (name: string) => name.split(' ').map(part => part[0]).join('').slice(0, 2).toUpperCase();
+
+/**
+ * An SVG node graph of NPCs and the typed links between them. Nodes can be dragged; clicking one
+ * highlights its links and lists them below, double-clicking opens the NPC.
+ */
+export const RelationshipGraph: React.FC<RelationshipGraphProps> = ({ records, links, onOpen }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [positions, setPositions] = useState<Record<string, Point>>(() => circleLayout(records));
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // New NPCs join the circle; NPCs already placed keep their position.
+  useEffect(() => {
+    setPositions(current => ({ ...circleLayout(records), ...current }));
+  }, [records]);
+
+  const toSvgPoint = (event: React.PointerEvent): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(WIDTH - NODE_RADIUS, Math.max(NODE_RADIUS, ((event.clientX - rect.left) / rect.width) * WIDTH)),
+      y: Math.min(HEIGHT - NODE_RADIUS, Math.max(NODE_RADIUS, ((event.clientY - rect.top) / rect.height) * HEIGHT)),
+    };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!draggingId) return;
+    const point = toSvgPoint(event);
+    setPositions(current => ({ ...current, [draggingId]: point }));
+  };
+
+  const nameOf = (id: string) => records.find(record => record.id === id)?.npc.name ?? 'Unknown';
+  const selectedLinks = links.filter(link => link.from === selectedId || link.to === selectedId);
+
+  return (
+    <div>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full bg-slate-900/50 rounded-lg border border-slate-700 touch-none select-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDraggingId(null)}
+        onPointerLeave={() => setDraggingId(null)}
+        onClick={() => setSelectedId(null)}
+      >
+        <defs>
+          {relationshipTypes.map(type => (
+            <marker key={type} id={`arrow-${type}`} viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill={relationshipColors[type]} />
+            </marker>
+          ))}
+        </defs>
+
+        {links.map((link, i) => {
+          const from = positions[link.from];
+          const to = positions[link.to];
+          if (!from || !to) return null;
+          // Links between the same two NPCs bend apart so they do not overlap.
+          const siblings = links.filter(l => (l.from === link.from && l.to === link.to) || (l.from === link.to && l.to === link.from));
+          const bend = (siblings.indexOf(link) - (siblings.length - 1) / 2) * 40;
+          // Measure the bend against a fixed direction per pair, so opposite links curve to opposite sides.
+          const [start, finish] = link.from < link.to ? [from, to] : [to, from];
+          const dx = finish.x - start.x;
+          const dy = finish.y - start.y;
+          const length = Math.hypot(dx, dy) || 1;
+          const control = { x: (from.x + to.x) / 2 - (dy / length) * bend, y: (from.y + to.y) / 2 + (dx / length) * bend };
+          // Stop the line at the edge of the target node so the arrowhead stays visible.
+          const cx = to.x - control.x;
+          const cy = to.y - control.y;
+          const cLength = Math.hypot(cx, cy) || 1;
+          const end = { x: to.x - (cx / cLength) * NODE_RADIUS, y: to.y - (cy / cLength) * NODE_RADIUS };
+          const isDimmed = selectedId !== null && link.from !== selectedId && link.to !== selectedId;
+          return (
+            <path
+              key={i}
+              d={`M ${from.x} ${from.y} Q ${control.x} ${control.y} ${end.x} ${end.y}`}
+              fill="none"
+              stroke={relationshipColors[link.type]}
+              strokeWidth={isDimmed ? 1.5 : 3}
+              opacity={isDimmed ? 0.2 : 0.9}
+              markerEnd={`url(#arrow-${link.type})`}
+            >
+              <title>{`${nameOf(link.from)} ${relationshipLabels[link.type]} ${nameOf(link.to)}: ${link.description}`}</title>
+            </path>
+          );
+        })}
+
+        {records.map(record => {
+          const point = positions[record.id];
+          if (!point) return null;
+          const isSelected = record.id === selectedId;
+          return (
+            <g
+              key={record.id}
+              transform={`translate(${point.x}, ${point.y})`}
+              className="cursor-grab"
+              onPointerDown={(e) => { e.stopPropagation(); setDraggingId(record.id); }}
+              onClick={(e) => { e.stopPropagation(); setSelectedId(isSelected ? null : record.id); }}
+              onDoubleClick={() => onOpen(record)}
+            >
+              {record.imageUrl ? (
+                <>
+                  <clipPath id={`clip-${record.id}`}><circle r={NODE_RADIUS} /></clipPath>
+                  <image href={`data:image/png;base64,${record.imageUrl}`} x={-NODE_RADIUS} y={-NODE_RADIUS} width={NODE_RADIUS * 2} height={NODE_RADIUS * 2} clipPath={`url(#clip-${record.id})`} />
+                </>
+              ) : (
+                <>
+                  <circle r={NODE_RADIUS} fill="#334155" />
+                  <text textAnchor="middle" dy="0.35em" fill="#e2e8f0" fontSize="16" fontWeight="bold">{initials(record.npc.name)}</text>
+                </>
+              )}
+              <circle r={NODE_RADIUS} fill="none" stroke={isSelected ? '#f59e0b' : '#64748b'} strokeWidth={isSelected ? 4 : 2} />
+              <text y={NODE_RADIUS + 16} textAnchor="middle" fill="#cbd5e1" fontSize="13">{record.npc.name}</text>
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="flex flex-wrap gap-4 mt-2 text-xs text-slate-400">
+        {relationshipTypes.map(type => (
+          <span key={type} className="flex items-center gap-1">
+            <span className="inline-block w-4 h-1 rounded" style={{ backgroundColor: relationshipColors[type] }}></span>
+            {type}
+          </span>
+        ))}
+        <span className="text-slate-500">Drag to arrange, click to focus, double-click to open.</span>
+      </div>
+
+      {selectedId && (
+        <ul className="mt-3 space-y-2 text-sm">
+          {selectedLinks.length === 0 && <li className="text-slate-500">{nameOf(selectedId)} has no links yet.</li>}
+          {selectedLinks.map((link, i) => (
+            <li key={i} className="text-slate-300">
+              <strong style={{ color: relationshipColors[link.type] }}>{nameOf(link.from)} {relationshipLabels[link.type]} {nameOf(link.to)}.</strong>{' '}
+              {link.description}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
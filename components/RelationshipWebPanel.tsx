@@ -0,0 +1,84 @@
+import React, { useMemo, useState } from 'react';
+import { Spinner } from './Spinner';
+import { RelationshipGraph } from './RelationshipGraph';
+import { collectLibraryFacets } from '../services/npcLibrary';
+import { collectRelationships } from '../services/relationshipWeb';
+import type { SavedNpc } from '../types';
+
+interface RelationshipWebPanelProps {
+  records: SavedNpc[];
+  isAiAvailable: boolean;
+  isWeaving: boolean;
+  onWeave: (ids: string[]) => void;
+  onOpen: (record: SavedNpc) => void;
+}
+
+/**
+ * Picks saved NPCs, asks the AI to connect them, and shows the resulting web as a graph.
+ */
+export const RelationshipWebPanel: React.FC<RelationshipWebPanelProps> = ({ records, isAiAvailable, isWeaving, onWeave, onOpen }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [campaign, setCampaign] = useState<string | undefined>(undefined);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const { campaigns } = useMemo(() => collectLibraryFacets(records), [records]);
+  const candidates = campaign === undefined ? records : records.filter(record => record.campaign === campaign);
+  const selected = useMemo(() => records.filter(record => selectedIds.includes(record.id)), [records, selectedIds]);
+  const links = useMemo(() => collectRelationships(selected), [selected]);
+
+  const toggle = (id: string) => setSelectedIds(current => current.includes(id) ? current.filter(c => c !== id) : [...current, id]);
+
+  return (
+    <div className="w-full max-w-4xl mb-6 bg-slate-800/50 border border-slate-700 rounded-lg">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex justify-between items-center px-4 py-3 text-left text-slate-300 font-bold focus:outline-none"
+        aria-expanded={isOpen}
+      >
+        <span>Relationship Web <span className="font-normal text-slate-500">({selected.length} selected)</span></span>
+        <span className="text-slate-500">{isOpen ? '−' : '+'}</span>
+      </button>
+      {isOpen && (
+        <div className="px-4 pb-4">
+          {records.length < 2 ? (
+            <p className="text-slate-500 text-sm">Save at least two NPCs to the library to connect them.</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center gap-3 mb-3">
+                <select
+                  value={campaign ?? '*'}
+                  onChange={(e) => setCampaign(e.target.value === '*' ? undefined : e.target.value)}
+                  aria-label="Campaign"
+                  className="px-3 py-2 rounded-md bg-slate-900 border border-slate-700 text-slate-200 focus:outline-none focus:ring-2 focus:ring-slate-500"
+                >
+                  <option value="*">All campaigns</option>
+                  <option value="">Unassigned</option>
+                  {campaigns.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+                <button onClick={() => setSelectedIds(candidates.map(record => record.id))} className="text-sm text-slate-400 hover:text-slate-200 underline">Select all</button>
+                <button onClick={() => setSelectedIds([])} className="text-sm text-slate-400 hover:text-slate-200 underline">Clear</button>
+              </div>
+              <div className="flex flex-wrap gap-2 mb-4">
+                {candidates.map(record => (
+                  <label key={record.id} className={`flex items-center gap-2 text-sm px-2 py-1 rounded cursor-pointer ${selectedIds.includes(record.id) ? 'bg-amber-900/40 text-amber-300' : 'bg-slate-700 text-slate-300'}`}>
+                    <input type="checkbox" checked={selectedIds.includes(record.id)} onChange={() => toggle(record.id)} className="accent-amber-600" />
+                    {record.npc.name}
+                  </label>
+                ))}
+              </div>
+              <button
+                onClick={() => onWeave(selectedIds)}
+                disabled={!isAiAvailable || isWeaving || selected.length < 2}
+                className="flex items-center px-4 py-2 mb-4 rounded-md bg-amber-600 text-white hover:bg-amber-500 text-sm font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isWeaving ? <><Spinner /> <span>Weaving...</span></> : links.length > 0 ? 'Re-weave Relationships' : 'Weave Relationships'}
+              </button>
+              {!isAiAvailable && <p className="text-xs text-slate-500 mb-4">Weaving relationships needs an AI provider.</p>}
+              {selected.length > 0 && <RelationshipGraph records={selected} links={links} onOpen={onOpen} />}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
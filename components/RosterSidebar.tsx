@@ -0,0 +1,66 @@
+import React from 'react';
+import { Spinner } from './Spinner';
+import { getTableLabel } from '../services/dataPacks';
+import type { RosterEntry } from '../types';
+
+interface RosterSidebarProps {
+  entries: RosterEntry[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onTogglePin: (id: string) => void;
+  onRegenerate: (id: string) => void;
+  onDiscard: (id: string) => void;
+}
+
+const IconButton: React.FC<{ label: string; onClick: () => void; disabled?: boolean; active?: boolean; children: React.ReactNode }> = ({ label, onClick, disabled, active, children }) => (
+  <button
+    onClick={(e) => { e.stopPropagation(); onClick(); }}
+    disabled={disabled}
+    title={label}
+    aria-label={label}
+    className={`w-7 h-7 flex items-center justify-center rounded text-sm transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${active ? 'text-amber-400 bg-amber-900/40' : 'text-slate-400 hover:text-slate-200 hover:bg-slate-700'}`}
+  >
+    {children}
+  </button>
+);
+
+const entrySummary = (entry: RosterEntry): string => {
+  if (entry.status === 'generating') return 'Generating...';
+  if (entry.status === 'failed') return entry.error ?? 'Generation failed.';
+  return entry.npc ? `${entry.npc.race} ${getTableLabel(entry.npc.profession)}` : '';
+};
+
+/**
+ * The list of generated NPCs. Pinned entries survive the next batch; the rest are replaced.
+ */
+export const RosterSidebar: React.FC<RosterSidebarProps> = ({ entries, selectedId, onSelect, onTogglePin, onRegenerate, onDiscard }) => (
+  <aside className="w-full lg:w-72 shrink-0 bg-slate-800/50 border border-slate-700 rounded-lg p-3 self-start">
+    <h2 className="font-bold text-slate-300 px-1 mb-2">Roster <span className="font-normal text-slate-500">({entries.length})</span></h2>
+    <ul className="space-y-1">
+      {entries.map(entry => (
+        <li
+          key={entry.id}
+          onClick={() => onSelect(entry.id)}
+          className={`flex items-center gap-2 p-2 rounded-md cursor-pointer transition-colors ${entry.id === selectedId ? 'bg-slate-700' : 'hover:bg-slate-700/50'}`}
+          aria-current={entry.id === selectedId}
+        >
+          <div className="flex-1 min-w-0">
+            <p className={`font-semibold truncate ${entry.status === 'failed' ? 'text-red-400' : 'text-slate-200'}`}>
+              {entry.npc?.name ?? `Seed ${entry.seed}`}
+            </p>
+            <p className="text-xs text-slate-500 truncate" title={entrySummary(entry)}>{entrySummary(entry)}</p>
+          </div>
+          {entry.status === 'generating' ? (
+            <Spinner />
+          ) : (
+            <div className="flex gap-1">
+              <IconButton label={entry.isPinned ? 'Unpin' : 'Pin'} onClick={() => onTogglePin(entry.id)} active={entry.isPinned}>★</IconButton>
+              <IconButton label="Regenerate" onClick={() => onRegenerate(entry.id)}>↻</IconButton>
+              <IconButton label="Discard" onClick={() => onDiscard(entry.id)}>×</IconButton>
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  </aside>
+);
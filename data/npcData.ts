@@ -1,6 +1,5 @@
 
 export const genders = ["male", "female"];
-export const races = ["Human", "Elf", "Dwarf", "Halfling", "Gnome", "Goliath", "Half-elf", "Half-orc", "Tiefling"];
 export const ages = ["teenage", "young", "young adult", "young adult", "adult", "adult", "middle-aged","middle-aged", "mature", "ederly"];
 export const intelligences = [" dumb as dirt, ", " ", " dense, ", "n intelligent, ", " street smart, ", " book smart, ", " book and street smart, ", " very bright, ", " not quite all there, "];
 export const hairStyles = ["long, wavy", "long, straight", "long, curly", "long, frizzy", "wavy, shoulder-length", "straight, shoulder-length", "curly, shoulder-length", "frizzy, shoulder-length", "short, frizzy", "short, wavy", "short, curly", "short, crew cut", "short, flat top", "short-cropped", "short, bowl cut", "medium-length, bowl cut"];
@@ -18,19 +17,6 @@ export const wantsOrNeeds = ["is searching for a lost loved one", "is seeking re
 export const secretOrObstacles = ["they have a secret that could ruin their reputation if it were to be discovered", "they have a powerful enemy who is actively trying to harm them", "they have a history of addiction that they are trying to overcome", "they have a history of mental illness that they are trying to manage", "they have a magical ability that they must keep hidden from others", "they have a family member who is constantly causing trouble for them", "they have a physical disability that they try to hide from others", "they have a secret that could get them into trouble with the law", "they are being pursued by a group that wants to use their abilities for evil purposes", "they are being haunted by a ghost or spirit that only they can see", "is secretly a member of a forbidden cult", "is secretly a member of a rival guild", "is secretly a spy for a rival kingdom", "is secretly a werewolf", "is secretly a vampire", "is secretly a shape-shifter", "is secretly a demon", "is secretly an angel", "is secretly a fairy", "is secretly a dragon", "has a bounty on their head", "is running from an abusive partner", "is being chased by a group of bandits", "is being pursued by a powerful magician", "is being hunted by a group of assassins", "is being pursued by a group of thieves", "is being hunted by a powerful dragon", "is being pursued by a group of cultists", "is being hunted by a group of undead", "is being pursued by a group of demons", "is being hunted by a group of monsters", "is being pursued by a group of giants", "is being hunted by a group of trolls", "is being pursued by a group of orcs", "their family is in debt to a powerful crime lord", "is a spy for a rival kingdom and is seeking to undermine the current government", "is a former thief trying to put their past behind them, but is haunted by their former mistakes", "is a scholar researching powerful artifacts that could potentially be used to control the world", "is a master of disguise and is using it to conceal their true identity", "is being blackmailed by a powerful figure", "is a double agent, working for two different sides", "is a polymorphed dragon in disguise", "is carrying a powerful relic that could cause great destruction if it falls into the wrong hands", "is on a quest to save a magical kingdom from an ancient evil", "is a cursed being, unable to die until their curse is lifted", "is an immortal being, tasked with protecting a powerful artifact from falling into the wrong hands", "is a powerful wizard, seeking to use their magic for good but is constantly struggling against their own dark desires", "is a vampire, cursed with an insatiable thirst for blood", "is a werewolf, struggling to control their transformation during the full moon", "is a ghost, lingering in limbo between life and death", "is a witch, with powerful magical abilities but cursed to live an immortal life", "is a fallen angel, cast down from heaven and given a mission to redeem himself", "is actually a genie, bound to a powerful artifact and tasked with fulfilling the wishes of its bearer", "is a warlock, with a pact to a powerful demon and tasked with completing its evil agenda", "is a banshee, cursed to wail in anguish and foretell the death of those around her", "is a master chef, trying to open their own restaurant", "is a talented musician, striving to make it big in the music industry", "is a gifted athlete, seeking to win the local championship", "is an artist, trying to make a name for himself in the art world", "is an inventor, trying to create the next big invention", "is a gambler, always looking for the next big win", "is an explorer, seeking out lost civilizations and hidden secrets", "is a collector, amassing an impressive collection of rare items", "is a philanthropist, looking to make the world a better place", "is a game designer, creating the next big hit game", "is an entrepreneur, looking to make a fortune in the business world", "is a hired assassin, taking contracts from powerful crime lords", "is a smuggler, transporting illegal items across borders", "is a con artist, always looking for their next big scam", "is a thief, stealing valuable items to sell on the black market", "is a counterfeiter, creating fake currency to finance their own schemes", "is a fence, selling stolen goods to unsuspecting buyers", "is a mob boss, controlling a powerful criminal empire", "is a hitman, taking on dangerous jobs to pay the bills", "is a money launderer, using their contacts to transfer dirty money", "is a drug dealer, supplying illegal substances to their customers", "is a bard, using their musical skills to charm and entertain", "is a comedian, always ready with a joke and a smile", "is a prankster, always up to a good laugh", "is a jester, a court clown playing tricks on the people around him", "is a storyteller, spinning tales of adventure and romance", "is a juggler, always looking for the next challenge", "is a poet, searching for the perfect words to express their emotions", "is a puppeteer, entertaining children with their wooden creations", "is a magician, using their illusions to captivate their audience", "is a ventriloquist, using their dummy to make the crowd laugh", "is a fortune teller, offering glimpses of the future to their clients", "is being hunted by a group of goblins", "is being pursued by a group of lizardfolk", "is being hunted by a group of kobolds", "is being pursued by a group of dwarves", "is being hunted by a group of elves", "accidentally killed a chicken while trying to cook it", "accidentally broke a vase while trying to dust it", "accidentally set fire to their house while trying to light a candle", "accidentally let their pet lizard escape", "accidentally let their pet dragon escape", "accidentally let their pet griffon escape", "accidentally let their pet manticore escape", "accidentally let their pet unicorn escape", "accidentally let their pet basilisk escape", "accidentally let their pet hydra escape", "accidentally let their pet chimera escape", "accidentally let their pet cyclops escape", "accidentally let their pet giant escape", "accidentally let their pet minotaur escape", "accidentally let their pet centaur escape", "accidentally let their pet harpy escape", "accidentally let their pet satyr escape", "accidentally let their pet mermaid escape", "accidentally let their pet siren escape", "has a secret love for cooking and baking", "has a secret talent for playing a musical instrument", "has a secret talent for singing", "has a secret talent for dancing", "has a secret talent for writing poetry", "has a secret talent for drawing", "has a secret talent for painting", "has a secret talent for sculpting", "has a secret talent for crafting", "has a secret talent for gardening", "has a secret talent for knitting", "has a secret talent for sewing", "has a secret talent for woodworking", "has a secret talent for blacksmithing", "has a secret talent for alchemy", "has a secret talent for herbalism", "has a secret talent for magic", "has a secret talent for  divination", "has a secret talent for astronomy", "has a secret talent for astrology"];
 export const items = [' a small notebook detailing various favors owed.', ' a well worn set of prayer beads; a lace hankie.', ' a list of bugbear gladiators and their strengths/weaknesses; a map to an underground fighting pit.', ' a small milk bottle; a sack holding 5 newborn owlbears.', ' some chalk and flat piece of slate; a note explaining their cursed condition.', ' a bag of bird seed; a bird call.', ' an aged book with ancient script; a set of thieves’ tools; a goblet with inlayed gems worth 1,000gp.', ' an emerald engagement ring worth 14gp.', ' a dehydrated ear; a journal featuring clippings covering “The Main Street Mangler.', ' a disguise kit; a bottle of regenerative hair tonic.', ' a list of nearby safehouses, all crossed out; a book of insults in Abyssal.', ' a strip of burlap; a dull knife; some smelling salts.', ' an ornate walking stick; a list of local haunted houses; a list of the area’s best pubs; an empty tip jar.', ' an assassination contract worth 5,000gp for a local leader who is still alive; a vile of purple worm poison.', ' a fresh baguette; a package of soft cheese; a small pot of honey.', ' a flagon of whiskey; a flask of vodka; a jug of cider; a bottle of lager; a tub-shaped bowl used as a drum.', ' literature detailing how aberrant creatures replaced area leadership; a hat made of thin metal.', ' a dozen roses parceled off into singles for sale; a dull switchblade.', ' a bag of rabbit teeth; a alf-empty bottle of strong spirits.', ' an antique claymore; a branch with lines carved for measuring.', ' meat cleaver.', ' a large conch shell attached to a wooden spoon.', ' an empty gold chalice; a bag of clothespins.', ' small whittling knife.', ' an empty mason jar; rusted scissors.', ' a stick with a carrot dangling from it.', ' a halfeaten turkey leg; a skinned wordfish.', ' fistful of live worms; a pitchfork.', ' a monocle; a cracked pocket watch; a spearmint-flavored cough drop.', ' a piece of green seaglass; an obsidian dagger.', ' a small suede bag of animal bones.', ' an impossibly tiny golden harp.', ' a topaz and gold circlet.', ' a silver ring set with what appears to be a tooth.', ' a vial of elderberry syrup; a mix of passionfruit, gooseberries, saskatoon berries and one bit of watermelon rind.', ' a pencil; a scroll; a small amber amulet.', ' a handful of red-colored sand; a mourning ring set with a thin braid of human hair.', ' a piece of parchment covered in illegible scrawl.', ' an assortment of mismatched buttons; cat hair; a sachet of loose tea.', ' a paintbrush; a smock; shears.', ' moldy brie; a glass cup; a silverspoon.', ' a scroll of names; a wheel of cheese; mutton.', ' a very sharp pencil; two apples; note cards.', ' flask; dried meat; folding knife.', ' pipe and tobacco pouch; steak knives in a leather roll.', ' an assassination contract featuring the party’s names.', ' a vellum envelope wrapped in a single ribbon; a small vial of viscous liquid.', ' a jeweled dagger; a quart of grease.', ' an official parchment bearing an exotic royal seal.', ' the Horn of Gelato.', ' several rocks the size of quail eggs, rounded by hand.', ' dried salted fish.', ' a leash and collar for a small dog.', ' two hand axes; a bottle of incredibly strong mead.', ' 6 apples.', ' a book featuring numerous handy Abyssal phrases translated into Common.', 'an oar; a map that leads to a dangerous and fabled location, home to a legendary item.', ' a handmade mask and hat combo.', ' an emerald worth 65gp; a chart detailing the return of a comet; several non-disclosure agreements.', " a small knife", " a lantern and oil", " a bedroll and blankets", " a set of thieves' tools", " a small stash of rations", " a waterskin", " a map of the local area", " a lockpick set", " a healing potion", " a set of dice", " a small musical instrument", " a small amount of poison", " a disguise kit", " a grappling hook and rope", " a small amount of explosives", " a set of tools for a specific trade", " a small book of spells", " a small amount of rare or valuable items", " a small chest filled with jewelry and precious stones", " a potion of water breathing", " a potion of fire resistance", " a potion of invisibility", " a flask of acid", " a vial of holy water", " a scroll of teleportation", " a scroll of fireball", " a scroll of protection from energy", " a small magical trinket that glows in the presence of hidden objects", " a small magical trinket that allows the user to understand any spoken language", " a small magical trinket that allows the user to breathe underwater", " a small magical trinket that allows the user to fly", " a small magical trinket that allows the user to teleport short distances", " a small magical trinket that allows the user to turn invisible", " a small magical trinket that allows the user to communicate with animals", " a small magical trinket that allows the user to see in the dark", " a small magical trinket that allows the user to pass through solid objects", " a small magical trinket that allows the user to see the future", " a small magical trinket that allows the user to control the weather", " a small magical trinket that allows the user to shape shift into a specific animal form", " a small magical trinket that allows the user to teleport long distances", " a small magical trinket that allows the user to control the minds of others", " a small magical trinket that allows the user to cast spells without speaking", " a small magical trinket that allows the user to turn invisible at will", " a small magical trinket that allows the user to teleport others along with themselves", " a small magical trinket that allows the user to cast spells with their thoughts", " a small magical trinket that allows the user to summon powerful magical creatures to do their bidding"];
 
-// NEW: D&D Race descriptions for image generation context
-export const raceDescriptions: { [key: string]: string } = {
-  "Human": "Humans are the most adaptable and ambitious people among the common races. They are diverse in appearance, with a wide variety of skin tones, hair colors, and builds.",
-  "Elf": "Elves are a magical people of otherworldly grace. They are slender, with sharp, pointed ears and captivating, almond-shaped eyes. They are slightly shorter and less bulky than humans on average.",
-  "Dwarf": "Dwarves are short and stout, known for their skill in warfare and smithing. They stand between 4 and 5 feet tall with broad, compact bodies. Male dwarves value their beards highly and groom them carefully.",
-  "Halfling": "Halflings are small, usually around 3 feet tall, and weigh between 40 and 45 pounds. They are nimble and dextrous, with round, cheerful faces and often curly hair.",
-  "Gnome": "Gnomes are small humanoids, slightly over 3 feet tall, known for their inventiveness and eccentric sense of humor. Their skin can be woody brown or ruddy tan, and their hair is often a vibrant natural color.",
-  "Goliath": "Goliaths are massive humanoids who dwell in the highest mountain peaks, standing between 7 and 8 feet tall with solid, muscular builds. Their skin is often a grayish color, mottled with dark patches.",
-  "Half-elf": "Half-elves combine the best qualities of their elf and human parents. They have a human-like build but often inherit the delicate, pointed ears and refined facial features of their elven ancestry.",
-  "Half-orc": "Half-orcs have grayish pigmentation, sloping foreheads, jutting jaws, and prominent teeth that make their orcish heritage plain. They are taller and bulkier than humans, possessing formidable strength.",
-  "Tiefling": "Tieflings are derived from human bloodlines but carry an infernal taint. They have large horns of various shapes, thick tails, sharply pointed teeth, and their eyes are solid colors with no visible sclera or pupil.",
-};
-
 // NAMES DATA
 
 export const humanFirstNames = {
@@ -87,3 +73,34 @@ export const goliathLastNames = [ "Agu-Ulaga ", "Agu-Ulalathi ", "Agu-Ulanathi "
 export const halfElfLastNames = [ "Aelorothi ", "Aeravansel ", "Ahmaquissar ", "Alastrarra ", "Alerothi ", "Aluianti ", "Amarallis ", "Ammath ", "Argentaamn ", "Ashgrove ", "Auglathla ", "Bellas ", "Bharaclaiev ", "Braegen ", "Brightsong ", "Calaudra ", "Cathdeiryn ", "Chamaranthe ", "Coudoarluth ", "Dahast ", "Dlardrageth ", "Dracoseir ", "Durothil ", "Ealoeth ", "Elassidil ", "Elond ", "Erkowe ", "Eroth ", "Eveningfall ", "Eyriendor ", "Falanae ", "Fenmarel ", "Fynnasla ", "Goldenleaf ", "Gwaelon ", "Haevaul ", "Hawksong ", "Iazymnal ", "Ilbenalu ", "Iliathor ", "Ilnatar ", "Irian ", "Ithruen ", "Kadelaryn ", "Keove ", "Kraok ", "Larenthanil ", "Le’Quella ", "Lharithlyn ", "Llundlar ", "Maendellyn ", "Melruth ", "Mistwinter ", "Moondown ", "Moonglamaer ", "Morningdove ", "Nacnar ", "Narlbeth ", "Never ", "Nharimlur ", "Nightmeadow ", "Nihmedu ", "Nlossae ", "Nyntynel ", "Olortynnal ", "Ongluth ", "Orbryn ", "Phenthae ", "Naepp ", "Raedrimn ", "Revven ", "Rhuidhen ", "Rivvikyn ", "Selakiir ", "Shadowmantle ", "Shaethe ", "Shaurlanglar ", "Sicafei ", "Silverhand ", "Sinaran ", "Spellstalker ", "Starglance ", "Starym ", "Straeth ", "Sultaasar ", "Swordstar ", "Talesspur ", "Tarnruth ", "Tassarion ", "Teshurr ", "Tohrthaal ", "Tornglara ", "Trueshot ", "Uirthur ", "Vandiir ", "Vyshaan ", "Windstar ", "Yeschant ", "Yridnae ", "Ackworth ", "Alban ", "Alicock ", "Allington ", "Amondsham ", "Ansty ", "Ardern ", "Arthur ", "Ashcombe ", "Askew ", "Atherton ", "Attilburgh ", "Audlington ", "Aylmer ", "Babington ", "Baker ", "Ballard ", "Barber ", "Barker ", "Barrentine ", "Bartelot ", "Bathurst ", "Baynton ", "Beaurepaire ", "Bedgberry ", "Beeton ", "Bennet ", "Berecraft ", "Bernard ", "Berwick ", "Bewforest ", "Bigley ", "Bingham ", "Bishopson ", "Blackwell ", "Blennerhayset ", "Bloom ", "Boddenham ", "Boothe ", "Bosby ", "Boston ", "Boulder ", "Bowcer ", "Bowyar ", "Bradstone ", "Branch ", "Braunstone ", "Brecknock ", "Brett ", "Bridgeman ", "Bristow ", "Brodnax ", "Brook ", "Browett ", "Browning ", "Buckingham ", "Burgess ", "Burgoyne ", "Burnell ", "Bushbury ", "Byfield ", "Campden ", "Carbonall ", "Carlyle ", "Castell ", "Cavell ", "Chamberlain ", "Chandler ", "Chase ", "Cheddar ", "Chester ", "Cheyne ", "Chilton ", "Church ", "Clavell ", "Clerk ", "Clitherow ", "Cobham ", "Cod ", "Coggshall ", "Colkins ", "Colt ", "Compton ", "Coorthopp ", "Corby ", "Cotton ", "Cowill ", "Cranford ", "Crickett ", "Cristemas ", "Cuddon ", "Curtis ", "Dale ", "Danett ", "Darley ", "Dauncey ", "Dawne ", "Dean ", "Delamere ", "Dennis ", "Derington ", "Dimmock ", "Doddle ", "Doreward ", "Dow ", "Draw ", "Dryland ", "Dunham ", "Dye ", "Edgcombe ", "Eggerley ", "Ellis ", "Engham ", "Epworth ", "Ertham ", "Eston ", "Everard ", "Eyer ", "Faldo ", "Fayneman ", "Fenton ", "Fienley ", "Fineux ", "Fitzgeoffrey ", "Fitzralph ", "Fleet ", "Flexney ", "Fogg ", "Follon ", "Fonteyn ", "Fortescue ", "Fox ", "Fraunces ", "Freville ", "Frilleck ", "Fromond ", "Frye ", "Furnace ", "Galey ", "Garnis ", "Gascoigne ", "Gedding ", "Gerard ", "Gibbs ", "Gill ", "Gittens ", "Gobberd ", "Gold ", "Gomershall ", "Good ", "Goodluck ", "Goodrington ", "Gorney ", "Grafton ", "Greenway ", "Grey ", "Grofhurst ", "Guildford ", "Haddon ", "Hale ", "Hambard ", "Hampden ", "Harbird ", "Hardy ", "Harlakinden ", "Harpeden ", "Harte ", "Hasard ", "Hautreeve ", "Hawtrey ", "Hayton ", "Herleston ", "Hervey ", "Heyworth ", "Hilderley ", "Hitchcock ", "Hodgson ", "Holland ", "Holton ", "Hornebolt ", "Horthall ", "Hotham ", "Hugeford ", "Hurst ", "Hyde ", "Jackmann ", "Janner ", "Jendring ", "Jordan ", "Jowchet ", "Kelly ", "Keriell ", "Kidwelly ", "Kinge ", "Knighton ", "Knoyll ", "la Barre ", "Lacy ", "Langston ", "Latton ", "Lawnder ", "Leeds ", "Leighlin ", "Lestrange ", "Leverer ", "Leynham ", "Lind ", "Litchfield ", "Litton ", "Lloyd ", "Lond ", "Longton ", "Lowth ", "Luke ", "Lyfeld ", "Malemayns ", "Maltoun ", "Mapilton ", "Marris ", "Mason ", "Mauntell ", "Mayne ", "Medeley ", "Merstun ", "Michelgrove ", "Millet ", "Milsent ", "Molyngton ", "Montagu ", "Morecott ", "Mortimer ", "Mowfurth ", "Muston ", "Neale ", "Norden ", "Northwood ", "Norwood ", "Nysell ", "Oken ", "Osborne ", "Outlawe ", "Pagg ", "Papley ", "Parris ", "Payne ", "Peckham ", "Peltie ", "Pennebrygg ", "Perrot ", "Petley ", "Peyton ", "Pinnock ", "Plessey ", "Pole ", "Porter ", "Powlett ", "Pray ", "Prowd ", "Quintin ", "Ramsey ", "Rawlin ", "Redman ", "Reynes ", "Rickworth ", "Risley ", "Robertson ", "Rochforth ", "Rondel ", "Rous ", "Rowlett ", "Rufford ", "Rusch ", "Sacheverell ", "Saintaubin ", "Salman ", "Sampson ", "Sandys ", "Savill ", "Scarcliff ", "Scott ", "Sedley ", "Sever ", "Sharman ", "Sheraton ", "Shern ", "Shingleton ", "Shoesmith ", "Sibbell ", "Simmons ", "Skipwith ", "Smith ", "Snelling ", "Spebbington ", "Spencer ", "Sprottle ", "Stanbury ", "Stanwix ", "Staverton ", "Steward ", "Stoddeley ", "Stokes ", "Stoner ", "Strader ", "Strelley ", "Sulyard ", "Sweetecok ", "Tabard ", "Tedcastle ", "Thorne ", "Throckmorton ", "Tilghman ", "Topsfield ", "Town ", "Trevett ", "Turner ", "Tyrell ", "Unton ", "Vaughan ", "Verney ", "Wade ", "Waldegrave ", "Walford ", "Walrond ", "Walton ", "Warde ", "Warren ", "Weeks ", "Wellins ", "West ", "Weston ", "White ", "Whowood ", "Wightman ", "Willcotts ", "Willmer ", "Windham ", "Winston ", "Wiseman ", "Wolstonton ", "Woodbrygg ", "Wotton ", "Wright ", "Wyghtham ", "Wyville ", "Yelverton "];
 export const halfOrcLastNames = [ "of the Black Bone Tribe ", "of the Black Claw Tribe ", "of the Black Slasher Tribe ", "of the Blood Moon Tribe ", "of the Blood Skull Tribe ", "of the Bloody Scar Tribe ", "of the Broken Bone Tribe ", "of the Darkstar Tribe ", "of the Ear Seekers Tribe ", "of the Flaming Spike Tribe ", "of the Garuk One Ears Tribe ", "of the Green Moss tribe Tribe ", "of the Greenhaven Tribe ", "of the Heart Takers Tribe ", "of the Horned Lord Tribe ", "of the Iceshield Tribe ", "of the Karuck Tribe ", "of the Many-Arrows Tribe ", "of the Nethertide Horde Tribe ", "of the Onusclan Tribe ", "of the Proudfist Tribe ", "of the Red Fangs Tribe ", "of the Ripped Gut Tribe ", "of the Seven Eye Tribe ", "of the Severed Fist Tribe ", "of the Skortchclaw Tribe ", "of the Spleen Eaters Tribe ", "of the Thousand Fists Tribe ", "of the Tornskulls Tribe "];
 export const tieflingLastNames = [ "Adler ", "Admon ", "Ahren ", "Aimery ", "Aksu ", "Alain ", "Alard ", "Alaric ", "Alwyn ", "Amarzian ", "Ambershard ", "Ambert ", "Anlow ", "Arkalis ", "Armanci ", "Baldric ", "Ballard ", "Barrelhelm ", "Baykal ", "Bedrich ", "Benak ", "Benvolio ", "Bilger ", "Biljon ", "Blackstrand ", "Brada ", "Bram ", "Brandis ", "Brightwater ", "Carnago ", "Carnavon ", "Caskajaro ", "Celik ", "Cerma ", "Chalthoum ", "Coldshore ", "Copperhearth ", "Coyle ", "Cresthill ", "Cuttlescar ", "Daargen ", "Dalicarlia ", "Dalkon ", "Danamark ", "Daylen ", "Dedric ", "Deepmiddens ", "Demir ", "Devries ", "Dian ", "Dirke ", "Domarien ", "Donoghan ", "Drakantal ", "Drumwind ", "Dungarth ", "Dyrk ", "Eandro ", "Eleftheriou ", "Erbil ", "Ereghast ", "Evermead ", "Falck ", "Falken ", "Fallenbridge ", "Faringray ", "Fletcher ", "Fryft ", "Gallus ", "Gandt ", "Garkalan ", "Girgis ", "Goldrudder ", "Gomec ", "Grantham ", "Graylock ", "Grimtor ", "Griswold ", "Gul ", "Gullscream ", "Hackshield ", "Hagar ", "Hamlin ", "Hartman ", "Hayward ", "Helmut ", "Hindergrass ", "Huba ", "Hyden ", "Iscalon ", "Iscitan ", "Janda ", "Jeras ", "Kaplan ", "Kaya ", "Kirca ", "Kreel ", "Kroft ", "Krynt ", "Lamoth ", "Lanik ", "Lavant ", "Leerstrom ", "Leyten ", "Lynchfield ", "Madian ", "Malfier ", "Mansur ", "Markolak ", "Massri ", "Meklan ", "Meluzan ", "Menetrian ", "Mikal ", "Milos ", "Moonridge ", "Mouggi ", "Mubarak ", "Muhtar ", "Namen ", "Navaren ", "Nerle ", "Netheridge ", "Nilus ", "Ningyan ", "Norris ", "Novak ", "Oakenheart ", "Oyal ", "Ozdemir ", "Paradas ", "Pekkan ", "Pieter ", "Polat ", "Pyncion ", "Quentin ", "Raeburn ", "Ramcrown ", "Ratley ", "Redraven ", "Regdar ", "Revenmar ", "Ritter ", "Rockharvest ", "Romazi ", "Roxley ", "Rybar ", "Sahin ", "Samm ", "Sarzan ", "Sawalha ", "Sedlak ", "Semil ", "Senturk ", "Seratolva ", "Serechor ", "Sevenson ", "Shadowhorn ", "Shattermast ", "Shaulfer ", "Shehata ", "Silvergraft ", "Silvertarn ", "Skandalor ", "Stavenger ", "Steveren ", "Stormchapel ", "Swiller ", "Szereban ", "Talandro ", "Talfen ", "Tamond ", "Taran ", "Targana ", "Tavon ", "Thom ", "Torzalan ", "Towerfall ", "Trelenus ", "Trevethor ", "Tryphon ", "Umbermoor ", "Vadu ", "Vanan ", "Varcona ", "Varzand ", "Vavrus ", "Voortham ", "Vrago ", "Vrye ", "Welfer ", "Wendell ", "Wilxes ", "Wintermere ", "Wolfram ", "Wygarthe ", "Yilmaz ", "Zarkanan ", "Zatchet ", "Zethergyll "];
+
+export const dragonbornFirstNames = {
+  male: [ "Arjhan ", "Balasar ", "Bharash ", "Donaar ", "Ghesh ", "Heskan ", "Kriv ", "Medrash ", "Mehen ", "Nadarr ", "Pandjed ", "Patrin ", "Rhogar ", "Shamash ", "Shedinn ", "Tarhun ", "Torinn ", "Vrakhir ", "Khorvash ", "Drazhar ", "Sarrakh ", "Zorvhan ", "Orlesh ", "Tazhrek " ],
+  female: [ "Akra ", "Biri ", "Daar ", "Farideh ", "Harann ", "Havilar ", "Jheri ", "Kava ", "Korinn ", "Mishann ", "Nala ", "Perra ", "Raiann ", "Sora ", "Surina ", "Thava ", "Uadjit ", "Vezhra ", "Ishvara ", "Kethra ", "Zhasha ", "Anavyr ", "Shirrak ", "Dhessa " ]
+};
+
+export const aasimarFirstNames = {
+  male: [ "Alaric ", "Amadeus ", "Castiel ", "Cyprian ", "Eliphas ", "Emrys ", "Galen ", "Ionas ", "Leoric ", "Lucan ", "Marius ", "Oriel ", "Paschal ", "Raziel ", "Seraphim ", "Soren ", "Tiberius ", "Uriah ", "Valerian ", "Zadkiel " ],
+  female: [ "Adina ", "Amaya ", "Aurelia ", "Caelia ", "Celestine ", "Elysia ", "Faye ", "Ione ", "Lumina ", "Marisol ", "Nerissa ", "Ophira ", "Rhea ", "Sariel ", "Seraphina ", "Solenne ", "Thalia ", "Vesna ", "Yael ", "Zerah " ]
+};
+
+export const tabaxiFirstNames = {
+  male: [ "Cloud ", "Timber ", "Jade ", "Hummingbird ", "Thunder ", "Snake ", "Mirror ", "Cloak ", "Ember ", "Reed ", "Shadow ", "Copper ", "Moss ", "Wind ", "Moth ", "River ", "Smoke ", "Flint " ],
+  female: [ "Rain ", "Willow ", "Whisker ", "Dawn ", "Pebble ", "Song ", "Velvet ", "Feather ", "Orchid ", "Thistle ", "Laughter ", "Starfall ", "Sand ", "Lantern ", "Petal ", "Mist ", "Saffron ", "Ripple " ]
+};
+
+export const kenkuFirstNames = {
+  male: [ "Smasher ", "Clanger ", "Rattle ", "Creak ", "Tick ", "Scratch ", "Snap ", "Slam ", "Whistle ", "Hammer ", "Splash ", "Crackle ", "Rustle ", "Thud ", "Clatter ", "Knock ", "Chop ", "Squeak " ],
+  female: [ "Chime ", "Whisper ", "Trill ", "Tinkle ", "Hiss ", "Flutter ", "Patter ", "Jingle ", "Murmur ", "Coo ", "Sizzle ", "Drip ", "Sigh ", "Rasp ", "Tap ", "Pluck ", "Shriek ", "Warble " ]
+};
+
+export const firbolgFirstNames = {
+  male: [ "Aelgar ", "Bramwyn ", "Cael ", "Dunmore ", "Eamon ", "Fennick ", "Gorran ", "Hollin ", "Iorwerth ", "Kellan ", "Lorcan ", "Maddoc ", "Oisin ", "Rowan ", "Tavish ", "Wendel " ],
+  female: [ "Aine ", "Briallen ", "Ciara ", "Derwyn ", "Eira ", "Fenna ", "Gwenllian ", "Hazel ", "Ilsa ", "Linnea ", "Moira ", "Nessa ", "Rhosyn ", "Sorcha ", "Tamsin ", "Wren " ]
+};
+
+export const dragonbornLastNames = [ "Clethtinthiallor ", "Daardendrian ", "Delmirev ", "Drachedandion ", "Fenkenkabradon ", "Kepeshkmolik ", "Kerrhylon ", "Kimbatuul ", "Linxakasendalor ", "Myastan ", "Nemmonis ", "Norixius ", "Ophinshtalajiir ", "Prexijandilin ", "Shestendeliath ", "Turnuroth ", "Verthisathurgiesh ", "Yarjerit " ];
+export const aasimarLastNames = [ "Brightwater ", "Dawnbringer ", "Goldhallow ", "Halloway ", "Lightfall ", "Morningstar ", "Silverdawn ", "Starling ", "Sunmantle ", "Valorheart ", "Whitlock ", "Ashgrace ", "Clearbrook ", "Emberlight ", "Highcrest ", "Lumen " ];
+export const tabaxiLastNames = [ "of the Bright Cliffs ", "of the Distant Rain ", "of the Mountain Tree ", "of the Rumbling Gorge ", "of the Snoring Mountains ", "of the Jade Canopy ", "of the Smoking Peaks ", "of the Long Grass ", "of the Singing Falls ", "of the Red Mesa " ];
+export const kenkuLastNames = [ "of the Ashen Flock ", "of the Black Roost ", "of the Broken Bell ", "of the Cinder Eaves ", "of the Gutter Wing ", "of the Iron Rookery ", "of the Low Chimneys ", "of the Quiet Gallows ", "of the Rain Gutters ", "of the Tin Steeple " ];
+export const firbolgLastNames = [ "of the Deepwood ", "of the Elder Grove ", "of the Fernhollow ", "of the Greenwood ", "of the Misty Vale ", "of the Mossbank ", "of the Oakheart ", "of the Stone Circle ", "of the Thornwood ", "of the Wildmere " ];
@@ -0,0 +1,357 @@
+// data/races.ts
+
+import * as npcData from './npcData';
+
+export type RaceSize = 'Small' | 'Medium';
+
+/**
+ * Everything the app knows about a race, in one place: how its people are named, their racial
+ * features in each game system, who they can have children with, how long they live and what
+ * they look like.
+ */
+export interface RaceDefinition {
+    name: string;
+    names: { first: { male: string[]; female: string[] }; last: string[] };
+    abilityBonuses: Partial<Record<'str' | 'dex' | 'con' | 'int' | 'wis' | 'cha', number>>;
+    size: RaceSize;
+    /** Walking speed in feet. */
+    speed: number;
+    languages: string[];
+    /** Skill proficiencies the race grants. */
+    skills: string[];
+    /** Racial traits as they read in a stat block, e.g. "The dwarf has advantage on...". */
+    traits: { name: string; description: string }[];
+    /** Range of 5e darkvision in feet, 0 for none. */
+    darkvision: number;
+    /** The special sight the race has in Pathfinder 2e, if any. */
+    pf2eVision: 'darkvision' | 'low-light vision' | null;
+    /** B/X demihuman abilities; empty for races that play as humans there. */
+    osrAbilities: { name: string; description: string }[];
+    /**
+     * The races a child can be when this race has children with another, keyed by the other parent's
+     * race. Each pairing is listed under one of its two races only.
+     */
+    offspring: Record<string, string[]>;
+    /** Who can have facial hair: men only, men and about half the women, or nobody. */
+    facialHair: 'male' | 'all' | 'none';
+    /** Years until adulthood, and how long the race usually lives; puts an age in years on the portrait prompt. */
+    lifespan: { adulthood: number; maximum: number };
+    /** What members of the race look like, given to the image model as portrait context. */
+    description: string;
+}
+
+/** The built-in races, in the order they are rolled from. */
+export const raceRegistry: RaceDefinition[] = [
+    {
+        name: "Human",
+        names: { first: npcData.humanFirstNames, last: npcData.humanLastNames },
+        abilityBonuses: { str: 1, dex: 1, con: 1, int: 1, wis: 1, cha: 1 },
+        size: 'Medium',
+        speed: 30,
+        languages: ["Common"],
+        skills: [],
+        traits: [],
+        darkvision: 0,
+        pf2eVision: null,
+        osrAbilities: [],
+        offspring: { 'Elf': ['Half-elf'], 'Half-elf': ['Half-elf', 'Human'], 'Half-orc': ['Half-orc', 'Human'], 'Tiefling': ['Tiefling', 'Human'], 'Aasimar': ['Aasimar', 'Human'] },
+        facialHair: 'male',
+        lifespan: { adulthood: 18, maximum: 90 },
+        description: "Humans are the most adaptable and ambitious people among the common races. They are diverse in appearance, with a wide variety of skin tones, hair colors, and builds.",
+    },
+    {
+        name: "Elf",
+        names: { first: npcData.elfFirstNames, last: npcData.elfLastNames },
+        abilityBonuses: { dex: 2 },
+        size: 'Medium',
+        speed: 30,
+        languages: ["Common", "Elvish"],
+        skills: ["Perception"],
+        traits: [
+            { name: "Fey Ancestry", description: "The elf has advantage on saving throws against being charmed, and magic can’t put it to sleep." },
+        ],
+        darkvision: 60,
+        pf2eVision: 'low-light vision',
+        osrAbilities: [
+            { name: 'Infravision', description: "Sees heat out to 60'." },
+            { name: 'Keen senses', description: 'Finds secret doors on 1–2 on 1d6; immune to ghoul paralysis.' },
+        ],
+        offspring: { 'Half-elf': ['Half-elf', 'Elf'], 'Tiefling': ['Tiefling', 'Elf'] },
+        facialHair: 'male',
+        lifespan: { adulthood: 100, maximum: 750 },
+        description: "Elves are a magical people of otherworldly grace. They are slender, with sharp, pointed ears and captivating, almond-shaped eyes. They are slightly shorter and less bulky than humans on average.",
+    },
+    {
+        name: "Dwarf",
+        names: { first: npcData.dwarfFirstNames, last: npcData.dwarfLastNames },
+        abilityBonuses: { con: 2 },
+        size: 'Medium',
+        speed: 25,
+        languages: ["Common", "Dwarvish"],
+        skills: [],
+        traits: [
+            { name: "Dwarven Resilience", description: "The dwarf has advantage on saving throws against poison." },
+        ],
+        darkvision: 60,
+        pf2eVision: 'darkvision',
+        osrAbilities: [
+            { name: 'Infravision', description: "Sees heat out to 60'." },
+            { name: 'Stonecraft', description: 'Spots traps, slanting passages and new construction on 1–2 on 1d6.' },
+        ],
+        offspring: {},
+        facialHair: 'all',
+        lifespan: { adulthood: 50, maximum: 350 },
+        description: "Dwarves are short and stout, known for their skill in warfare and smithing. They stand between 4 and 5 feet tall with broad, compact bodies. Male dwarves value their beards highly and groom them carefully.",
+    },
+    {
+        name: "Halfling",
+        names: { first: npcData.halflingFirstNames, last: npcData.halflingLastNames },
+        abilityBonuses: { dex: 2 },
+        size: 'Small',
+        speed: 25,
+        languages: ["Common", "Halfling"],
+        skills: [],
+        traits: [
+            { name: "Lucky", description: "When the halfling rolls a 1 on an attack roll, ability check, or saving throw, it can reroll the die and must use the new roll." },
+        ],
+        darkvision: 0,
+        pf2eVision: null,
+        osrAbilities: [
+            { name: 'Small', description: 'Gains −2 AC against larger-than-human attackers and +1 to hit with missiles.' },
+        ],
+        offspring: {},
+        facialHair: 'male',
+        lifespan: { adulthood: 20, maximum: 150 },
+        description: "Halflings are small, usually around 3 feet tall, and weigh between 40 and 45 pounds. They are nimble and dextrous, with round, cheerful faces and often curly hair.",
+    },
+    {
+        name: "Gnome",
+        names: { first: npcData.gnomeFirstNames, last: npcData.gnomeLastNames },
+        abilityBonuses: { int: 2 },
+        size: 'Small',
+        speed: 25,
+        languages: ["Common", "Gnomish"],
+        skills: [],
+        traits: [
+            { name: "Gnome Cunning", description: "The gnome has advantage on all Intelligence, Wisdom, and Charisma saving throws against magic." },
+        ],
+        darkvision: 60,
+        pf2eVision: 'low-light vision',
+        osrAbilities: [],
+        offspring: {},
+        facialHair: 'male',
+        lifespan: { adulthood: 40, maximum: 425 },
+        description: "Gnomes are small humanoids, slightly over 3 feet tall, known for their inventiveness and eccentric sense of humor. Their skin can be woody brown or ruddy tan, and their hair is often a vibrant natural color.",
+    },
+    {
+        name: "Goliath",
+        names: { first: npcData.goliathFirstNames, last: npcData.goliathLastNames },
+        abilityBonuses: { str: 2, con: 1 },
+        size: 'Medium',
+        speed: 30,
+        languages: ["Common"],
+        skills: ["Athletics"],
+        traits: [],
+        darkvision: 0,
+        pf2eVision: null,
+        osrAbilities: [],
+        offspring: {},
+        facialHair: 'male',
+        lifespan: { adulthood: 18, maximum: 90 },
+        description: "Goliaths are massive humanoids who dwell in the highest mountain peaks, standing between 7 and 8 feet tall with solid, muscular builds. Their skin is often a grayish color, mottled with dark patches.",
+    },
+    {
+        name: "Half-elf",
+        names: { first: npcData.halfElfFirstNames, last: npcData.halfElfLastNames },
+        abilityBonuses: { cha: 2, dex: 1, int: 1 },
+        size: 'Medium',
+        speed: 30,
+        languages: ["Common", "Elvish"],
+        skills: ["Perception"],
+        traits: [
+            { name: "Fey Ancestry", description: "The half-elf has advantage on saving throws against being charmed, and magic can’t put it to sleep." },
+        ],
+        darkvision: 60,
+        pf2eVision: 'low-light vision',
+        osrAbilities: [],
+        offspring: { 'Half-orc': ['Half-elf', 'Half-orc'], 'Tiefling': ['Tiefling', 'Half-elf'], 'Aasimar': ['Aasimar', 'Half-elf'] },
+        facialHair: 'male',
+        lifespan: { adulthood: 20, maximum: 180 },
+        description: "Half-elves combine the best qualities of their elf and human parents. They have a human-like build but often inherit the delicate, pointed ears and refined facial features of their elven ancestry.",
+    },
+    {
+        name: "Half-orc",
+        names: { first: npcData.halfOrcFirstNames, last: npcData.halfOrcLastNames },
+        abilityBonuses: { str: 2, con: 1 },
+        size: 'Medium',
+        speed: 30,
+        languages: ["Common", "Orc"],
+        skills: ["Intimidation"],
+        traits: [
+            { name: "Relentless Endurance", description: "When the half-orc is reduced to 0 hit points but not killed outright, it can drop to 1 hit point instead. It can’t use this feature again until it finishes a long rest." },
+        ],
+        darkvision: 60,
+        pf2eVision: 'low-light vision',
+        osrAbilities: [],
+        offspring: { 'Tiefling': ['Tiefling', 'Half-orc'] },
+        facialHair: 'male',
+        lifespan: { adulthood: 14, maximum: 75 },
+        description: "Half-orcs have grayish pigmentation, sloping foreheads, jutting jaws, and prominent teeth that make their orcish heritage plain. They are taller and bulkier than humans, possessing formidable strength.",
+    },
+    {
+        name: "Tiefling",
+        names: { first: npcData.tieflingFirstNames, last: npcData.tieflingLastNames },
+        abilityBonuses: { cha: 2, int: 1 },
+        size: 'Medium',
+        speed: 30,
+        languages: ["Common", "Infernal"],
+        skills: [],
+        traits: [
+            { name: "Hellish Resistance", description: "The tiefling has resistance to fire damage." },
+        ],
+        darkvision: 60,
+        pf2eVision: 'darkvision',
+        osrAbilities: [],
+        offspring: {},
+        facialHair: 'male',
+        lifespan: { adulthood: 18, maximum: 100 },
+        description: "Tieflings are derived from human bloodlines but carry an infernal taint. They have large horns of various shapes, thick tails, sharply pointed teeth, and their eyes are solid colors with no visible sclera or pupil.",
+    },
+    {
+        name: "Dragonborn",
+        names: { first: npcData.dragonbornFirstNames, last: npcData.dragonbornLastNames },
+        abilityBonuses: { str: 2, cha: 1 },
+        size: 'Medium',
+        speed: 30,
+        languages: ["Common", "Draconic"],
+        skills: [],
+        traits: [
+            { name: "Breath Weapon", description: "The dragonborn exhales destructive energy in a 15-foot cone. Each creature in the area must make a Dexterity saving throw (DC 8 + the dragonborn’s Constitution modifier + its proficiency bonus), taking 7 (2d6) damage of its draconic ancestry’s type on a failed save, or half as much on a successful one. It can’t use this feature again until it finishes a short or long rest." },
+            { name: "Draconic Resistance", description: "The dragonborn has resistance to the damage type of its draconic ancestry." },
+        ],
+        darkvision: 0,
+        pf2eVision: null,
+        osrAbilities: [
+            { name: 'Breath weapon', description: "Once a day, breathes a 15' cone of energy for 2d6 damage (save vs. breath for half)." },
+        ],
+        offspring: {},
+        facialHair: 'none',
+        lifespan: { adulthood: 15, maximum: 80 },
+        description: "Dragonborn look very much like dragons standing erect in humanoid form, though they lack wings or a tail. They stand well over 6 feet tall and are heavily built, covered in small, fine scales that are usually scarlet, gold, rust, ochre, bronze or brass, with larger scales on their broad faces. Their heads are reptilian, with a snout, a frill of horns or spines, and clawed three-fingered hands.",
+    },
+    {
+        name: "Aasimar",
+        names: { first: npcData.aasimarFirstNames, last: npcData.aasimarLastNames },
+        abilityBonuses: { cha: 2, wis: 1 },
+        size: 'Medium',
+        speed: 30,
+        languages: ["Common", "Celestial"],
+        skills: [],
+        traits: [
+            { name: "Celestial Resistance", description: "The aasimar has resistance to necrotic and radiant damage." },
+            { name: "Healing Hands", description: "As an action, the aasimar touches a creature and restores hit points equal to its number of Hit Dice. It can’t use this feature again until it finishes a long rest." },
+        ],
+        darkvision: 60,
+        pf2eVision: 'low-light vision',
+        osrAbilities: [
+            { name: 'Infravision', description: "Sees heat out to 60'." },
+            { name: 'Healing hands', description: 'Once a day, heals 1d6 hit points by touch.' },
+        ],
+        offspring: {},
+        facialHair: 'male',
+        lifespan: { adulthood: 18, maximum: 160 },
+        description: "Aasimar are mortals with a spark of the celestial in their blood. They look human, but with subtle signs of their heritage: luminous eyes with no visible pupils, metallic silver or golden hair, skin with an opalescent sheen or faint freckles of light, and a serene, otherworldly bearing.",
+    },
+    {
+        name: "Tabaxi",
+        names: { first: npcData.tabaxiFirstNames, last: npcData.tabaxiLastNames },
+        abilityBonuses: { dex: 2, cha: 1 },
+        size: 'Medium',
+        speed: 30,
+        languages: ["Common"],
+        skills: ["Perception", "Stealth"],
+        traits: [
+            { name: "Cat’s Claws", description: "The tabaxi has a climbing speed of 20 feet, and its claws deal 1d4 + its Strength modifier slashing damage on an unarmed strike." },
+            { name: "Feline Agility", description: "When the tabaxi moves on its turn in combat, it can double its speed until the end of the turn. It can’t do so again until it has moved 0 feet on one of its turns." },
+        ],
+        darkvision: 60,
+        pf2eVision: 'low-light vision',
+        osrAbilities: [
+            { name: 'Infravision', description: "Sees heat out to 60'." },
+            { name: 'Climb', description: 'Climbs trees and rough walls at half speed without a check.' },
+        ],
+        offspring: {},
+        facialHair: 'none',
+        lifespan: { adulthood: 18, maximum: 90 },
+        description: "Tabaxi are tall, lithe, cat-like humanoids with the features of jaguars, leopards and other great cats. Their fur is spotted, striped or solid in shades from tawny to black, their eyes are slit-pupiled and bright, and they have long tails, pointed ears, whiskers and retractable claws.",
+    },
+    {
+        name: "Kenku",
+        names: { first: npcData.kenkuFirstNames, last: npcData.kenkuLastNames },
+        abilityBonuses: { dex: 2, wis: 1 },
+        size: 'Medium',
+        speed: 30,
+        languages: ["Common", "Auran"],
+        skills: ["Deception", "Stealth"],
+        traits: [
+            { name: "Expert Forgery", description: "The kenku has advantage on checks made to produce forgeries or duplicates of existing objects." },
+            { name: "Mimicry", description: "The kenku can mimic sounds it has heard, including voices. A creature that hears the sounds can tell they are imitations with a successful DC 14 Wisdom (Insight) check." },
+        ],
+        darkvision: 0,
+        pf2eVision: 'low-light vision',
+        osrAbilities: [
+            { name: 'Mimicry', description: 'Imitates any voice or sound it has heard.' },
+        ],
+        offspring: {},
+        facialHair: 'none',
+        lifespan: { adulthood: 12, maximum: 60 },
+        description: "Kenku are flightless, crow-like humanoids about 5 feet tall, covered in black or dusky brown feathers. They have large dark eyes, sharp black beaks and bird-like clawed feet, and they hunch beneath tattered cloaks, moving in quick, twitchy bursts.",
+    },
+    {
+        name: "Firbolg",
+        names: { first: npcData.firbolgFirstNames, last: npcData.firbolgLastNames },
+        abilityBonuses: { wis: 2, str: 1 },
+        size: 'Medium',
+        speed: 30,
+        languages: ["Common", "Elvish", "Giant"],
+        skills: [],
+        traits: [
+            { name: "Firbolg Magic", description: "The firbolg can cast detect magic and disguise self once each without material components, regaining the use of both after a short or long rest." },
+            { name: "Hidden Step", description: "As a bonus action, the firbolg can magically turn invisible until the start of its next turn or until it attacks, makes a damage roll, or forces a saving throw. It can use this once per short or long rest." },
+            { name: "Speech of Beast and Leaf", description: "The firbolg can communicate in a limited manner with beasts and plants. It has advantage on Charisma checks made to influence them." },
+        ],
+        darkvision: 0,
+        pf2eVision: null,
+        osrAbilities: [
+            { name: 'Hidden step', description: 'Once a day, turns invisible until the end of the next round or until it attacks.' },
+        ],
+        offspring: {},
+        facialHair: 'male',
+        lifespan: { adulthood: 30, maximum: 500 },
+        description: "Firbolgs are gentle forest giants standing between 7 and 8 feet tall and weighing up to 300 pounds. They have bovine noses, large drooping ears, and skin in tones of grey, blue or pink, often with freckles, and their thick hair and beards are braided with leaves, moss and wooden beads.",
+    },
+];
+
+export const getRaceDefinition = (name: string): RaceDefinition | null =>
+    raceRegistry.find(race => race.name === name) ?? null;
+
+// Where each built-in age band falls in a life: a share of the years to adulthood, then a share of
+// the adult years after it. "ederly" is spelled as in the ages table.
+const ageBandPoints: Record<string, [number, number]> = {
+    'teenage': [0.8, 0],
+    'young': [1, 0],
+    'young adult': [1, 0.05],
+    'adult': [1, 0.2],
+    'middle-aged': [1, 0.45],
+    'mature': [1, 0.65],
+    'ederly': [1, 0.85],
+};
+
+/** A typical age in years for a race and age band, or null for an unknown race or band. */
+export const estimateAgeInYears = (race: string, ageBand: string): number | null => {
+    const definition = getRaceDefinition(race);
+    const point = ageBandPoints[ageBand];
+    if (!definition || !point) return null;
+    const { adulthood, maximum } = definition.lifespan;
+    return Math.round(adulthood * point[0] + (maximum - adulthood) * point[1]);
+};
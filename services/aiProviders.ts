@@ -0,0 +1,188 @@
+// services/aiProviders.ts
+
+import { GoogleGenAI, Modality } from "@google/genai";
+
+export type AiProviderId = 'gemini' | 'openai-compatible';
+
+export interface TextGenerationRequest {
+  model: string;
+  systemInstruction: string;
+  prompt: string;
+  /** When set, the provider is asked to answer with JSON matching this schema. */
+  responseSchema?: object;
+}
+
+export interface ImageGenerationRequest {
+  model: string;
+  prompt: string;
+}
+
+/**
+ * A backend that can write text and paint portraits. Images are returned as base64-encoded PNG data,
+ * which is what NpcCard expects in `imageUrl`.
+ */
+export interface AiProvider {
+  id: AiProviderId;
+  generateText(request: TextGenerationRequest): Promise<string>;
+  generateImage(request: ImageGenerationRequest): Promise<string>;
+}
+
+export interface AiSettings {
+  provider: AiProviderId;
+  textModel: string;
+  imageModel: string;
+  /** Base URL of the OpenAI-compatible server, e.g. http://localhost:11434/v1. Unused by Gemini. */
+  baseUrl: string;
+  /** Optional API key. For Gemini this overrides the GEMINI_API_KEY build variable. */
+  apiKey: string;
+}
+
+export const providerLabels: Record<AiProviderId, string> = {
+  'gemini': 'Google Gemini',
+  'openai-compatible': 'OpenAI-compatible (local server)',
+};
+
+export const defaultModels: Record<AiProviderId, { textModel: string; imageModel: string }> = {
+  'gemini': { textModel: 'gemini-2.5-pro', imageModel: 'gemini-2.5-flash-image' },
+  'openai-compatible': { textModel: 'llama3.1', imageModel: '' },
+};
+
+export const defaultAiSettings: AiSettings = {
+  provider: 'gemini',
+  ...defaultModels.gemini,
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+};
+
+const SETTINGS_STORAGE_KEY = 'npc-dna.ai-settings';
+
+export const loadAiSettings = (): AiSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return stored ? { ...defaultAiSettings, ...JSON.parse(stored) } : defaultAiSettings;
+  } catch (error) {
+    console.warn("Could not read saved AI settings, using defaults.", error);
+    return defaultAiSettings;
+  }
+};
+
+export const saveAiSettings = (settings: AiSettings): void => {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("Could not save AI settings.", error);
+  }
+};
+
+export const createGeminiProvider = (apiKey: string): AiProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    id: 'gemini',
+    generateText: async ({ model, systemInstruction, prompt, responseSchema }) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          systemInstruction,
+          ...(responseSchema ? { responseMimeType: 'application/json', responseJsonSchema: responseSchema } : {}),
+        },
+      });
+      return response.text ?? '';
+    },
+    generateImage: async ({ model, prompt }) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: {
+          parts: [{ text: prompt }],
+        },
+        config: {
+          responseModalities: [Modality.IMAGE],
+        },
+      });
+
+      const parts = response.candidates?.[0]?.content?.parts ?? [];
+      for (const part of parts) {
+        if (part.inlineData?.data) {
+          return part.inlineData.data;
+        }
+      }
+      throw new Error("The AI service did not return an image. Please try generating again.");
+    },
+  };
+};
+
+/**
+ * Talks to any server implementing the OpenAI chat completions and image generation endpoints,
+ * such as Ollama, LM Studio, llama.cpp server or LocalAI.
+ */
+export const createOpenAiCompatibleProvider = (baseUrl: string, apiKey?: string): AiProvider => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const post = async <T,>(path: string, body: unknown): Promise<T> => {
+    const response = await fetch(`${root}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(`${root}${path} responded with ${response.status} ${response.statusText}`);
+    }
+    return response.json() as Promise<T>;
+  };
+
+  return {
+    id: 'openai-compatible',
+    generateText: async ({ model, systemInstruction, prompt, responseSchema }) => {
+      const data = await post<{ choices?: { message?: { content?: string } }[] }>('/chat/completions', {
+        model,
+        messages: [
+          { role: 'system', content: systemInstruction },
+          { role: 'user', content: prompt },
+        ],
+        ...(responseSchema ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: responseSchema } } } : {}),
+      });
+      const text = data.choices?.[0]?.message?.content;
+      if (!text) {
+        throw new Error("The AI server returned an empty response.");
+      }
+      return text;
+    },
+    generateImage: async ({ model, prompt }) => {
+      if (!model) {
+        throw new Error("No image model is configured for this provider.");
+      }
+      const data = await post<{ data?: { b64_json?: string }[] }>('/images/generations', {
+        model,
+        prompt,
+        n: 1,
+        response_format: 'b64_json',
+      });
+      const image = data.data?.[0]?.b64_json;
+      if (!image) {
+        throw new Error("The AI service did not return an image. Please try generating again.");
+      }
+      return image;
+    },
+  };
+};
+
+/**
+ * Builds the provider described by the settings, or returns null when it cannot be used
+ * (for example Gemini without an API key).
+ */
+export const createAiProvider = (settings: AiSettings, fallbackApiKey?: string): AiProvider | null => {
+  switch (settings.provider) {
+    case 'gemini': {
+      const apiKey = settings.apiKey || fallbackApiKey;
+      return apiKey ? createGeminiProvider(apiKey) : null;
+    }
+    case 'openai-compatible':
+      return settings.baseUrl ? createOpenAiCompatibleProvider(settings.baseUrl, settings.apiKey) : null;
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,159 @@
+// services/combatTactics.ts
+
+import type { DecodedDna } from './dnaDecoder';
+
+/** One line of the tactics block and the traits it was read from. */
+export interface TacticsEntry {
+    text: string;
+    /** e.g. ["Cowardly (intensity 4)", "Merciful 8/9"]; empty when no trait stood out. */
+    basis: string[];
+}
+
+export interface CombatTactics {
+    /** Hit points at or below which the NPC tries to get away; 0 when it fights to the death. */
+    fleeAt: number;
+    /** The same threshold as a share of its hit points, in steps of 5. */
+    fleePercent: number;
+    opening: TacticsEntry;
+    preferredTargets: TacticsEntry;
+    allyFalls: TacticsEntry;
+    flee: TacticsEntry;
+    surrender: TacticsEntry;
+}
+
+// How strongly a paired trait leans to one side: its intensity if the NPC has it, minus its
+// intensity if the NPC has the opposite, 0 without DNA.
+const lean = (decoded: DecodedDna | null, name: string): number => {
+    const trait = decoded?.pairedTraits.find(t => t.pair.split(' / ').includes(name));
+    if (!trait) return 0;
+    return trait.name === name ? trait.intensity : -trait.intensity;
+};
+
+// An unpaired trait's score, 5 (middling) without DNA.
+const virtue = (decoded: DecodedDna | null, name: string): number =>
+    decoded?.unpairedTraits.find(t => t.name === name)?.score ?? 5;
+
+const pairedBasis = (decoded: DecodedDna | null, name: string) => {
+    const value = lean(decoded, name);
+    return value > 0 ? `${name} (intensity ${value})` : null;
+};
+
+const virtueBasis = (decoded: DecodedDna | null, name: string) => `${name} ${virtue(decoded, name)}/9`;
+
+const entry = (text: string, ...basis: (string | null)[]): TacticsEntry => ({ text, basis: basis.filter((b): b is string => b !== null) });
+
+const addNote = (target: TacticsEntry, text: string, basis: string) => {
+    target.text += ` ${text}`;
+    if (!target.basis.includes(basis)) target.basis.push(basis);
+};
+
+// Base share of hit points lost before a typical NPC breaks off, as in the usual morale rule of thumb.
+const BASE_FLEE_PERCENT = 25;
+
+/**
+ * Works out how an NPC behaves in a fight from its personality DNA: when it runs, when it gives
+ * up, whom it goes after and what it does when an ally drops. Without DNA every line describes a
+ * middling NPC.
+ */
+export const deriveCombatTactics = (decoded: DecodedDna | null, hitPointMaximum: number): CombatTactics => {
+    const courage = lean(decoded, 'Brave');
+    const recklessness = lean(decoded, 'Reckless');
+    const temper = lean(decoded, 'Hot-headed');
+    const drive = lean(decoded, 'Driven');
+    const pride = lean(decoded, 'Authoritative');
+    const diplomacy = lean(decoded, 'Diplomatic');
+    const mercy = virtue(decoded, 'Merciful');
+    const loyalty = virtue(decoded, 'Loyal');
+    const compassion = virtue(decoded, 'Compassionate');
+
+    // Courage weighs most; recklessness and drive keep an NPC in the fight a little longer.
+    const percent = Math.min(75, Math.max(0,
+        BASE_FLEE_PERCENT - (courage > 0 ? courage * 5 : courage * 10) - recklessness * 3 - drive * 2,
+    ));
+    const fleePercent = Math.round(percent / 5) * 5;
+    const fleeAt = fleePercent === 0 ? 0 : Math.max(1, Math.ceil(hitPointMaximum * fleePercent / 100));
+    const fleeBasis = [pairedBasis(decoded, 'Brave'), pairedBasis(decoded, 'Cowardly'), pairedBasis(decoded, 'Reckless'), pairedBasis(decoded, 'Cautious'), pairedBasis(decoded, 'Driven')];
+
+    let flee: TacticsEntry;
+    if (fleeAt === 0) {
+        flee = entry('Fights to the death and never breaks off.', ...fleeBasis);
+    } else if (loyalty >= 7) {
+        flee = entry(`Tries to withdraw at ${fleeAt} HP or less (${fleePercent}%), but not while an ally still stands and needs them.`, ...fleeBasis, virtueBasis(decoded, 'Loyal'));
+    } else if (courage <= -3) {
+        flee = entry(`Runs at ${fleeAt} HP or less (${fleePercent}%), or as soon as the fight turns against their side, dropping whatever slows them down.`, ...fleeBasis);
+    } else {
+        flee = entry(`Tries to withdraw at ${fleeAt} HP or less (${fleePercent}%).`, ...fleeBasis);
+    }
+
+    let surrender: TacticsEntry;
+    if (fleeAt === 0) {
+        surrender = entry('Never surrenders; has to be beaten senseless or killed.', ...fleeBasis);
+    } else if (pride >= 3 && courage > 0) {
+        surrender = entry('Will not yield to anyone they see as beneath them; may accept terms from a leader who has beaten them fairly.', pairedBasis(decoded, 'Authoritative'), pairedBasis(decoded, 'Brave'));
+    } else if (pride <= -3 || courage <= -3) {
+        surrender = entry('Surrenders readily once outnumbered or hurt, and offers what they know in exchange for their life.', pairedBasis(decoded, 'Submissive'), pairedBasis(decoded, 'Cowardly'));
+    } else if (mercy >= 7) {
+        surrender = entry('Yields when the fight is plainly lost, trusting the victors to show the mercy they would show.', virtueBasis(decoded, 'Merciful'));
+    } else if (mercy <= 3) {
+        surrender = entry('Expects no mercy, so gives none: would rather run or fight on than surrender.', virtueBasis(decoded, 'Merciful'));
+    } else {
+        surrender = entry('Surrenders if cornered below their flee threshold with no way out.');
+    }
+    if (mercy >= 7) {
+        addNote(surrender, "Always accepts an enemy's surrender.", virtueBasis(decoded, 'Merciful'));
+    } else if (mercy <= 3) {
+        addNote(surrender, 'Cuts down enemies who try to yield.', virtueBasis(decoded, 'Merciful'));
+    }
+
+    let preferredTargets: TacticsEntry;
+    if (temper >= 3) {
+        preferredTargets = entry('Whoever last hurt or insulted them, even if a better target is open.', pairedBasis(decoded, 'Hot-headed'));
+    } else if (courage <= -3) {
+        preferredTargets = entry('Whoever is least able to hit back: the distracted, the lightly armored, those already busy with someone else.', pairedBasis(decoded, 'Cowardly'));
+    } else if (recklessness >= 3) {
+        preferredTargets = entry('The biggest threat on the field, charged head-on.', pairedBasis(decoded, 'Reckless'));
+    } else if (recklessness <= -3 || temper <= -3) {
+        preferredTargets = entry('Spellcasters and archers first, then whoever is isolated.', pairedBasis(decoded, 'Cautious'), pairedBasis(decoded, 'Calm'));
+    } else if (lean(decoded, 'Competitive') >= 3) {
+        preferredTargets = entry('The strongest-looking opponent, to prove a point.', pairedBasis(decoded, 'Competitive'));
+    } else {
+        preferredTargets = entry('The nearest enemy.');
+    }
+    if (compassion >= 7) {
+        addNote(preferredTargets, 'Leaves the helpless and the fallen alone.', virtueBasis(decoded, 'Compassionate'));
+    } else if (mercy <= 3 && decoded?.alignment.gne === 'Evil') {
+        addNote(preferredTargets, 'Finishes off anyone who goes down.', virtueBasis(decoded, 'Merciful'));
+    }
+
+    let allyFalls: TacticsEntry;
+    if (temper >= 3) {
+        allyFalls = entry('Flies into a rage and turns on whoever struck the blow, ignoring everything else.', pairedBasis(decoded, 'Hot-headed'));
+    } else if (loyalty >= 7) {
+        allyFalls = entry('Moves to stand over the fallen ally and drag them clear as soon as it is safe.', virtueBasis(decoded, 'Loyal'));
+    } else if (courage <= -3) {
+        allyFalls = entry('Loses heart: flees at once unless they succeed on a DC 10 Wisdom saving throw.', pairedBasis(decoded, 'Cowardly'));
+    } else if (compassion >= 7) {
+        allyFalls = entry('Tries to stabilize the fallen ally if they can do so without being cut down.', virtueBasis(decoded, 'Compassionate'));
+    } else if (temper <= -3 || lean(decoded, 'Stoic') >= 3) {
+        allyFalls = entry('Closes ranks and fights on without missing a beat.', pairedBasis(decoded, 'Calm'), pairedBasis(decoded, 'Stoic'));
+    } else if (loyalty <= 3) {
+        allyFalls = entry('Steps over them; one less share of the spoils.', virtueBasis(decoded, 'Loyal'));
+    } else {
+        allyFalls = entry('Hesitates for a moment, then fights on.');
+    }
+
+    let opening: TacticsEntry;
+    if (diplomacy >= 3) {
+        opening = entry('Tries to talk first and only draws steel once talking has failed.', pairedBasis(decoded, 'Diplomatic'));
+    } else if (diplomacy <= -3 && recklessness >= 0) {
+        opening = entry('Starts the fight themselves, with the first blow if they can manage it.', pairedBasis(decoded, 'Confrontational'));
+    } else if (recklessness >= 3) {
+        opening = entry('Charges in without waiting for allies or a plan.', pairedBasis(decoded, 'Reckless'));
+    } else if (recklessness <= -3 || lean(decoded, 'Methodical') >= 3) {
+        opening = entry('Hangs back to size up the enemy, using cover and range until the odds are clear.', pairedBasis(decoded, 'Cautious'), pairedBasis(decoded, 'Methodical'));
+    } else {
+        opening = entry('Joins the fight alongside their allies.');
+    }
+
+    return { fleeAt, fleePercent, opening, preferredTargets, allyFalls, flee, surrender };
+};
@@ -0,0 +1,129 @@
+// services/compatibility.ts
+
+import { decodeDna, type DecodedDna } from './dnaDecoder';
+
+export interface CompatibilityPoint {
+    /** Positive for rapport, negative for friction. */
+    weight: number;
+    description: string;
+}
+
+export interface CompatibilityReport {
+    /** 0 (sworn enemies) to 100 (natural allies); 50 is indifferent. */
+    score: number;
+    verdict: string;
+    /** Sum of the LNC and GNE score differences, 0 to 16. */
+    alignmentDistance: number;
+    complements: CompatibilityPoint[];
+    frictionPoints: CompatibilityPoint[];
+}
+
+// Opposite sides of a pair that rub each other the wrong way.
+const clashingOpposites = new Set([
+    'Competitive / Harmonious', 'Tactful / Blunt', 'Calm / Hot-headed', 'Patient / Impatient',
+    'Methodical / Impulsive', 'Organized / Chaotic', 'Serious / Playful', 'Optimistic / Pessimistic',
+    'Perfectionist / Laid-Back', 'Reckless / Cautious', 'Diplomatic / Confrontational', 'Suspicious / Trusting',
+    'Driven / Apathetic', 'Adventurous / Hesitant',
+]);
+
+// Opposite sides of a pair that fill each other's gaps.
+const complementaryOpposites = new Set([
+    'Authoritative / Submissive', 'Reserved / Outspoken', 'Introverted / Extroverted', 'Stoic / Expressive',
+    'Confident / Insecure', 'Brave / Cowardly',
+]);
+
+// Traits that cause trouble when both NPCs have them, rather than common ground.
+const clashingWhenShared: Record<string, string> = {
+    'Competitive': 'both need to win',
+    'Authoritative': 'both expect to be in charge',
+    'Hot-headed': 'both lose their temper',
+    'Confrontational': 'both pick fights',
+    'Blunt': 'both say the hurtful thing first',
+    'Suspicious': 'neither will trust the other first',
+    'Impatient': 'both push and neither waits',
+};
+
+// Intensity 1-5 on both sides scales a paired trait's effect from 0.2 to 1.
+const intensityFactor = (a: number, b: number) => (a + b) / 10;
+
+const STRONG_VIRTUE = 7;
+const VIRTUE_GAP = 6;
+
+const verdictFor = (score: number): string => {
+    if (score >= 75) return 'Natural allies';
+    if (score >= 55) return 'Cordial';
+    if (score >= 40) return 'Uneasy';
+    if (score >= 25) return 'Prone to friction';
+    return 'Likely to feud';
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Compares two decoded DNAs trait by trait. Purely rule-based, so the same two NPCs always get
+ * the same report.
+ */
+export const compareDecodedDna = (a: DecodedDna, b: DecodedDna, nameA = 'A', nameB = 'B'): CompatibilityReport => {
+    const points: CompatibilityPoint[] = [];
+
+    a.pairedTraits.forEach((traitA, i) => {
+        const traitB = b.pairedTraits[i];
+        const factor = intensityFactor(traitA.intensity, traitB.intensity);
+        if (traitA.name !== traitB.name) {
+            if (clashingOpposites.has(traitA.pair)) {
+                points.push({ weight: round(-3 * factor), description: `${nameA} is ${traitA.name} and ${nameB} is ${traitB.name}.` });
+            } else if (complementaryOpposites.has(traitA.pair)) {
+                points.push({ weight: round(3 * factor), description: `${nameA}'s ${traitA.name.toLowerCase()} streak balances ${nameB}'s ${traitB.name.toLowerCase()} one.` });
+            }
+        } else if (clashingWhenShared[traitA.name]) {
+            points.push({ weight: round(-3 * factor), description: `Both are ${traitA.name}: ${clashingWhenShared[traitA.name]}.` });
+        } else if (factor >= 0.6) {
+            points.push({ weight: round(3 * factor), description: `Both are strongly ${traitA.name}.` });
+        }
+    });
+
+    a.unpairedTraits.forEach(virtueA => {
+        const virtueB = b.unpairedTraits.find(t => t.name === virtueA.name);
+        if (!virtueB) return;
+        if (virtueA.score >= STRONG_VIRTUE && virtueB.score >= STRONG_VIRTUE) {
+            points.push({ weight: 2, description: `Both hold ${virtueA.name} as a core value.` });
+        } else if (Math.abs(virtueA.score - virtueB.score) >= VIRTUE_GAP) {
+            const [high, low] = virtueA.score > virtueB.score ? [nameA, nameB] : [nameB, nameA];
+            points.push({ weight: -2, description: `${high} values being ${virtueA.name}; ${low} has little use for it.` });
+        }
+    });
+
+    const lncDistance = Math.abs(a.alignment.lncScore - b.alignment.lncScore);
+    const gneDistance = Math.abs(a.alignment.gneScore - b.alignment.gneScore);
+    const alignmentDistance = lncDistance + gneDistance;
+    if (a.alignment.gne !== b.alignment.gne && (a.alignment.gne === 'Evil' || b.alignment.gne === 'Evil')) {
+        points.push({ weight: -8, description: `Their morals are far apart (${a.alignment.gne} vs ${b.alignment.gne}).` });
+    }
+    if (a.alignment.lnc !== b.alignment.lnc && lncDistance >= 4) {
+        points.push({ weight: -4, description: `They disagree on rules and order (${a.alignment.lnc} vs ${b.alignment.lnc}).` });
+    }
+
+    const score = Math.round(Math.min(100, Math.max(0,
+        50 + points.reduce((sum, point) => sum + point.weight, 0) - alignmentDistance,
+    )));
+
+    return {
+        score,
+        verdict: verdictFor(score),
+        alignmentDistance,
+        complements: points.filter(p => p.weight > 0).sort((x, y) => y.weight - x.weight),
+        frictionPoints: points.filter(p => p.weight < 0).sort((x, y) => x.weight - y.weight),
+    };
+};
+
+/**
+ * Compatibility report for two DNA codes. Throws if either code does not decode.
+ */
+export const compareDna = (dnaA: string, dnaB: string, nameA = 'A', nameB = 'B'): CompatibilityReport => {
+    const a = decodeDna(dnaA);
+    const b = decodeDna(dnaB);
+    if (!a || !b) {
+        throw new Error(`The DNA of ${!a ? nameA : nameB} could not be decoded.`);
+    }
+    return compareDecodedDna(a, b, nameA, nameB);
+};
@@ -0,0 +1,378 @@
+// services/dataPacks.ts
+
+import * as npcData from '../data/npcData';
+import { getRaceDefinition, raceRegistry } from '../data/races';
+
+/** The lists a data pack can change. Races come from the race registry, the rest are npcData exports. */
+export const listTableNames = [
+    'genders', 'races', 'ages', 'intelligences', 'hairStyles', 'hairColors', 'facialHairStyles', 'heights', 'weights',
+    'eyeShapes', 'eyeColors', 'complexions', 'descriptors', 'professions', 'demeanors', 'wantsOrNeeds', 'secretOrObstacles',
+    'items',
+] as const;
+
+export type ListTableName = typeof listTableNames[number];
+
+export interface RaceNames {
+    /** First names by gender, e.g. `{ male: [...], female: [...] }`. */
+    first: Record<string, string[]>;
+    last: string[];
+}
+
+/** Every table the generator rolls from, after the enabled data packs have been applied. */
+export type NpcTables = Record<ListTableName, string[]> & {
+    raceDescriptions: Record<string, string>;
+    names: Record<string, RaceNames>;
+};
+
+/**
+ * Changes to one list. `add` appends, `remove` drops entries by their label, and `replace` swaps
+ * the whole list before the other two apply. A bare array is short for `{ add: [...] }`.
+ */
+export type ListPatch = string[] | { add?: string[]; remove?: string[]; replace?: string[] };
+
+/** Changes to a keyed table. `add` adds new keys and overrides existing ones. */
+export interface RecordPatch {
+    add?: Record<string, string>;
+    remove?: string[];
+    replace?: Record<string, string>;
+}
+
+export interface RaceNamesPatch {
+    first?: Record<string, ListPatch>;
+    last?: ListPatch;
+}
+
+export const DATA_PACK_FORMAT = 'npc-dna.datapack';
+export const DATA_PACK_VERSION = 1;
+
+/**
+ * A homebrew `.json` data pack. Packs are applied in order on top of the built-in tables, so a
+ * later pack sees, and can undo, what an earlier one changed.
+ */
+export interface DataPack {
+    format: typeof DATA_PACK_FORMAT;
+    version: number;
+    /** Loading a pack with the same id again replaces the old copy. */
+    id: string;
+    name: string;
+    description?: string;
+    tables?: Partial<Record<ListTableName, ListPatch>>;
+    raceDescriptions?: RecordPatch;
+    /** Name lists by race. A race the built-in tables do not know gets new lists. */
+    names?: Record<string, RaceNamesPatch>;
+}
+
+export interface DataPackEntry {
+    pack: DataPack;
+    enabled: boolean;
+}
+
+export const baseTables: NpcTables = {
+    ...Object.fromEntries(listTableNames.filter(name => name !== 'races').map(name => [name, npcData[name]])) as Record<ListTableName, string[]>,
+    races: raceRegistry.map(race => race.name),
+    raceDescriptions: Object.fromEntries(raceRegistry.map(race => [race.name, race.description])),
+    names: Object.fromEntries(raceRegistry.map(race => [race.name, { first: { ...race.names.first }, last: race.names.last }])),
+};
+
+/**
+ * The display form of a table value, without the article prefix or padding.
+ */
+export const getTableLabel = (value: string): string => value.replace(/^n /, '').trim();
+
+// Some tables store the tail of "a"/"an" with each entry (" Farmer", "n Urchin") so the entry can
+// be spliced straight into fullDescription.
+const usesArticlePrefix = (table: string[]) => table.every(value => /^(?: |n )/.test(value));
+
+/**
+ * Maps a user-supplied value onto the table's own spelling, so custom values read correctly in
+ * fullDescription.
+ */
+export const toTableValue = (table: string[], value: string): string => {
+    const existing = table.find(entry => entry === value || getTableLabel(entry).toLowerCase() === value.trim().toLowerCase());
+    if (existing) return existing;
+    if (usesArticlePrefix(table)) {
+        return /^[aeiou]/i.test(value.trim()) ? `n ${value.trim()}` : ` ${value.trim()}`;
+    }
+    return value.trim();
+};
+
+// Facial hair and items are spliced into fullDescription with their own wording (" and a beard.",
+// " a lace hankie."), so pack values for them are used exactly as written.
+const verbatimTables: ListTableName[] = ['facialHairStyles', 'items'];
+
+const applyListPatch = (list: string[], patch: ListPatch, spelling: string[] | null): string[] => {
+    const { add = [], remove = [], replace } = Array.isArray(patch) ? { add: patch } : patch;
+    const spell = (value: string) => spelling ? toTableValue(spelling, value) : value;
+    const removed = new Set(remove.map(value => getTableLabel(value).toLowerCase()));
+    return [...(replace ? replace.map(spell) : list), ...add.map(spell)]
+        .filter(value => !removed.has(getTableLabel(value).toLowerCase()));
+};
+
+const applyRecordPatch = (record: Record<string, string>, patch: RecordPatch): Record<string, string> => {
+    const next = { ...(patch.replace ?? record), ...patch.add };
+    for (const key of patch.remove ?? []) delete next[key];
+    return next;
+};
+
+// Like the list tables, a name list a pack would empty keeps its names.
+const applyNamesPatch = (names: RaceNames | undefined, patch: RaceNamesPatch, race: string, packName: string): RaceNames => {
+    const patchList = (list: string[], listPatch: ListPatch, label: string): string[] => {
+        const next = applyListPatch(list, listPatch, null);
+        if (next.length > 0) return next;
+        console.warn(`The data pack "${packName}" would leave the ${label} names of ${race} empty, so that change was skipped.`);
+        return list;
+    };
+    const first = { ...names?.first };
+    for (const [gender, genderPatch] of Object.entries(patch.first ?? {})) {
+        first[gender] = patchList(first[gender] ?? [], genderPatch, `${gender} first`);
+    }
+    return { first, last: patch.last ? patchList(names?.last ?? [], patch.last, 'family') : names?.last ?? [] };
+};
+
+/**
+ * Applies packs in order to the built-in tables. A change that would leave a list empty is
+ * skipped, since every list must have something to roll.
+ */
+export const mergeDataPacks = (packs: DataPack[]): NpcTables => {
+    const tables: NpcTables = { ...baseTables, names: { ...baseTables.names } };
+    for (const pack of packs) {
+        for (const name of listTableNames) {
+            const patch = pack.tables?.[name];
+            if (!patch) continue;
+            const next = applyListPatch(tables[name], patch, verbatimTables.includes(name) ? null : baseTables[name]);
+            if (next.length > 0) {
+                tables[name] = next;
+            } else {
+                console.warn(`The data pack "${pack.name}" would leave ${name} empty, so that change was skipped.`);
+            }
+        }
+        if (pack.raceDescriptions) {
+            tables.raceDescriptions = applyRecordPatch(tables.raceDescriptions, pack.raceDescriptions);
+        }
+        for (const [race, patch] of Object.entries(pack.names ?? {})) {
+            tables.names[race] = applyNamesPatch(tables.names[race], patch, race, pack.name);
+        }
+    }
+    return tables;
+};
+
+/**
+ * What the merged tables are missing for each race, e.g. a homebrew race with no name lists, which
+ * falls back to human names, or one the race registry has no stat block features for.
+ */
+export const findMissingRaceData = (tables: NpcTables): string[] =>
+    tables.races.flatMap(race => {
+        const names = tables.names[race];
+        const missing = [
+            !names || tables.genders.some(gender => !names.first[gender]?.length) ? 'first names' : '',
+            !names?.last.length ? 'family names' : '',
+            !tables.raceDescriptions[race] ? 'a portrait description' : '',
+            !getRaceDefinition(race) ? 'racial features' : '',
+        ].filter(Boolean);
+        return missing.length > 0 ? [`${race} has no ${missing.join(' or ')}.`] : [];
+    });
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isStringRecord = (value: unknown): value is Record<string, string> => isRecord(value) && Object.values(value).every(item => typeof item === 'string');
+
+const isListTableName = (name: string): name is ListTableName => (listTableNames as readonly string[]).includes(name);
+
+// The readers below narrow one part of a pack, adding what is wrong with it to `errors`.
+
+const reportUnknownKeys = (value: Record<string, unknown>, known: string[], describe: (key: string) => string, errors: string[]) => {
+    errors.push(...Object.keys(value).filter(key => !known.includes(key)).map(describe));
+};
+
+const readField = <T,>(value: Record<string, unknown>, key: string, isValid: (item: unknown) => item is T, error: string, errors: string[]): T | undefined => {
+    const item = value[key];
+    if (item === undefined) return undefined;
+    if (isValid(item)) return item;
+    errors.push(error);
+    return undefined;
+};
+
+const readListPatch = (patch: unknown, label: string, errors: string[]): ListPatch => {
+    if (isStringArray(patch)) return patch;
+    if (!isRecord(patch)) {
+        errors.push(`${label} must be a list of text or an object with add, remove or replace.`);
+        return [];
+    }
+    reportUnknownKeys(patch, ['add', 'remove', 'replace'], key => `${label} has an unknown change "${key}".`, errors);
+    const add = readField(patch, 'add', isStringArray, `${label}.add must be a list of text.`, errors);
+    const remove = readField(patch, 'remove', isStringArray, `${label}.remove must be a list of text.`, errors);
+    const replace = readField(patch, 'replace', isStringArray, `${label}.replace must be a list of text.`, errors);
+    if (replace?.length === 0) errors.push(`${label}.replace cannot be empty.`);
+    return { ...(add && { add }), ...(remove && { remove }), ...(replace && { replace }) };
+};
+
+const readRecordPatch = (patch: unknown, label: string, errors: string[]): RecordPatch => {
+    if (!isRecord(patch)) {
+        errors.push(`${label} must be an object with add, remove or replace.`);
+        return {};
+    }
+    reportUnknownKeys(patch, ['add', 'remove', 'replace'], key => `${label} has an unknown change "${key}".`, errors);
+    const add = readField(patch, 'add', isStringRecord, `${label}.add must map race names to text.`, errors);
+    const remove = readField(patch, 'remove', isStringArray, `${label}.remove must be a list of race names.`, errors);
+    const replace = readField(patch, 'replace', isStringRecord, `${label}.replace must map race names to text.`, errors);
+    return { ...(add && { add }), ...(remove && { remove }), ...(replace && { replace }) };
+};
+
+const readTables = (tables: unknown, errors: string[]): Partial<Record<ListTableName, ListPatch>> => {
+    if (!isRecord(tables)) {
+        errors.push('tables must map table names to changes.');
+        return {};
+    }
+    const result: Partial<Record<ListTableName, ListPatch>> = {};
+    for (const [name, patch] of Object.entries(tables)) {
+        if (!isListTableName(name)) {
+            errors.push(`There is no table called "${name}". The tables are ${listTableNames.join(', ')}.`);
+        } else {
+            result[name] = readListPatch(patch, `tables.${name}`, errors);
+        }
+    }
+    return result;
+};
+
+const readNames = (names: unknown, errors: string[]): Record<string, RaceNamesPatch> => {
+    if (!isRecord(names)) {
+        errors.push('names must map race names to their name lists.');
+        return {};
+    }
+    return Object.fromEntries(Object.entries(names).map(([race, patch]): [string, RaceNamesPatch] => {
+        const label = `names.${race}`;
+        if (!isRecord(patch)) {
+            errors.push(`${label} must be an object with first and last.`);
+            return [race, {}];
+        }
+        reportUnknownKeys(patch, ['first', 'last'], key => `${label} has an unknown list "${key}".`, errors);
+        const result: RaceNamesPatch = {};
+        if (patch.first !== undefined) {
+            if (!isRecord(patch.first)) {
+                errors.push(`${label}.first must map genders to lists of names.`);
+            } else {
+                result.first = Object.fromEntries(Object.entries(patch.first)
+                    .map(([gender, list]) => [gender, readListPatch(list, `${label}.first.${gender}`, errors)]));
+            }
+        }
+        if (patch.last !== undefined) result.last = readListPatch(patch.last, `${label}.last`, errors);
+        return [race, result];
+    }));
+};
+
+const slugify = (text: string) => text.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// Checks a parsed pack, from a file or from storage, throwing with every problem found.
+const readDataPack = (data: unknown): DataPack => {
+    if (!isRecord(data) || data.format !== DATA_PACK_FORMAT) {
+        throw new Error(`The file is not a data pack. Data packs have "format": "${DATA_PACK_FORMAT}".`);
+    }
+    if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+        throw new Error('The data pack version must be a whole number from 1 up.');
+    }
+    if (data.version > DATA_PACK_VERSION) {
+        throw new Error(`The data pack is version ${data.version}, which this version of the app cannot read.`);
+    }
+
+    const errors: string[] = [];
+    const name = typeof data.name === 'string' ? data.name.trim() : '';
+    if (!name) errors.push('The pack has no name.');
+    const id = typeof data.id === 'string' ? slugify(data.id) : slugify(name);
+    if (data.id !== undefined && (typeof data.id !== 'string' || !id)) errors.push('The pack id must be text.');
+    const description = typeof data.description === 'string' ? data.description : undefined;
+    if (data.description !== undefined && description === undefined) errors.push('The description must be text.');
+    const tables = data.tables !== undefined ? readTables(data.tables, errors) : undefined;
+    const raceDescriptions = data.raceDescriptions !== undefined ? readRecordPatch(data.raceDescriptions, 'raceDescriptions', errors) : undefined;
+    const names = data.names !== undefined ? readNames(data.names, errors) : undefined;
+    if (!tables && !raceDescriptions && !names) {
+        errors.push('The pack changes nothing. Add tables, raceDescriptions or names.');
+    }
+    if (errors.length > 0) {
+        throw new Error(`The data pack could not be loaded. ${errors.join(' ')}`);
+    }
+
+    return {
+        format: DATA_PACK_FORMAT,
+        version: DATA_PACK_VERSION,
+        id,
+        name,
+        description,
+        tables,
+        raceDescriptions,
+        names,
+    };
+};
+
+/**
+ * Reads a data pack file. Throws with every problem found, so a broken pack can be fixed in one go.
+ */
+export const parseDataPack = (text: string): DataPack => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    return readDataPack(data);
+};
+
+/** A one-line account of what a pack changes, e.g. "races +2, professions replaced, names for 2 races". */
+export const summarizeDataPack = (pack: DataPack): string => {
+    const parts = Object.entries(pack.tables ?? {}).map(([name, patch]) => {
+        if (Array.isArray(patch)) return `${name} +${patch.length}`;
+        if (patch.replace) return `${name} replaced`;
+        const changes = [patch.add?.length ? `+${patch.add.length}` : '', patch.remove?.length ? `−${patch.remove.length}` : ''];
+        return `${name} ${changes.filter(Boolean).join(' ')}`.trim();
+    });
+    if (pack.raceDescriptions) parts.push(pack.raceDescriptions.replace ? 'race descriptions replaced' : 'race descriptions');
+    const nameRaces = Object.keys(pack.names ?? {}).length;
+    if (nameRaces > 0) parts.push(`names for ${nameRaces} race${nameRaces === 1 ? '' : 's'}`);
+    return parts.join(', ');
+};
+
+const DATA_PACKS_STORAGE_KEY = 'npc-dna.data-packs';
+
+export const loadDataPacks = (): DataPackEntry[] => {
+    try {
+        const stored = localStorage.getItem(DATA_PACKS_STORAGE_KEY);
+        const data: unknown = stored ? JSON.parse(stored) : [];
+        if (!Array.isArray(data)) throw new Error('The saved data packs are not a list.');
+        // Saved packs are checked again, so a stale or hand-edited one is dropped instead of breaking the tables.
+        return data.flatMap((entry: unknown) => {
+            try {
+                if (!isRecord(entry)) throw new Error('The saved entry is not an object.');
+                return [{ pack: readDataPack(entry.pack), enabled: typeof entry.enabled === 'boolean' ? entry.enabled : true }];
+            } catch (error) {
+                console.warn("Could not read a saved data pack, so it was dropped.", error);
+                return [];
+            }
+        });
+    } catch (error) {
+        console.warn("Could not read saved data packs, using the built-in tables.", error);
+        return [];
+    }
+};
+
+export const saveDataPacks = (entries: DataPackEntry[]): void => {
+    try {
+        localStorage.setItem(DATA_PACKS_STORAGE_KEY, JSON.stringify(entries));
+    } catch (error) {
+        console.warn("Could not save the data packs.", error);
+    }
+};
+
+// The generator and the image prompt read the tables merged from the saved, enabled packs.
+let dataPacks = loadDataPacks();
+let npcTables = mergeDataPacks(dataPacks.filter(entry => entry.enabled).map(entry => entry.pack));
+
+export const getDataPacks = (): DataPackEntry[] => dataPacks;
+
+export const getNpcTables = (): NpcTables => npcTables;
+
+export const setDataPacks = (entries: DataPackEntry[]): void => {
+    dataPacks = entries;
+    npcTables = mergeDataPacks(entries.filter(entry => entry.enabled).map(entry => entry.pack));
+    saveDataPacks(entries);
+};
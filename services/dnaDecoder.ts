@@ -1,5 +1,19 @@
 // services/dnaDecoder.ts
 
+// DNA grammar, version 1:
+//
+//   DNA1:(<lnc avg>/<gne avg>) <20 paired traits> - <20 unpaired traits> #<checksum>
+//
+//   paired trait   = <score 1-9><key><intensity 1-5>, keys fixed per position (see lncTraitKeys)
+//   unpaired trait = <key><score 1-9>, each key of gneTraitMap exactly once
+//   checksum       = 4 hex digits of FNV-1a over everything before " #"
+//
+// Legacy (version 0) codes are the same without the "DNA1:" prefix and the checksum.
+
+export const DNA_VERSION = 1;
+export const LNC_TRAIT_COUNT = 20;
+export const GNE_TRAIT_COUNT = 20;
+
 export interface DecodedDna {
     alignment: {
         lnc: string;
@@ -21,7 +35,7 @@ export interface DecodedDna {
     }[];
 }
 
-const lncTraitMap: { name1: string; name2: string }[] = [
+export const lncTraitMap: { name1: string; name2: string }[] = [
     { name1: 'Brave', name2: 'Cowardly' },
     { name1: 'Reserved', name2: 'Outspoken' },
     { name1: 'Reckless', name2: 'Cautious' },
@@ -44,93 +58,270 @@ const lncTraitMap: { name1: string; name2: string }[] = [
     { name1: 'Diplomatic', name2: 'Confrontational' },
 ];
 
-const lncTraitKeys: [string, string][] = [
+export const lncTraitKeys: [string, string][] = [
     ["B", "C"], ["R", "O"], ["L", "T"], ["F", "I"], ["S", "X"],
     ["P", "M"], ["D", "U"], ["G", "H"], ["Y", "W"], ["E", "A"],
     ["N", "V"], ["K", "Q"], ["Z", "B"], ["O", "P"], ["C", "H"],
     ["R", "L"], ["A", "S"], ["D", "A"], ["A", "H"], ["I", "C"]
 ];
 
-const gneTraitMap: { [key: string]: string } = {
+export const gneTraitMap: { [key: string]: string } = {
     H: 'Honest', C: 'Compassionate', K: 'Kind', G: 'Generous', L: 'Loyal',
     J: 'Just', M: 'Merciful', F: 'Forgiving', E: 'Empathetic', B: 'Benevolent',
     U: 'Humble', S: 'Selfless', I: 'Integrity', R: 'Responsible', T: 'Tolerant',
     A: 'Fair', D: 'Devoted', V: 'Charitable', Y: 'Accountable', X: 'Virtuous'
 };
 
-const getLncAlignment = (score: number) => {
+export type LncAlignment = 'Lawful' | 'Neutral' | 'Chaotic';
+export type GneAlignment = 'Good' | 'Neutral' | 'Evil';
+
+export const getLncAlignment = (score: number): LncAlignment => {
     if (score >= 7) return 'Lawful';
     if (score >= 4) return 'Neutral';
     return 'Chaotic';
 };
 
-const getGneAlignment = (score: number) => {
+export const getGneAlignment = (score: number): GneAlignment => {
     if (score >= 7) return 'Good';
     if (score >= 4) return 'Neutral';
     return 'Evil';
 };
 
-const getGneStrength = (score: number) => {
+export const getGneStrength = (score: number) => {
     if (score >= 7) return 'Strong';
     if (score >= 4) return 'Moderate';
     return 'Weak/Opposite';
 };
 
-export const decodeDna = (dna: string): DecodedDna | null => {
-    try {
-        const match = dna.match(/\((\d+)\/(\d+)\) (.*) - (.*)/);
-        if (!match) return null;
-
-        const [, lncAvg, gneAvg, lncPart, gnePart] = match;
-        const lncAverage = parseInt(lncAvg, 10);
-        const gneAverage = parseInt(gneAvg, 10);
-
-        const lncTraitsRaw = lncPart.split(',');
-        const gneTraitsRaw = gnePart.split(',');
-
-        const pairedTraits = lncTraitsRaw.map((trait, index) => {
-            const score = parseInt(trait[0], 10);
-            const key = trait[1];
-            const intensity = parseInt(trait[2], 10);
-            
-            const [key1, key2] = lncTraitKeys[index];
+export type DnaSegment = 'version' | 'alignment' | 'lnc' | 'gne' | 'checksum' | 'format';
+
+export interface DnaValidationError {
+    segment: DnaSegment;
+    /** Position of the offending trait within its segment, when the error is about a single trait. */
+    index?: number;
+    value?: string;
+    message: string;
+}
+
+export type DnaValidationResult =
+    | { valid: true; version: number; decoded: DecodedDna }
+    | { valid: false; errors: DnaValidationError[] };
+
+const gneKeysByName: { [name: string]: string } = Object.fromEntries(
+    Object.entries(gneTraitMap).map(([key, name]) => [name, key])
+);
+
+const average = (scores: number[]) => Math.round(scores.reduce((a, b) => a + b, 0) / scores.length);
+
+/**
+ * Computes the alignment averages for a set of trait scores, using the same rounding the encoder
+ * writes into the DNA header.
+ */
+export const computeAlignment = (pairedTraits: { score: number }[], unpairedTraits: { score: number }[]): DecodedDna['alignment'] => {
+    const lncScore = average(pairedTraits.map(t => t.score));
+    const gneScore = average(unpairedTraits.map(t => t.score));
+    return {
+        lnc: getLncAlignment(lncScore),
+        gne: getGneAlignment(gneScore),
+        lncScore,
+        gneScore,
+    };
+};
+
+// 16-bit FNV-1a, written as four hex digits.
+const checksum = (body: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < body.length; i++) {
+        hash ^= body.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return ((hash ^ (hash >>> 16)) & 0xffff).toString(16).toUpperCase().padStart(4, '0');
+};
+
+const pairedTrait = (index: number, score: number, key: string, intensity: number): DecodedDna['pairedTraits'][number] => {
+    const [key1] = lncTraitKeys[index];
+    const { name1, name2 } = lncTraitMap[index];
+    return {
+        name: key === key1 ? name1 : name2,
+        score,
+        intensity,
+        influence: getLncAlignment(score),
+        pair: `${name1} / ${name2}`,
+    };
+};
+
+const unpairedTrait = (key: string, score: number): DecodedDna['unpairedTraits'][number] => ({
+    name: gneTraitMap[key],
+    score,
+    strength: getGneStrength(score),
+});
+
+/**
+ * Validates a DNA string against the grammar above, collecting every problem found rather than
+ * stopping at the first one.
+ */
+export const validateDna = (dna: string): DnaValidationResult => {
+    const errors: DnaValidationError[] = [];
+    let body = dna.trim();
+    let version = 0;
+
+    const versionMatch = body.match(/^DNA(\d+):/i);
+    if (versionMatch) {
+        version = parseInt(versionMatch[1], 10);
+        if (version !== DNA_VERSION) {
+            return { valid: false, errors: [{ segment: 'version', value: versionMatch[0], message: `Unsupported DNA version ${version}. This app reads version ${DNA_VERSION} and legacy codes.` }] };
+        }
+
+        const checksumMatch = body.match(/\s*#([0-9A-F]{4})$/i);
+        if (!checksumMatch) {
+            errors.push({ segment: 'checksum', message: 'Missing checksum. Version 1 codes must end with " #" and four hex digits.' });
+        } else {
+            body = body.substring(0, checksumMatch.index).trim();
+            const expected = checksum(body);
+            if (checksumMatch[1].toUpperCase() !== expected) {
+                errors.push({ segment: 'checksum', value: checksumMatch[1], message: `Checksum mismatch: expected ${expected}. The code was altered or copied incompletely.` });
+            }
+        }
+        body = body.substring(versionMatch[0].length).trim();
+    }
+
+    const headerMatch = body.match(/^\((\d+)\/(\d+)\)\s*/);
+    if (!headerMatch) {
+        errors.push({ segment: 'alignment', value: body.substring(0, 8), message: 'Missing alignment header. Expected "(LNC/GNE)" at the start, e.g. "(5/6)".' });
+        return { valid: false, errors };
+    }
+
+    const segments = body.substring(headerMatch[0].length).split(/\s+-\s+/);
+    if (segments.length !== 2) {
+        errors.push({ segment: 'format', message: 'Expected paired and unpaired traits separated by " - ".' });
+        return { valid: false, errors };
+    }
+
+    // Paired (LNC) traits: position decides which pair each entry belongs to.
+    const lncEntries = segments[0].split(',').map(entry => entry.trim());
+    if (lncEntries.length !== LNC_TRAIT_COUNT) {
+        errors.push({ segment: 'lnc', value: String(lncEntries.length), message: `Expected ${LNC_TRAIT_COUNT} paired traits, found ${lncEntries.length}.` });
+    }
+    const pairedTraits: DecodedDna['pairedTraits'] = [];
+    lncEntries.slice(0, LNC_TRAIT_COUNT).forEach((entry, index) => {
+        const match = entry.match(/^([1-9])([A-Z])([1-5])$/);
+        if (!match) {
+            errors.push({ segment: 'lnc', index, value: entry, message: `Paired trait ${index + 1} "${entry}" must be a score 1-9, a trait letter and an intensity 1-5, e.g. "5B3".` });
+            return;
+        }
+        const [, score, key, intensity] = match;
+        if (!lncTraitKeys[index].includes(key)) {
             const { name1, name2 } = lncTraitMap[index];
+            errors.push({ segment: 'lnc', index, value: entry, message: `Paired trait ${index + 1} (${name1} / ${name2}) must use "${lncTraitKeys[index].join('" or "')}", not "${key}".` });
+            return;
+        }
+        pairedTraits.push(pairedTrait(index, parseInt(score, 10), key, parseInt(intensity, 10)));
+    });
 
-            const traitName = (key === key1) ? name1 : name2;
-            const pairName = `${name1} / ${name2}`;
-
-            return {
-                name: traitName,
-                score: score,
-                intensity: intensity,
-                influence: getLncAlignment(score),
-                pair: pairName
-            };
-        });
-
-        const unpairedTraits = gneTraitsRaw.map((trait) => {
-            const key = trait[0];
-            const score = parseInt(trait.substring(1), 10);
-            
-            return {
-                name: gneTraitMap[key] || 'Unknown',
-                score: score,
-                strength: getGneStrength(score)
-            };
-        });
-
-        return {
-            alignment: {
-                lnc: getLncAlignment(lncAverage),
-                gne: getGneAlignment(gneAverage),
-                lncScore: lncAverage,
-                gneScore: gneAverage
-            },
-            pairedTraits,
-            unpairedTraits
-        };
-    } catch (error) {
-        console.error("Failed to decode DNA string:", error);
+    // Unpaired (GNE) traits: order is free, but every key must appear exactly once.
+    const gneEntries = segments[1].split(',').map(entry => entry.trim());
+    if (gneEntries.length !== GNE_TRAIT_COUNT) {
+        errors.push({ segment: 'gne', value: String(gneEntries.length), message: `Expected ${GNE_TRAIT_COUNT} unpaired traits, found ${gneEntries.length}.` });
+    }
+    const unpairedTraits: DecodedDna['unpairedTraits'] = [];
+    const seenKeys = new Set<string>();
+    gneEntries.forEach((entry, index) => {
+        const match = entry.match(/^([A-Z])([1-9])$/);
+        if (!match) {
+            errors.push({ segment: 'gne', index, value: entry, message: `Unpaired trait ${index + 1} "${entry}" must be a trait letter and a score 1-9, e.g. "H7".` });
+            return;
+        }
+        const [, key, score] = match;
+        if (!gneTraitMap[key]) {
+            errors.push({ segment: 'gne', index, value: entry, message: `Unpaired trait ${index + 1} uses unknown trait letter "${key}".` });
+            return;
+        }
+        if (seenKeys.has(key)) {
+            errors.push({ segment: 'gne', index, value: entry, message: `Unpaired trait ${index + 1} repeats ${gneTraitMap[key]} ("${key}").` });
+            return;
+        }
+        seenKeys.add(key);
+        unpairedTraits.push(unpairedTrait(key, parseInt(score, 10)));
+    });
+    if (gneEntries.length === GNE_TRAIT_COUNT) {
+        const missing = Object.keys(gneTraitMap).filter(key => !seenKeys.has(key));
+        if (missing.length > 0 && missing.length < GNE_TRAIT_COUNT) {
+            errors.push({ segment: 'gne', value: missing.join(','), message: `Missing unpaired traits: ${missing.map(key => gneTraitMap[key]).join(', ')}.` });
+        }
+    }
+
+    if (errors.length > 0) {
+        return { valid: false, errors };
+    }
+
+    // The header must agree with the traits it summarizes.
+    const alignment = computeAlignment(pairedTraits, unpairedTraits);
+    const [, lncAvg, gneAvg] = headerMatch;
+    if (parseInt(lncAvg, 10) !== alignment.lncScore) {
+        errors.push({ segment: 'alignment', index: 0, value: lncAvg, message: `LNC average is ${lncAvg}, but the paired traits average ${alignment.lncScore}.` });
+    }
+    if (parseInt(gneAvg, 10) !== alignment.gneScore) {
+        errors.push({ segment: 'alignment', index: 1, value: gneAvg, message: `GNE average is ${gneAvg}, but the unpaired traits average ${alignment.gneScore}.` });
+    }
+    if (errors.length > 0) {
+        return { valid: false, errors };
+    }
+
+    return { valid: true, version, decoded: { alignment, pairedTraits, unpairedTraits } };
+};
+
+export const decodeDna = (dna: string): DecodedDna | null => {
+    const result = validateDna(dna);
+    if ('errors' in result) {
+        console.error("Failed to decode DNA string:", result.errors);
         return null;
     }
-};
\ No newline at end of file
+    return result.decoded;
+};
+
+/**
+ * The parts of a decoded DNA that the encoder needs; alignment and descriptive fields are derived.
+ */
+export interface EncodableDna {
+    pairedTraits: { name: string; score: number; intensity: number }[];
+    unpairedTraits: { name: string; score: number }[];
+}
+
+const isDigitInRange = (value: number, max: number) => Number.isInteger(value) && value >= 1 && value <= max;
+
+/**
+ * Encodes traits back into a current-version DNA string. The alignment header is recomputed from
+ * the trait scores, so `decodeDna(encodeDna(decoded))` always round-trips.
+ */
+export const encodeDna = (decoded: EncodableDna): string => {
+    if (decoded.pairedTraits.length !== LNC_TRAIT_COUNT || decoded.unpairedTraits.length !== GNE_TRAIT_COUNT) {
+        throw new Error(`DNA needs exactly ${LNC_TRAIT_COUNT} paired and ${GNE_TRAIT_COUNT} unpaired traits.`);
+    }
+
+    const lnc = decoded.pairedTraits.map((trait, index) => {
+        const { name1, name2 } = lncTraitMap[index];
+        const [key1, key2] = lncTraitKeys[index];
+        if (trait.name !== name1 && trait.name !== name2) {
+            throw new Error(`Paired trait ${index + 1} must be ${name1} or ${name2}, not ${trait.name}.`);
+        }
+        if (!isDigitInRange(trait.score, 9) || !isDigitInRange(trait.intensity, 5)) {
+            throw new Error(`${trait.name} needs a score of 1-9 and an intensity of 1-5.`);
+        }
+        return `${trait.score}${trait.name === name1 ? key1 : key2}${trait.intensity}`;
+    });
+
+    const gne = decoded.unpairedTraits.map(trait => {
+        const key = gneKeysByName[trait.name];
+        if (!key) {
+            throw new Error(`Unknown unpaired trait ${trait.name}.`);
+        }
+        if (!isDigitInRange(trait.score, 9)) {
+            throw new Error(`${trait.name} needs a score of 1-9.`);
+        }
+        return `${key}${trait.score}`;
+    });
+
+    const { lncScore, gneScore } = computeAlignment(decoded.pairedTraits, decoded.unpairedTraits);
+    const body = `DNA${DNA_VERSION}:(${lncScore}/${gneScore}) ${lnc.join(',')} - ${gne.join(',')}`;
+    return `${body} #${checksum(body)}`;
+};
@@ -1,47 +1,167 @@
 // services/dnaGenerator.ts
 
-// LNC traits (Paired Traits)
-const lncTraits: [string, string][] = [
-    ["B", "C"], ["R", "O"], ["L", "T"], ["F", "I"], ["S", "X"],
-    ["P", "M"], ["D", "U"], ["G", "H"], ["Y", "W"], ["E", "A"],
-    ["N", "V"], ["K", "Q"], ["Z", "B"], ["O", "P"], ["C", "H"],
-    ["R", "L"], ["A", "S"], ["D", "A"], ["A", "H"], ["I", "C"]
-];
-
-// GNE traits (Unpaired Traits)
-const gneTraits: string[] = [
-    "H", "C", "K", "G", "L", "J", "M", "F", "E", "B", "U", "S", "I", "R", "T", "A", "D", "V", "Y", "X"
-];
-
-const getRandomInt = (min: number, max: number): number => {
-    return Math.floor(Math.random() * (max - min + 1)) + min;
+import {
+    computeAlignment,
+    encodeDna,
+    getGneAlignment,
+    getGneStrength,
+    getLncAlignment,
+    gneTraitMap,
+    lncTraitMap,
+    type GneAlignment,
+    type LncAlignment,
+} from './dnaDecoder';
+import { randomInt, randomItem, type Rng } from './random';
+
+export interface DnaGenerationOptions {
+    /** Alignment the Law/Chaos average must land on. */
+    lnc?: LncAlignment;
+    /** Alignment the Good/Evil average must land on. */
+    gne?: GneAlignment;
+    /**
+     * Trait names that must come out dominant: a paired trait gets that side at full intensity, an
+     * unpaired trait gets a Strong score.
+     */
+    dominantTraits?: string[];
+}
+
+const SCORES = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+// Most traits are drawn from the target band; the rest stay free so the NPC keeps some contradictions.
+const IN_BAND_CHANCE = 0.75;
+
+const strongScores = SCORES.filter(score => getGneStrength(score) === 'Strong');
+
+const sampleScore = (rng: Rng, band: number[]): number => (
+    band.length > 0 && rng() < IN_BAND_CHANCE ? randomItem(rng, band) : randomInt(rng, 1, 9)
+);
+
+/**
+ * Nudges scores one step at a time, on randomly chosen traits, until `isOnTarget` holds. Traits in
+ * `floors` are never pushed below their floor, so required dominant traits stay dominant.
+ */
+const steerScores = (
+    rng: Rng,
+    scores: number[],
+    target: string,
+    band: number[],
+    isOnTarget: () => boolean,
+    floors: Map<number, number> = new Map(),
+): void => {
+    while (!isOnTarget()) {
+        const average = scores.reduce((a, b) => a + b, 0) / scores.length;
+        const raise = average < Math.min(...band);
+        const movable = scores
+            .map((_, index) => index)
+            .filter(index => raise ? scores[index] < 9 : scores[index] > (floors.get(index) ?? 1));
+        if (movable.length === 0) {
+            throw new Error(`The required dominant traits make the requested ${target} alignment impossible.`);
+        }
+        scores[randomItem(rng, movable)] += raise ? 1 : -1;
+    }
 };
 
-export const generatePersonalityDna = (): string => {
-    // Generate LNC DNA
-    const lncDna: string[] = [];
-    const lncScores: number[] = [];
-    for (const pair of lncTraits) {
-        const chosenTrait = pair[getRandomInt(0, 1)];
-        const lncScore = getRandomInt(1, 9);
-        const intensity = getRandomInt(1, 5);
-        lncScores.push(lncScore);
-        lncDna.push(`${lncScore}${chosenTrait}${intensity}`);
+const resolveDominantTraits = (names: string[]) => {
+    const paired = new Map<number, string>();
+    const unpaired = new Set<string>();
+    const unknown: string[] = [];
+    const gneNames = Object.values(gneTraitMap);
+
+    for (const rawName of names) {
+        const name = rawName.trim().toLowerCase();
+        const pairIndex = lncTraitMap.findIndex(({ name1, name2 }) => name1.toLowerCase() === name || name2.toLowerCase() === name);
+        const gneName = gneNames.find(n => n.toLowerCase() === name);
+        if (pairIndex >= 0) {
+            const { name1, name2 } = lncTraitMap[pairIndex];
+            const side = name1.toLowerCase() === name ? name1 : name2;
+            const existing = paired.get(pairIndex);
+            if (existing && existing !== side) {
+                throw new Error(`"${name1}" and "${name2}" are opposite sides of the same trait and cannot both be dominant.`);
+            }
+            paired.set(pairIndex, side);
+        } else if (gneName) {
+            unpaired.add(gneName);
+        } else {
+            unknown.push(rawName);
+        }
     }
 
-    // Generate GNE DNA
-    const gneDna: string[] = [];
-    const gneScores: number[] = [];
-    for (const trait of gneTraits) {
-        const gneScore = getRandomInt(1, 9);
-        gneScores.push(gneScore);
-        gneDna.push(`${trait}${gneScore}`);
+    if (unknown.length > 0) {
+        throw new Error(`Unknown personality trait${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}.`);
     }
+    return { paired, unpaired };
+};
+
+/**
+ * Rolls a Personality DNA that hits the requested alignment and dominant traits. Scores are
+ * sampled around the target band and then steered until `computeAlignment` — the same averaging
+ * `decodeDna` uses — reports the target, so the encoded header always agrees with the decoder.
+ */
+const generateTargetedDna = (rng: Rng, options: DnaGenerationOptions): string => {
+    const dominant = resolveDominantTraits(options.dominantTraits ?? []);
+    const lncBand = options.lnc ? SCORES.filter(score => getLncAlignment(score) === options.lnc) : [];
+    const gneBand = options.gne ? SCORES.filter(score => getGneAlignment(score) === options.gne) : [];
+
+    const pairedTraits = lncTraitMap.map(({ name1, name2 }, index) => {
+        const required = dominant.paired.get(index);
+        return {
+            name: required ?? (randomInt(rng, 0, 1) === 0 ? name1 : name2),
+            score: sampleScore(rng, lncBand),
+            intensity: required ? 5 : randomInt(rng, 1, 5),
+        };
+    });
+
+    const gneFloors = new Map<number, number>();
+    const unpairedTraits = Object.values(gneTraitMap).map((name, index) => {
+        if (dominant.unpaired.has(name)) {
+            gneFloors.set(index, strongScores[0]);
+            return { name, score: randomItem(rng, strongScores) };
+        }
+        return { name, score: sampleScore(rng, gneBand) };
+    });
 
-    // Calculate averages
-    const lncAverage = Math.round(lncScores.reduce((a, b) => a + b, 0) / lncScores.length);
-    const gneAverage = Math.round(gneScores.reduce((a, b) => a + b, 0) / gneScores.length);
+    const lncScores = pairedTraits.map(t => t.score);
+    const gneScores = unpairedTraits.map(t => t.score);
+    const alignment = () => computeAlignment(lncScores.map(score => ({ score })), gneScores.map(score => ({ score })));
 
-    // Combine into final string
-    return `(${lncAverage}/${gneAverage}) ${lncDna.join(',')} - ${gneDna.join(',')}`;
-};
\ No newline at end of file
+    if (options.lnc) {
+        steerScores(rng, lncScores, `${options.lnc} (Law/Chaos)`, lncBand, () => alignment().lnc === options.lnc);
+    }
+    if (options.gne) {
+        steerScores(rng, gneScores, `${options.gne} (Good/Evil)`, gneBand, () => alignment().gne === options.gne, gneFloors);
+    }
+
+    return encodeDna({
+        pairedTraits: pairedTraits.map((trait, i) => ({ ...trait, score: lncScores[i] })),
+        unpairedTraits: unpairedTraits.map((trait, i) => ({ ...trait, score: gneScores[i] })),
+    });
+};
+
+/**
+ * Rolls a new Personality DNA string. Pass a seeded random source (see `createRng`) to get the
+ * same DNA back for the same seed; it defaults to Math.random.
+ *
+ * Without options every score is uniform, which in practice lands almost every NPC on
+ * Neutral/Neutral. Pass a target alignment and/or dominant traits to steer the roll.
+ */
+export const generatePersonalityDna = (rng: Rng = Math.random, options: DnaGenerationOptions = {}): string => {
+    if (options.lnc || options.gne || options.dominantTraits?.length) {
+        return generateTargetedDna(rng, options);
+    }
+
+    // Generate LNC DNA (Paired Traits)
+    const pairedTraits = lncTraitMap.map(({ name1, name2 }) => {
+        const name = randomInt(rng, 0, 1) === 0 ? name1 : name2;
+        const score = randomInt(rng, 1, 9);
+        const intensity = randomInt(rng, 1, 5);
+        return { name, score, intensity };
+    });
+
+    // Generate GNE DNA (Unpaired Traits)
+    const unpairedTraits = Object.values(gneTraitMap).map(name => ({
+        name,
+        score: randomInt(rng, 1, 9),
+    }));
+
+    // Encoding computes the alignment averages and checksum.
+    return encodeDna({ pairedTraits, unpairedTraits });
+};
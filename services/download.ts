@@ -0,0 +1,14 @@
+// services/download.ts
+
+/** Saves `contents` as a file through the browser's download prompt. */
+export const downloadFile = (fileName: string, contents: BlobPart, type: string): void => {
+    const blob = new Blob([contents], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
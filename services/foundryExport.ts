@@ -0,0 +1,207 @@
+// services/foundryExport.ts
+
+import { abilities, buildStatBlock, deriveCharacter, skillAbilities, weaponAbility, weapons, type Ability } from './statBlock';
+import type { DecodedDna } from './dnaDecoder';
+import type { Npc, NpcProfile } from '../types';
+
+export interface FoundryExportOptions {
+    /** Challenge rating picked on the Stats tab, if any. */
+    targetCr?: string;
+    dna?: DecodedDna | null;
+    /** The DNA code and seed, kept in the actor's flags so the NPC can be traced back. */
+    dnaCode?: string;
+    seed?: string | null;
+    /** Base64-encoded PNG portrait. */
+    imageUrl?: string | null;
+}
+
+// dnd5e's three-letter skill keys.
+const skillKeys: Record<string, string> = {
+    'Acrobatics': 'acr', 'Animal Handling': 'ani', 'Arcana': 'arc', 'Athletics': 'ath', 'Deception': 'dec',
+    'History': 'his', 'Insight': 'ins', 'Intimidation': 'itm', 'Investigation': 'inv', 'Medicine': 'med',
+    'Nature': 'nat', 'Perception': 'prc', 'Performance': 'prf', 'Persuasion': 'per', 'Religion': 'rel',
+    'Sleight of Hand': 'slt', 'Stealth': 'ste', 'Survival': 'sur',
+};
+
+const languageKeys: Record<string, string> = {
+    'Common': 'common', 'Dwarvish': 'dwarvish', 'Elvish': 'elvish', 'Giant': 'giant', 'Gnomish': 'gnomish',
+    'Goblin': 'goblin', 'Halfling': 'halfling', 'Orc': 'orc', 'Abyssal': 'abyssal', 'Celestial': 'celestial',
+    'Draconic': 'draconic', 'Infernal': 'infernal', 'Primordial': 'primordial', 'Sylvan': 'sylvan', 'Undercommon': 'undercommon',
+};
+
+const sizeKeys: Record<string, string> = { 'Tiny': 'tiny', 'Small': 'sm', 'Medium': 'med', 'Large': 'lg' };
+
+// Martial weapons; everything else in the weapon table is simple.
+const martialWeapons = new Set(['Greataxe', 'Longsword', 'Rapier', 'Shortsword', 'Warhammer', 'Shortbow']);
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const paragraph = (text: string) => `<p>${escapeHtml(text)}</p>`;
+
+const list = (items: string[]) => items.length > 0 ? `<ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>` : '';
+
+const labeled = (label: string, text: string) => `<strong>${escapeHtml(label)}:</strong> ${escapeHtml(text)}`;
+
+const section = (title: string, body: string) => body ? `<h2>${escapeHtml(title)}</h2>${body}` : '';
+
+// "80/320 ft." as dnd5e's normal and long range.
+const parseRange = (range: string) => {
+    const [normal, long] = range.replace(' ft.', '').split('/').map(Number);
+    return { value: normal, long, units: 'ft' };
+};
+
+/**
+ * Writes the profile as the HTML biography shown on the actor sheet, with the portrait on top.
+ * Foundry only accepts file paths for actor and token images, so the portrait travels in here;
+ * from the sheet it can be saved into the world's data and set as the actor image.
+ */
+const buildBiography = (npc: Npc, profile: NpcProfile | null, imageUrl: string | null | undefined): string => {
+    const parts: string[] = [];
+    if (imageUrl) {
+        parts.push(`<p><img src="data:image/png;base64,${imageUrl}" alt="${escapeHtml(npc.name)}" width="320" /></p>`);
+    }
+    if (profile) {
+        if (profile.narrativeEssence) parts.push(`<blockquote>${paragraph(profile.narrativeEssence)}</blockquote>`);
+        parts.push(list([
+            profile.role && `Role: ${profile.role}`,
+            profile.archetype && `Archetype: ${profile.archetype}`,
+            `Profession: ${npc.profession.trim()}`,
+            `Age: ${npc.age}`,
+        ].filter(Boolean)));
+        parts.push(section('Appearance & Presence', list(profile.appearance)));
+        parts.push(section('Personality & Internal Conflict', list(profile.personality)));
+        parts.push(section('Backstory', profile.backstory.map(paragraph).join('')));
+        parts.push(section('Behavioral Model (BDI)', [
+            profile.bdi.beliefs.length > 0 ? `<h3>Beliefs</h3>${list(profile.bdi.beliefs)}` : '',
+            profile.bdi.desires.length > 0 ? `<h3>Desires</h3>${list(profile.bdi.desires)}` : '',
+            profile.bdi.intentions.length > 0 ? `<h3>Intentions</h3>${list(profile.bdi.intentions)}` : '',
+        ].join('')));
+        parts.push(section('Core Motivation', `<ul><li>${labeled('Wants/Needs', npc.wantsOrNeed)}</li><li>${labeled('Secret/Obstacle', npc.secretOrObstacle)}</li></ul>`));
+        parts.push(section('Strengths & Weaknesses', list([...profile.strengths.map(s => `+ ${s}`), ...profile.weaknesses.map(w => `– ${w}`)])));
+        parts.push(section('Secrets', list(profile.secrets)));
+        parts.push(section('Significant Relationships', profile.relationships.length > 0
+            ? `<ul>${profile.relationships.map(r => `<li>${labeled(r.relationship ? `${r.name} (${r.relationship})` : r.name, r.description)}</li>`).join('')}</ul>`
+            : ''));
+        const cues = profile.roleplayingCues;
+        parts.push(section('Roleplaying Cues', [
+            cues.communicationStyle && labeled('Communication Style', cues.communicationStyle),
+            cues.coreVulnerability && labeled('Core Vulnerability', cues.coreVulnerability),
+            cues.mechanicalNote && labeled('Mechanical Note', cues.mechanicalNote),
+        ].filter(Boolean).map(cue => `<p>${cue}</p>`).join('')));
+        parts.push(section('Example Interaction', profile.exampleInteraction.map(paragraph).join('')));
+        parts.push(section('Story Hooks', profile.hooks.length > 0
+            ? `<ul>${profile.hooks.map(hook => `<li>${labeled(hook.title, hook.description)}</li>`).join('')}</ul>`
+            : ''));
+    } else {
+        parts.push(paragraph(npc.fullDescription));
+    }
+    return parts.filter(Boolean).join('\n');
+};
+
+const featItem = (name: string, description: string, activation = '') => ({
+    name,
+    type: 'feat',
+    img: 'icons/svg/book.svg',
+    system: {
+        description: { value: paragraph(description) },
+        activation: { type: activation, cost: activation ? 1 : null },
+        type: { value: 'monster' },
+    },
+});
+
+/**
+ * Builds a Foundry VTT actor for the dnd5e system from an NPC, its 5e stat block and its profile,
+ * in the shape "Import Data" on an actor expects. Abilities, skills, saves, hit points, armor,
+ * speed, languages and challenge go into the system data; weapons become weapon items, race
+ * traits and multiattack become features, and what the NPC carries becomes loot. Foundry works
+ * out attack and damage bonuses itself from the abilities and challenge rating.
+ */
+export const buildFoundryActor = (npc: Npc, profile: NpcProfile | null, options: FoundryExportOptions = {}) => {
+    const dna = options.dna ?? null;
+    const stats = buildStatBlock(npc, { targetCr: options.targetCr, dna });
+    const { race, weaponNames, skills, saves } = deriveCharacter(npc, dna);
+
+    const languages = race.languages.map(language => languageKeys[language]).filter(Boolean);
+    const customLanguages = race.languages.filter(language => !languageKeys[language]);
+
+    const weaponItems = weaponNames.map(name => {
+        const weapon = weapons[name];
+        const ability = weaponAbility(weapon, stats.abilityScores);
+        const range = weapon.ranged ? parseRange(weapon.ranged) : weapon.thrown ? parseRange(weapon.thrown) : { value: 5, long: null, units: 'ft' };
+        return {
+            name,
+            type: 'weapon',
+            img: 'icons/svg/sword.svg',
+            system: {
+                description: { value: paragraph(stats.actions.find(action => action.name === name)?.description ?? '') },
+                quantity: 1,
+                equipped: true,
+                proficient: true,
+                weaponType: `${martialWeapons.has(name) ? 'martial' : 'simple'}${weapon.ranged ? 'R' : 'M'}`,
+                ability,
+                actionType: weapon.ranged ? 'rwak' : 'mwak',
+                activation: { type: 'action', cost: 1 },
+                target: { value: 1, type: 'creature' },
+                range,
+                damage: {
+                    parts: [[`${stats.damageDice}d${weapon.die} + @mod`, weapon.damageType]],
+                    versatile: weapon.versatile ? `${stats.damageDice}d${weapon.versatile} + @mod` : '',
+                },
+                properties: { fin: !!weapon.finesse, thr: !!weapon.thrown, ver: !!weapon.versatile, amm: !!weapon.ranged },
+            },
+        };
+    });
+
+    const features = (stats.traits ?? []).map(trait => featItem(trait.name, trait.description));
+    const multiattack = stats.actions.find(action => action.name === 'Multiattack');
+    if (multiattack) {
+        features.push(featItem(multiattack.name, multiattack.description, 'action'));
+    }
+
+    const loot = npc.alsoCarrying.map(item => ({
+        name: item,
+        type: 'loot',
+        img: 'icons/svg/item-bag.svg',
+        system: { quantity: 1 },
+    }));
+
+    return {
+        name: npc.name,
+        type: 'npc',
+        img: 'icons/svg/mystery-man.svg',
+        system: {
+            abilities: Object.fromEntries(abilities.map(a => [a, { value: stats.abilityScores[a], proficient: saves.has(a) ? 1 : 0 }])) as Record<Ability, { value: number; proficient: number }>,
+            attributes: {
+                ac: { flat: stats.armorClass, calc: 'flat' },
+                hp: { value: stats.hitPointMaximum, max: stats.hitPointMaximum, formula: stats.hitDiceFormula },
+                movement: { walk: race.speed, burrow: 0, climb: 0, fly: 0, swim: 0, units: 'ft', hover: false },
+                senses: { darkvision: race.darkvision, blindsight: 0, tremorsense: 0, truesight: 0, units: 'ft', special: '' },
+            },
+            details: {
+                biography: { value: buildBiography(npc, profile, options.imageUrl), public: '' },
+                alignment: profile?.alignment ?? '',
+                race: npc.race,
+                type: { value: 'humanoid', subtype: npc.race.toLowerCase(), custom: '' },
+                cr: stats.challengeValue,
+            },
+            traits: {
+                size: sizeKeys[race.size] ?? 'med',
+                languages: { value: languages, custom: customLanguages.join('; ') },
+            },
+            skills: Object.fromEntries([...skills].filter(skill => skillKeys[skill]).map(skill => [skillKeys[skill], { value: 1, ability: skillAbilities[skill] }])),
+            currency: { pp: 0, gp: npc.gold, ep: 0, sp: npc.silver, cp: npc.copper },
+        },
+        items: [...weaponItems, ...features, ...loot],
+        prototypeToken: {
+            name: npc.name,
+            texture: { src: 'icons/svg/mystery-man.svg' },
+        },
+        flags: {
+            'npc-dna': { dna: options.dnaCode ?? null, seed: options.seed ?? null },
+        },
+    };
+};
+
+/** Named the way Foundry names its own actor exports. */
+export const foundryFileName = (npc: Npc) => `fvtt-Actor-${npc.name.replace(/\s+/g, '_')}.json`;
@@ -0,0 +1,128 @@
+// services/gameSystems.ts
+
+import { buildStatBlock, challengeTiers, type StatBlockEntry } from './statBlock';
+import { buildPf2eStatSheet, pf2eLevels } from './pf2eStatBlock';
+import { buildOsrStatSheet, osrHitDice } from './osrStatBlock';
+import type { TraitAdjustment } from './traitMechanics';
+import type { DecodedDna } from './dnaDecoder';
+import type { Npc } from '../types';
+
+export type GameSystemId = 'dnd5e' | 'pf2e' | 'osr';
+
+/**
+ * A stat block in a shape every system can fill: labelled lines grouped between rules, an
+ * optional row of ability scores, then traits and actions.
+ */
+export interface StatSheet {
+    /** e.g. "Medium humanoid (dwarf)" or "Creature 3 · Medium · Humanoid · Dwarf". */
+    subtitle: string;
+    sections: { label: string; value: string }[][];
+    abilities: { label: string; value: string }[];
+    traits: StatBlockEntry[];
+    actionsTitle: string;
+    actions: StatBlockEntry[];
+    hitPointMaximum: number;
+    /** How the sheet rates against the system's own guidelines, shown beside the target picker. */
+    note?: string;
+    adjustments: TraitAdjustment[];
+}
+
+export interface StatSheetOptions {
+    /** A value from the system's `targets`, e.g. a challenge rating or creature level. */
+    target?: string;
+    dna?: DecodedDna | null;
+}
+
+export interface GameSystem {
+    id: GameSystemId;
+    label: string;
+    /** What the power picker chooses, e.g. "Target challenge". */
+    targetLabel: string;
+    /** Label of the picker's "no target" choice. */
+    defaultTargetLabel: string;
+    targets: { label: string; options: { value: string; label: string }[] }[];
+    build: (npc: Npc, options?: StatSheetOptions) => StatSheet;
+}
+
+const build5eStatSheet = (npc: Npc, options: StatSheetOptions = {}): StatSheet => {
+    const stats = buildStatBlock(npc, { targetCr: options.target, dna: options.dna });
+    const labels = { str: 'STR', dex: 'DEX', con: 'CON', int: 'INT', wis: 'WIS', cha: 'CHA' };
+    return {
+        subtitle: stats.sizeAndType,
+        sections: [
+            [
+                { label: 'Armor Class', value: String(stats.armorClass) },
+                { label: 'Hit Points', value: stats.hitPoints },
+                { label: 'Speed', value: stats.speed },
+            ],
+            [
+                { label: 'Saving Throws', value: stats.savingThrows },
+                { label: 'Skills', value: stats.skills },
+                { label: 'Senses', value: stats.senses },
+                { label: 'Languages', value: stats.languages },
+                { label: 'Challenge', value: `${stats.challenge}, Proficiency Bonus +${stats.proficiencyBonus}` },
+            ].filter(line => line.value),
+        ],
+        abilities: (Object.keys(labels) as (keyof typeof labels)[]).map(a => ({ label: labels[a], value: `${stats.abilityScores[a]} (${stats.abilityMods[a]})` })),
+        traits: stats.traits ?? [],
+        actionsTitle: 'Actions',
+        actions: stats.actions,
+        hitPointMaximum: stats.hitPointMaximum,
+        note: stats.missedTarget
+            ? `CR ${stats.missedTarget} is out of reach with this NPC's armor and weapons; the closest fit rates CR ${stats.challenge.split(' ')[0]}`
+            : `Defensive CR ${stats.challengeBreakdown.defensive}, offensive CR ${stats.challengeBreakdown.offensive}`,
+        adjustments: stats.adjustments,
+    };
+};
+
+export const gameSystems: GameSystem[] = [
+    {
+        id: 'dnd5e',
+        label: 'D&D 5e',
+        targetLabel: 'Target challenge',
+        defaultTargetLabel: 'As their profession',
+        targets: challengeTiers.map(tier => ({ label: tier.label, options: tier.crs.map(cr => ({ value: cr, label: `CR ${cr}` })) })),
+        build: build5eStatSheet,
+    },
+    {
+        id: 'pf2e',
+        label: 'Pathfinder 2e',
+        targetLabel: 'Creature level',
+        defaultTargetLabel: 'As their profession',
+        targets: [{ label: 'Level', options: pf2eLevels.map(level => ({ value: String(level), label: `Creature ${level}` })) }],
+        build: buildPf2eStatSheet,
+    },
+    {
+        id: 'osr',
+        label: 'OSR (B/X)',
+        targetLabel: 'Hit Dice',
+        defaultTargetLabel: 'As their profession',
+        targets: [{ label: 'Hit Dice', options: osrHitDice.map(hd => ({ value: hd, label: `HD ${hd}` })) }],
+        build: buildOsrStatSheet,
+    },
+];
+
+export const DEFAULT_GAME_SYSTEM: GameSystemId = 'dnd5e';
+
+export const getGameSystem = (id: string): GameSystem =>
+    gameSystems.find(system => system.id === id) ?? gameSystems.find(system => system.id === DEFAULT_GAME_SYSTEM)!;
+
+const GAME_SYSTEM_STORAGE_KEY = 'npc-dna.game-system';
+
+/** The system last picked on the Stats tab. */
+export const loadGameSystemId = (): GameSystemId => {
+    try {
+        return getGameSystem(localStorage.getItem(GAME_SYSTEM_STORAGE_KEY) ?? '').id;
+    } catch (error) {
+        console.warn("Could not read the saved game system, using the default.", error);
+        return DEFAULT_GAME_SYSTEM;
+    }
+};
+
+export const saveGameSystemId = (id: GameSystemId): void => {
+    try {
+        localStorage.setItem(GAME_SYSTEM_STORAGE_KEY, id);
+    } catch (error) {
+        console.warn("Could not save the game system.", error);
+    }
+};
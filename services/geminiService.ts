@@ -1,15 +1,31 @@
 
-import { GoogleGenAI, Modality } from "@google/genai";
-import type { Npc } from '../types';
-import { raceDescriptions } from '../data/npcData';
+import type { CampaignContext, Npc, NpcProfile, NpcRelationship, SavedNpc } from '../types';
+import { npcProfileSchema, parseNpcProfile } from './profileParser';
+import { parseRelationshipWeb, relationshipKey, relationshipWebSchema } from './relationshipWeb';
+import { decodeDna } from './dnaDecoder';
+import { getNpcTables } from './dataPacks';
+import { estimateAgeInYears } from '../data/races';
+import { createAiProvider, loadAiSettings, saveAiSettings, type AiProvider, type AiSettings } from './aiProviders';
 
 const API_KEY = process.env.API_KEY;
 
 if (!API_KEY) {
-  console.warn("API_KEY environment variable not set. AI features will be disabled.");
+  console.warn("API_KEY environment variable not set. Gemini will be unavailable unless a key is entered in the AI settings.");
 }
 
-const ai = API_KEY ? new GoogleGenAI({ apiKey: API_KEY }) : null;
+// The active provider is chosen at runtime from the saved AI settings.
+let aiSettings = loadAiSettings();
+let ai: AiProvider | null = createAiProvider(aiSettings, API_KEY);
+
+export const getAiSettings = (): AiSettings => aiSettings;
+
+export const setAiSettings = (settings: AiSettings): void => {
+  aiSettings = settings;
+  ai = createAiProvider(settings, API_KEY);
+  saveAiSettings(settings);
+};
+
+export const isAiConfigured = (): boolean => ai !== null;
 
 const systemInstruction = `You are the **NPC Decoding AI**, performing your duties with the insight of a **Master Storyteller** and the precision of a **Game Designer**. You will receive a "Personality DNA Code." Your goal is to decode this DNA into a **rich, emotionally resonant, and narratively integrated** character profile formatted as a system-agnostic TTRPG character sheet.
 
@@ -25,6 +41,10 @@ const systemInstruction = `You are the **NPC Decoding AI**, performing your duti
 
 Use the following internal logic to interpret the DNA. This logic must not appear in the final profile.
 
+**0. ENVELOPE**
+
+* Codes may start with a version prefix such as \`DNA1:\` and end with a checksum such as \`#1A2B\`. Ignore both.
+
 **1. ALIGNMENT AVERAGES (LNC / GNE)**
 
 * LNC (1–9): 9–7 = Lawful, 6–4 = Neutral, 3–1 = Chaotic
@@ -65,96 +85,49 @@ Use the following internal logic to interpret the DNA. This logic must not appea
 
 ---
 
-## 🧬 STRUCTURED OUTPUT FORMAT: NPC PROFILE
-
----
-
-### **[NPC Name]**
-
-**Role:** [NPC Role]
-**Alignment:** [Lawful/Neutral/Chaotic] [Good/Neutral/Evil]
-
-| **Narrative Essence**                          | **Archetype**              |
-| :--------------------------------------------- | :------------------------- |
-| "[A poetic metaphor capturing their essence]" | [The character archetype] |
-
----
-
-### **Profile**
-
-**Appearance & Presence**
-
-* Describe physical features and how they express emotion, status, or strangeness.
-* Include at least one **non-visual sensory detail** (sound, smell, movement).
-
-**Personality & Internal Conflict**
-
-* Blend decoded traits into a consistent voice and persona.
-* Highlight a contradiction that leads to misbehavior or heartbreak.
-* Include one **signature behavior or quirk** with a narrative origin.
-* Establish a **vulnerability** the party might trigger or resolve.
-
-**Backstory**
-
-* Describe how they came to be this way—emotionally, morally, or socially.
-* Include a **turning point** or past mistake tied to their current beliefs.
-* Tie backstory to **current conflicts or factions** if context is provided.
-
----
-
-### **Behavioral Model (BDI)**
-
-| **Beliefs (Core Philosophies)**                                          | **Desires (Driving Wants)**                                                                    | **Intentions (Near-Term Plans)**                                                                          |
-| :----------------------------------------------------------------------- | :--------------------------------------------------------------------------------------------- | :-------------------------------------------------------------------------------------------------------- |
-| • "[Belief 1 in personal voice]" <br> • "[Belief 2 showing worldview]" | • "[Personal or narrative-driven desire]" <br> • "[Desire linked to internal contradiction]" | • "[Short-term action based on desires]" <br> • "[Plan that could intersect with the party or setting]" |
-
----
-
-### **Gamemaster’s Toolkit**
-
-**Strengths & Weaknesses**
-
-* * Strengths derived from their dominant traits or worldview
-* – Weaknesses or blind spots that create roleplay tension
-
-**Secrets**
-
-* 1–2 hidden truths about the NPC that influence trust or power
-* Can be personal, magical, emotional, or factional
-
-**Significant Relationships**
-
-* List 1–3 allies, enemies, or emotionally charged connections
-
-**Notable Possessions**
-
-* Describe 1–2 key items with narrative importance or strange function
-
-**Roleplaying Cues**
-
-* **Communication Style:** Speech quirks, metaphors, rhythms, or tone
-* **Core Vulnerability:** What threatens their identity or stability?
-* **System-Agnostic Mechanical Note:** Suggest a light mechanical rule or effect to reflect their personality in play
-
----
-
-### **Example Interaction**
-
-*A mini scene showcasing their personality and inner struggle. Include dialogue, tone, and reaction to tension.*
-
----
-
-### **Adventure Hooks**
-
-* **[Hook Title 1]:** [A scenario connected to their flaw, secret, or quest]
-* **[Hook Title 2]:** [A conflict with local factions, politics, or players]
-* **[Hook Title 3]:** [A problem that only laughter, violence, or empathy can solve]
+## 🧬 STRUCTURED OUTPUT FORMAT: NPC PROFILE (JSON)
+
+Respond with a **single JSON object** matching the provided schema. Do not wrap it in markdown or add commentary. Plain text inside fields; no markdown tables or headings.
+
+* **name, role, alignment:** The NPC's name, their role in the story, and their alignment (e.g. "Lawful Evil").
+* **narrativeEssence:** A poetic metaphor capturing their essence.
+* **archetype:** The character archetype.
+* **appearance:** Physical features and how they express emotion, status, or strangeness. Include at least one **non-visual sensory detail** (sound, smell, movement).
+* **personality:** Blend decoded traits into a consistent voice and persona. Highlight a contradiction that leads to misbehavior or heartbreak, one **signature behavior or quirk** with a narrative origin, and a **vulnerability** the party might trigger or resolve.
+* **backstory:** How they came to be this way—emotionally, morally, or socially. Include a **turning point** or past mistake tied to their current beliefs, and tie it to **current conflicts or factions** if context is provided.
+* **bdi.beliefs:** Core philosophies, written in their personal voice.
+* **bdi.desires:** Driving wants, including one linked to their internal contradiction.
+* **bdi.intentions:** Near-term plans, including one that could intersect with the party or setting.
+* **strengths / weaknesses:** Strengths derived from their dominant traits or worldview; weaknesses or blind spots that create roleplay tension.
+* **secrets:** 1–2 hidden truths that influence trust or power. Can be personal, magical, emotional, or factional.
+* **relationships:** 1–3 allies, enemies, or emotionally charged connections.
+* **possessions:** 1–2 key items with narrative importance or strange function.
+* **roleplayingCues:** Communication style (speech quirks, metaphors, rhythms, tone), core vulnerability (what threatens their identity or stability), and a light system-agnostic mechanical note reflecting their personality in play.
+* **exampleInteraction:** A mini scene showcasing their personality and inner struggle, with dialogue, tone, and reaction to tension.
+* **hooks:** Three adventure hooks: one connected to their flaw, secret, or quest; one a conflict with local factions, politics, or players; one a problem that only laughter, violence, or empathy can solve.
 `;
 
 
-export const decodeDnaProfile = async (dna: string, npcContext: Npc): Promise<string> => {
+// Renders the campaign setting for the prompt, leaving out anything the GM has not filled in.
+const formatCampaignContext = (campaign: CampaignContext): string => {
+    const lines = [
+        `- **Campaign:** ${campaign.name}`,
+        campaign.worldName && `- **World:** ${campaign.worldName}`,
+        campaign.region && `- **Region:** ${campaign.region}`,
+        campaign.tone && `- **Tone:** ${campaign.tone}`,
+        campaign.factions.length > 0 && `- **Factions:**\n${campaign.factions.map(f => `    - ${f.name}${f.description ? `: ${f.description}` : ''}`).join('\n')}`,
+        campaign.conflicts.length > 0 && `- **Current Conflicts:**\n${campaign.conflicts.map(c => `    - ${c}`).join('\n')}`,
+    ];
+    return lines.filter(Boolean).join('\n');
+};
+
+/**
+ * Writes the profile for an NPC. When a campaign is given, its setting is included so the
+ * backstory, relationships and hooks are tied to that world rather than a generic one.
+ */
+export const decodeDnaProfile = async (dna: string, npcContext: Npc, campaign?: CampaignContext | null): Promise<NpcProfile> => {
     if (!ai) {
-        throw new Error("API Key not configured. AI features are unavailable.");
+        throw new Error("No AI provider is configured. AI features are unavailable.");
     }
     try {
         const prompt = `
@@ -169,62 +142,103 @@ export const decodeDnaProfile = async (dna: string, npcContext: Npc): Promise<st
             - **Gender:** ${npcContext.gender}
             - **Profession:** ${npcContext.profession.trim()}
             - **Physical Details:** ${npcContext.age}, ${npcContext.height}, ${npcContext.weight} build, ${npcContext.complexion} skin, ${npcContext.hairStyle} ${npcContext.hairColor}, ${npcContext.eyeShape} ${npcContext.eyeColor}, ${npcContext.descriptor}.
-        `;
-
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-pro', // Using a more powerful model for this complex task
-            contents: prompt,
-            config: {
-                systemInstruction: systemInstruction,
-            },
+        ` + (campaign ? `
+            **Campaign Setting (Tie the backstory, relationships, secrets and hooks to this world and its factions):**
+${formatCampaignContext(campaign)}
+        ` : '');
+
+        const response = await ai.generateText({
+            model: aiSettings.textModel,
+            systemInstruction: systemInstruction,
+            prompt,
+            responseSchema: npcProfileSchema,
         });
 
-        return response.text;
+        return parseNpcProfile(response);
 
     } catch (error) {
         console.error("Error decoding DNA profile with AI:", error);
-        throw new Error("The AI failed to generate a profile. This could be a temporary issue or a problem with the API key. Please try again.");
+        throw new Error("The AI failed to generate a profile. This could be a temporary issue or a problem with the AI provider settings. Please try again.");
+    }
+};
+
+const relationshipWebInstruction = `You are a Game Master weaving the cast of a tabletop RPG campaign into a web of relationships.
+You will receive several NPCs, each with a key (N1, N2, ...). Create links between them using only these types:
+rival, debtor (owes the other NPC money or a favor), lover, sibling, blackmailer (holds a secret over the other NPC), ally.
+
+- A link is directed: "from" is the NPC the link describes, "to" is the other NPC.
+- Use the NPCs' secrets, wants and temperaments; a secret is the best reason for blackmail or debt.
+- Siblings must be plausible (compatible races, shared family name or a reason they differ). Add the reverse sibling link too.
+- Aim for one to three links per NPC; every NPC should be connected to at least one other.
+- Refer to NPCs only by their keys. Answer with JSON only.`;
+
+// One NPC as the relationship prompt sees it: identity, drives, secrets and alignment.
+const describeForWeb = (record: SavedNpc, index: number): string => {
+    const { npc, profile } = record;
+    const alignment = decodeDna(record.dna)?.alignment;
+    const secrets = typeof profile === 'string' ? [] : profile.secrets;
+    return [
+        `**${relationshipKey(index)}: ${npc.name}**, ${npc.gender} ${npc.race}, ${npc.profession.trim()}`,
+        alignment && `- Alignment: ${alignment.lnc} ${alignment.gne}`,
+        `- Demeanor: ${npc.demeanor.trim()}`,
+        `- Currently ${npc.wantsOrNeed.trim()}; ${npc.secretOrObstacle.trim()}`,
+        secrets.length > 0 && `- Secrets: ${secrets.join(' ')}`,
+    ].filter(Boolean).join('\n');
+};
+
+/**
+ * Asks the model for typed links (rival, debtor, lover, ...) between saved NPCs. The links refer
+ * to the records' ids.
+ */
+export const generateRelationshipWeb = async (records: SavedNpc[], campaign?: CampaignContext | null): Promise<NpcRelationship[]> => {
+    if (!ai) {
+        throw new Error("No AI provider is configured. AI features are unavailable.");
+    }
+    if (records.length < 2) {
+        throw new Error("A relationship web needs at least two NPCs.");
+    }
+    try {
+        const prompt = `Connect these NPCs:\n\n${records.map(describeForWeb).join('\n\n')}`
+            + (campaign ? `\n\n**Campaign Setting:**\n${formatCampaignContext(campaign)}` : '');
+
+        const response = await ai.generateText({
+            model: aiSettings.textModel,
+            systemInstruction: relationshipWebInstruction,
+            prompt,
+            responseSchema: relationshipWebSchema,
+        });
+
+        return parseRelationshipWeb(response, records);
+    } catch (error) {
+        console.error("Error generating relationship web with AI:", error);
+        throw new Error("The AI failed to generate the relationship web. Please try again.");
     }
 };
 
 export const generateNpcImage = async (npc: Npc): Promise<string> => {
   if (!ai) {
-    throw new Error("API Key not configured. Image generation is unavailable.");
+    throw new Error("No AI provider is configured. Image generation is unavailable.");
   }
   try {
     const facialHairDesc = npc.facialHair !== "." ? `They have ${npc.facialHair.replace(' and', '').trim()}` : '';
-    const raceDescription = raceDescriptions[npc.race] || "A fantasy character.";
+    const raceDescription = getNpcTables().raceDescriptions[npc.race] || "A fantasy character.";
+    const years = estimateAgeInYears(npc.race, npc.age);
+    const ageDesc = years !== null ? `They are about ${years} years old.` : '';
 
     const prompt = `
       Fantasy character portrait of a ${npc.age} ${npc.gender} Dungeons & Dragons style ${npc.race} ${npc.profession.trim()}.
       
       **Racial characteristics for a ${npc.race}:** ${raceDescription}
       
-      **Specific appearance details:** ${npc.complexion.trim()} skin, ${npc.hairStyle} ${npc.hairColor}, ${npc.eyeShape} ${npc.eyeColor}. ${facialHairDesc} ${npc.descriptor}.
+      **Specific appearance details:** ${npc.complexion.trim()} skin, ${npc.hairStyle} ${npc.hairColor}, ${npc.eyeShape} ${npc.eyeColor}. ${ageDesc} ${facialHairDesc} ${npc.descriptor}.
       
       Style: digital painting, detailed, fantasy, character concept art, high quality.
     `;
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [{ text: prompt }],
-      },
-      config: {
-          responseModalities: [Modality.IMAGE],
-      },
+    return await ai.generateImage({
+      model: aiSettings.imageModel,
+      prompt,
     });
-
-    const candidate = response.candidates?.[0];
-    const parts = candidate?.content?.parts ?? [];
-
-    for (const part of parts) {
-      if (part.inlineData?.data) {
-        return part.inlineData.data;
-      }
-    }
-
-    throw new Error("The AI service did not return an image. Please try generating again.");
   } catch (error) {
     console.error("Error generating NPC image with AI:", error);
     throw new Error("The AI failed to generate an image. This could be a temporary issue. Please try again.");
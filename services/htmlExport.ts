@@ -0,0 +1,173 @@
+// services/htmlExport.ts
+
+export interface StandaloneHtmlOptions {
+    title: string;
+}
+
+// State and pseudo-element parts of a selector. They never match a static element, so they are
+// dropped before asking whether the rest of the selector matches anything.
+const dynamicPseudo = /::?(?:hover|focus-visible|focus-within|focus|active|visited|disabled|checked|before|after|placeholder|backdrop|marker|selection|file-selector-button|-webkit-[a-z-]+|-moz-[a-z-]+)(?![\w-])/g;
+
+const isSelectorUsed = (doc: Document, selectorText: string): boolean =>
+    selectorText.split(',').some(selector => {
+        const base = selector.replace(dynamicPseudo, '').trim();
+        // Nothing left, or a dangling combinator: the rule styles pseudo-elements of everything.
+        if (!base || /[>+~]$/.test(base)) return true;
+        try {
+            return doc.querySelector(base) !== null;
+        } catch {
+            // A selector this browser cannot query is kept rather than risk losing a style.
+            return true;
+        }
+    });
+
+const keptRuleText = (doc: Document, rule: CSSRule, keyframes: CSSKeyframesRule[]): string => {
+    if (rule instanceof CSSStyleRule) {
+        return isSelectorUsed(doc, rule.selectorText) ? rule.cssText : '';
+    }
+    if (rule instanceof CSSMediaRule || rule instanceof CSSSupportsRule) {
+        const inner = Array.from(rule.cssRules).map(child => keptRuleText(doc, child, keyframes)).join('\n');
+        const keyword = rule instanceof CSSMediaRule ? '@media' : '@supports';
+        return inner ? `${keyword} ${rule.conditionText} {\n${inner}\n}` : '';
+    }
+    if (rule instanceof CSSKeyframesRule) {
+        // Only kept if a kept rule animates with it, which is known once every rule has been seen.
+        keyframes.push(rule);
+        return '';
+    }
+    return rule.cssText;
+};
+
+/**
+ * Collects the rules from the page's stylesheets that style something inside `root`, so the
+ * export carries the few kilobytes of Tailwind it uses instead of loading the CDN.
+ */
+export const collectUsedCss = (root: HTMLElement): string => {
+    // Matching inside a document of its own lets rules for html and body match too.
+    const doc = document.implementation.createHTMLDocument('');
+    doc.body.appendChild(doc.importNode(root, true));
+
+    const keyframes: CSSKeyframesRule[] = [];
+    const kept: string[] = [];
+    for (const sheet of Array.from(document.styleSheets)) {
+        let rules: CSSRuleList;
+        try {
+            rules = sheet.cssRules;
+        } catch (error) {
+            console.warn("Could not read a stylesheet for the export, its styles will be missing.", error);
+            continue;
+        }
+        for (const rule of Array.from(rules)) {
+            const text = keptRuleText(doc, rule, keyframes);
+            if (text) kept.push(text);
+        }
+    }
+
+    const css = kept.join('\n');
+    const animations = keyframes.filter(rule => css.includes(rule.name)).map(rule => rule.cssText);
+    return [css, ...animations].join('\n');
+};
+
+const blobToDataUri = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+// Images that point at a URL are fetched and embedded, so the file has no outside references.
+const inlineImages = async (root: HTMLElement) => {
+    const images = Array.from(root.querySelectorAll('img')).filter(img => img.src && !img.src.startsWith('data:'));
+    await Promise.all(images.map(async img => {
+        try {
+            const response = await fetch(img.src);
+            img.src = await blobToDataUri(await response.blob());
+        } catch (error) {
+            console.warn(`Could not embed the image ${img.src} in the export.`, error);
+        }
+    }));
+};
+
+// Every panel is shown and the tab bar hidden when printed; the layout collapses to one column.
+const printCss = `
+@media print {
+  @page { margin: 1.5cm; }
+  body { background: #fff !important; padding: 0 !important; display: block !important; }
+  body > * { box-shadow: none !important; backdrop-filter: none !important; max-width: none !important; }
+  [aria-label="Tabs"] { display: none !important; }
+  [role="tabpanel"], [role="tabpanel"][hidden] { display: block !important; break-inside: auto; }
+  [role="tabpanel"] + [role="tabpanel"] { margin-top: 1.5rem; }
+  img { break-inside: avoid; }
+}`;
+
+// Wires the tabs up again; the active tab's classes are copied from whichever tab was active
+// when the card was exported, so the script needs no knowledge of the styling.
+const tabScript = `
+(() => {
+  const tabs = Array.from(document.querySelectorAll('[role="tab"]'));
+  const activeTab = tabs.find(tab => tab.getAttribute('aria-selected') === 'true') ?? tabs[0];
+  const inactiveTab = tabs.find(tab => tab !== activeTab);
+  if (!activeTab) return;
+  const activeClass = activeTab.className;
+  const inactiveClass = inactiveTab ? inactiveTab.className : activeClass;
+
+  const select = (selected) => {
+    for (const tab of tabs) {
+      const isSelected = tab === selected;
+      tab.setAttribute('aria-selected', String(isSelected));
+      tab.className = isSelected ? activeClass : inactiveClass;
+      const panel = document.getElementById(tab.getAttribute('aria-controls'));
+      if (panel) panel.hidden = !isSelected;
+    }
+  };
+
+  tabs.forEach(tab => tab.addEventListener('click', () => select(tab)));
+  select(activeTab);
+})();`;
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const faviconSvg = `<svg xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="#f59e0b" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M12 2L2 8.5V15.5L12 22L22 15.5V8.5L12 2Z"></path><line x1="2" y1="8.5" x2="12" y2="12"></line><line x1="22" y1="8.5" x2="12" y2="12"></line><line x1="12" y1="2" x2="12" y2="12"></line><line x1="12" y1="22" x2="12" y2="12"></line><line x1="2" y1="15.5" x2="12" y2="12"></line><line x1="22" y1="15.5" x2="12" y2="12"></line></svg>`;
+
+/**
+ * Renders a card to a standalone HTML page that works offline: interactive-only controls
+ * (marked `data-download-remove`) are stripped, images are embedded as data URIs, only the CSS the
+ * card uses is inlined, and printing shows every tab one after the other.
+ */
+export const buildStandaloneHtml = async (card: HTMLElement, { title }: StandaloneHtmlOptions): Promise<string> => {
+    const clone = card.cloneNode(true) as HTMLElement;
+    clone.querySelectorAll('[data-download-remove="true"]').forEach(element => element.remove());
+    await inlineImages(clone);
+
+    const css = collectUsedCss(clone);
+    const favicon = `data:image/svg+xml,${encodeURIComponent(faviconSvg)}`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(title)}</title>
+<link rel="icon" href="${favicon}">
+<style>
+${css}
+body {
+  background-color: #0f172a;
+  display: flex;
+  justify-content: center;
+  align-items: flex-start;
+  padding: 2rem;
+  min-height: 100vh;
+  font-family: sans-serif;
+}
+${printCss}
+</style>
+</head>
+<body>
+${clone.outerHTML}
+<script>${tabScript}</script>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,155 @@
+// services/inheritance.ts
+
+import { raceRegistry } from '../data/races';
+import { getNpcTables } from './dataPacks';
+import { decodeDna, encodeDna, type DecodedDna, type EncodableDna } from './dnaDecoder';
+import { generatePersonalityDna } from './dnaGenerator';
+import { generateNpc } from './npcGenerator';
+import { createRng, randomInt, randomItem, type Rng } from './random';
+import type { Npc, NpcGenerationOptions } from '../types';
+
+export const DEFAULT_MUTATION_RATE = 0.1;
+
+export type Relation = 'offspring' | 'sibling';
+
+/** An NPC with the DNA it was decoded from. */
+export interface Parent {
+    npc: Npc;
+    dna: string;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const shift = (rng: Rng) => (randomInt(rng, 0, 1) === 0 ? -1 : 1) * randomInt(rng, 1, 2);
+
+const decodeParent = (dna: string, label: string): DecodedDna => {
+    const decoded = decodeDna(dna);
+    if (!decoded) {
+        throw new Error(`The DNA of ${label} could not be decoded.`);
+    }
+    return decoded;
+};
+
+/**
+ * Combines two DNA codes gene by gene: each paired and unpaired trait is inherited whole from one
+ * parent or the other, then mutates with probability `mutationRate`. A mutated paired trait flips
+ * side, drifts in LNC score or drifts in intensity; a mutated unpaired trait drifts in score.
+ */
+export const crossoverDna = (rng: Rng, dnaA: string, dnaB: string, mutationRate = DEFAULT_MUTATION_RATE): string => {
+    const a = decodeParent(dnaA, 'the first parent');
+    const b = decodeParent(dnaB, 'the second parent');
+    const inherit = <T,>(fromA: T, fromB: T): T => rng() < 0.5 ? fromA : fromB;
+
+    const pairedTraits: EncodableDna['pairedTraits'] = a.pairedTraits.map((traitA, i) => {
+        let { name, score, intensity } = inherit(traitA, b.pairedTraits[i]);
+        if (rng() < mutationRate) {
+            const [name1, name2] = traitA.pair.split(' / ');
+            switch (randomInt(rng, 0, 2)) {
+                case 0: name = name === name1 ? name2 : name1; break;
+                case 1: score = clamp(score + shift(rng), 1, 9); break;
+                default: intensity = clamp(intensity + shift(rng), 1, 5);
+            }
+        }
+        return { name, score, intensity };
+    });
+
+    // Unpaired traits are matched by name, since a legacy code may list them in another order.
+    const unpairedTraits: EncodableDna['unpairedTraits'] = a.unpairedTraits.map(traitA => {
+        const traitB = b.unpairedTraits.find(t => t.name === traitA.name) ?? traitA;
+        let { score } = inherit(traitA, traitB);
+        if (rng() < mutationRate) {
+            score = clamp(score + shift(rng), 1, 9);
+        }
+        return { name: traitA.name, score };
+    });
+
+    return encodeDna({ pairedTraits, unpairedTraits });
+};
+
+// Which races two parents can have children of, keyed by the parents' races in alphabetical order.
+// Parents of the same race always have children of that race.
+const raceInheritance: Record<string, string[]> = Object.fromEntries(
+    raceRegistry.flatMap(race => Object.entries(race.offspring)
+        .map(([partner, children]) => [[race.name, partner].sort().join('+'), children])),
+);
+
+/** The races a child of these two parents can be. Empty when the races cannot interbreed. */
+export const getChildRaces = (raceA: string, raceB: string): string[] => {
+    if (raceA === raceB) return [raceA];
+    return raceInheritance[[raceA, raceB].sort().join('+')] ?? [];
+};
+
+const lastNameOf = (npc: Npc): string => npc.name.split(' ').slice(1).join(' ');
+
+// Age bands from youngest to oldest, as listed in the active ages table.
+const uniqueAges = (): string[] => Array.from(new Set(getNpcTables().ages));
+
+// An NPC rolled before a data pack changed the ages table, or imported, can have a band it lacks.
+const ageIndex = (npc: Npc): number => {
+    const index = uniqueAges().indexOf(npc.age);
+    if (index === -1) {
+        throw new Error(`${npc.name}'s age band "${npc.age}" is not in the ages table.`);
+    }
+    return index;
+};
+
+/**
+ * Rolls a child of two NPCs: its DNA is a crossover of theirs, its race one the parents can have,
+ * its family name taken from a parent (preferring one of the child's own race), and it is at
+ * least two age bands younger than the younger parent. Throws if the races cannot interbreed, a
+ * parent's age band is not in the ages table, or the younger parent is too young for any band to fit.
+ */
+export const breedOffspring = (
+    seed: string,
+    parentA: Parent,
+    parentB: Parent,
+    mutationRate = DEFAULT_MUTATION_RATE,
+    options: NpcGenerationOptions = {},
+): Parent => {
+    const rng = createRng(seed, 'inheritance');
+    const childRaces = getChildRaces(parentA.npc.race, parentB.npc.race);
+    if (childRaces.length === 0) {
+        throw new Error(`A ${parentA.npc.race} and a ${parentB.npc.race} cannot have children together.`);
+    }
+    const race = randomItem(rng, childRaces);
+    const sameRaceParents = [parentA, parentB].filter(p => p.npc.race === race);
+    const familyParent = randomItem(rng, sameRaceParents.length > 0 ? sameRaceParents : [parentA, parentB]);
+
+    const youngerParent = ageIndex(parentA.npc) <= ageIndex(parentB.npc) ? parentA : parentB;
+    const childAges = uniqueAges().slice(0, Math.max(0, ageIndex(youngerParent.npc) - 1));
+    if (childAges.length === 0) {
+        throw new Error(`${youngerParent.npc.name} is too young to have children.`);
+    }
+
+    const npc = generateNpc(createRng(seed, 'npc'), {
+        ...options,
+        race,
+        age: childAges,
+        lastName: lastNameOf(familyParent.npc),
+    });
+    const dna = crossoverDna(createRng(seed, 'dna'), parentA.dna, parentB.dna, mutationRate);
+    return { npc, dna };
+};
+
+/**
+ * Rolls a sibling of an NPC: same race and family name, an age band at most one away, and DNA
+ * that shares roughly half its genes with the NPC, the other half coming from the unknown parent.
+ * Throws if the NPC's age band is not in the ages table.
+ */
+export const rollSibling = (
+    seed: string,
+    sibling: Parent,
+    mutationRate = DEFAULT_MUTATION_RATE,
+    options: NpcGenerationOptions = {},
+): Parent => {
+    const index = ageIndex(sibling.npc);
+    const npc = generateNpc(createRng(seed, 'npc'), {
+        ...options,
+        race: sibling.npc.race,
+        age: uniqueAges().slice(Math.max(0, index - 1), index + 2),
+        lastName: lastNameOf(sibling.npc),
+    });
+    const otherHalf = generatePersonalityDna(createRng(seed, 'dna'));
+    const dna = crossoverDna(createRng(seed, 'inheritance'), sibling.dna, otherHalf, mutationRate);
+    return { npc, dna };
+};
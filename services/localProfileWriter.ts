@@ -0,0 +1,224 @@
+// services/localProfileWriter.ts
+
+import type { Npc, NpcProfile } from '../types';
+import type { DecodedDna } from './dnaDecoder';
+
+type PairedTrait = DecodedDna['pairedTraits'][number];
+type UnpairedTrait = DecodedDna['unpairedTraits'][number];
+
+// How each paired trait shows up in behavior, and a sensory tell that betrays it.
+const pairedTraitPhrases: { [name: string]: { behavior: string; tell: string } } = {
+    'Brave': { behavior: 'steps toward danger before anyone else has finished flinching', tell: 'a steady, unhurried stride even when the room goes quiet' },
+    'Cowardly': { behavior: 'always knows where the nearest exit is, and how fast they can reach it', tell: 'a habit of glancing at doorways mid-sentence' },
+    'Reserved': { behavior: 'keeps their thoughts folded away like letters never sent', tell: 'a voice so low that people lean in without meaning to' },
+    'Outspoken': { behavior: 'says what everyone else is only thinking, loudly and at the worst moment', tell: 'a laugh that carries across any crowded room' },
+    'Reckless': { behavior: 'treats consequences as something that happens to other people', tell: 'fresh scrapes on their knuckles that they never explain' },
+    'Cautious': { behavior: 'tests every plank before trusting it with their weight', tell: 'the soft tap of a finger counting risks against the table' },
+    'Confident': { behavior: 'enters every room as though they were expected', tell: 'the smell of good soap and the posture of someone who owns the floor' },
+    'Insecure': { behavior: 'apologizes for things that were never their fault', tell: 'fidgeting hands that worry at a loose thread' },
+    'Stoic': { behavior: 'lets pain and joy alike pass over their face without a ripple', tell: 'a stillness that makes others fill the silence' },
+    'Expressive': { behavior: 'wears every feeling openly, sometimes before they have named it', tell: 'hands that never stop moving when they speak' },
+    'Patient': { behavior: 'waits out storms, arguments, and enemies with the same calm', tell: 'slow, even breathing, like someone used to long watches' },
+    'Impatient': { behavior: 'finishes other people\'s sentences and rarely their chores', tell: 'a drumming foot that never quite stops' },
+    'Methodical': { behavior: 'follows the same careful steps every time, even when no one is watching', tell: 'belongings arranged in exactly the same order every day' },
+    'Impulsive': { behavior: 'acts on the first idea that arrives and sorts out the rest later', tell: 'a half-eaten meal abandoned mid-bite for something more interesting' },
+    'Organized': { behavior: 'keeps ledgers, lists, and grudges in perfect order', tell: 'the faint scent of ink and sealing wax' },
+    'Chaotic': { behavior: 'lives in a swirl of half-finished plans and borrowed time', tell: 'pockets that jingle with things that should not be there' },
+    'Suspicious': { behavior: 'assumes every kindness has a hidden price', tell: 'narrowed eyes that linger a moment too long on strangers' },
+    'Trusting': { behavior: 'takes people at their word, again and again', tell: 'an open, easy handshake offered to anyone' },
+    'Serious': { behavior: 'treats even small tasks as matters of consequence', tell: 'a furrowed brow that seems permanently carved' },
+    'Playful': { behavior: 'turns tense moments into jokes, sometimes to avoid them', tell: 'a tuneless humming that fills idle moments' },
+    'Introverted': { behavior: 'recharges in quiet corners and measures words like coin', tell: 'a preference for the seat nearest the wall' },
+    'Extroverted': { behavior: 'gathers a crowd simply by standing still too long', tell: 'a booming greeting for friends and strangers alike' },
+    'Competitive': { behavior: 'turns every exchange into a contest they intend to win', tell: 'a tight grin whenever someone else is praised' },
+    'Harmonious': { behavior: 'smooths over quarrels before they can catch fire', tell: 'a gentle, placating tone that softens every disagreement' },
+    'Tactful': { behavior: 'wraps hard truths in soft words', tell: 'a careful pause before every answer' },
+    'Blunt': { behavior: 'delivers hard truths without bothering to soften them', tell: 'a flat, matter-of-fact voice that never hedges' },
+    'Optimistic': { behavior: 'believes tomorrow will be kinder, against all evidence', tell: 'a warm smile that reaches their eyes' },
+    'Pessimistic': { behavior: 'expects the worst so they can never be disappointed', tell: 'a long-suffering sigh at every bit of good news' },
+    'Calm': { behavior: 'grows quieter, not louder, as tempers rise', tell: 'an unhurried voice that steadies the room' },
+    'Hot-headed': { behavior: 'has a temper that flares fast and burns out slowly', tell: 'a jaw that clenches at the slightest slight' },
+    'Perfectionist': { behavior: 'redoes good work until it becomes flawless work', tell: 'meticulously clean nails and pressed clothing' },
+    'Laid-Back': { behavior: 'lets most troubles roll past like water off a duck', tell: 'a slouch that suggests they could nap anywhere' },
+    'Authoritative': { behavior: 'gives orders as naturally as other people give greetings', tell: 'a commanding voice used to being obeyed' },
+    'Submissive': { behavior: 'defers to whoever speaks loudest', tell: 'eyes that drop whenever someone important enters' },
+    'Driven': { behavior: 'pursues their goals with single-minded hunger', tell: 'ink-stained fingers and the look of someone who sleeps too little' },
+    'Apathetic': { behavior: 'shrugs at causes that set others aflame', tell: 'a bored drawl and a yawn never quite stifled' },
+    'Adventurous': { behavior: 'chases every rumor of something new over the horizon', tell: 'the smell of road dust and far-off places' },
+    'Hesitant': { behavior: 'lingers at every threshold, weighing whether to cross', tell: 'a half-step forward and back before every decision' },
+    'Diplomatic': { behavior: 'finds the compromise hidden inside every argument', tell: 'a measured, reasonable tone that invites agreement' },
+    'Confrontational': { behavior: 'meets disagreement head-on, chin first', tell: 'a habit of stepping just a little too close' },
+};
+
+// Beliefs voiced by strong virtues, and the failings that show when a virtue is weak.
+const unpairedTraitPhrases: { [name: string]: { belief: string; failing: string } } = {
+    'Honest': { belief: 'A lie is a debt that always comes due.', failing: 'lies smoothly whenever the truth is inconvenient' },
+    'Compassionate': { belief: 'No one should suffer alone if I can help it.', failing: 'looks away from suffering that is not their own' },
+    'Kind': { belief: 'A small kindness costs little and buys much.', failing: 'is cruel in small ways when no one is watching' },
+    'Generous': { belief: 'What I hold is only worth what I can share.', failing: 'hoards coin and favors alike' },
+    'Loyal': { belief: 'You stand by your people, even when they are wrong.', failing: 'will sell out a friend for the right price' },
+    'Just': { belief: 'Every wrong deserves a reckoning.', failing: 'bends the rules whenever it suits them' },
+    'Merciful': { belief: 'Even the worst of us deserve a second chance.', failing: 'shows no mercy to those who cross them' },
+    'Forgiving': { belief: 'Holding a grudge is drinking poison and hoping the other dies.', failing: 'never forgets, and never forgives' },
+    'Empathetic': { belief: 'Understand someone\'s pain and you understand them.', failing: 'cannot fathom why others feel what they feel' },
+    'Benevolent': { belief: 'The world is better when the strong protect the weak.', failing: 'sees the weak as tools to be used' },
+    'Humble': { belief: 'I am no better than anyone else in this room.', failing: 'cannot bear to be outshone' },
+    'Selfless': { belief: 'Others\' needs come before my own.', failing: 'always looks out for themselves first' },
+    'Integrity': { belief: 'My word is the only thing no one can take from me.', failing: 'breaks promises the moment they become a burden' },
+    'Responsible': { belief: 'If it is my duty, it gets done.', failing: 'leaves others to clean up their messes' },
+    'Tolerant': { belief: 'There is room in this world for every kind of person.', failing: 'despises those who are different from them' },
+    'Fair': { belief: 'Everyone deserves an even chance.', failing: 'stacks every deal in their own favor' },
+    'Devoted': { belief: 'A cause worth serving is worth serving completely.', failing: 'abandons any cause once it demands sacrifice' },
+    'Charitable': { belief: 'Those with plenty owe something to those with none.', failing: 'scorns beggars and the needy' },
+    'Accountable': { belief: 'I own my mistakes, every one of them.', failing: 'always has someone else to blame' },
+    'Virtuous': { belief: 'The right path is rarely the easy one.', failing: 'has quietly made peace with their own corruption' },
+};
+
+// Archetypes keyed by the most dominant paired trait.
+const archetypes: { [name: string]: string } = {
+    'Brave': 'The Stalwart Guardian', 'Cowardly': 'The Reluctant Survivor',
+    'Reserved': 'The Silent Watcher', 'Outspoken': 'The Loud Conscience',
+    'Reckless': 'The Daredevil', 'Cautious': 'The Careful Planner',
+    'Confident': 'The Self-Made Champion', 'Insecure': 'The Doubting Heart',
+    'Stoic': 'The Unbending Oak', 'Expressive': 'The Open Book',
+    'Patient': 'The Long Game Player', 'Impatient': 'The Restless Spark',
+    'Methodical': 'The Artisan of Routine', 'Impulsive': 'The Wild Card',
+    'Organized': 'The Keeper of Ledgers', 'Chaotic': 'The Whirlwind',
+    'Suspicious': 'The Wary Sentinel', 'Trusting': 'The Innocent',
+    'Serious': 'The Burdened Soul', 'Playful': 'The Trickster',
+    'Introverted': 'The Hermit', 'Extroverted': 'The Life of the Party',
+    'Competitive': 'The Rival', 'Harmonious': 'The Peacemaker',
+    'Tactful': 'The Courtier', 'Blunt': 'The Hard Truth',
+    'Optimistic': 'The Dreamer', 'Pessimistic': 'The Cynic',
+    'Calm': 'The Still Water', 'Hot-headed': 'The Firebrand',
+    'Perfectionist': 'The Relentless Craftsman', 'Laid-Back': 'The Easygoing Drifter',
+    'Authoritative': 'The Ruler', 'Submissive': 'The Faithful Servant',
+    'Driven': 'The Ambitious Climber', 'Apathetic': 'The Lost Spark',
+    'Adventurous': 'The Wanderer', 'Hesitant': 'The Threshold Dweller',
+    'Diplomatic': 'The Mediator', 'Confrontational': 'The Challenger',
+};
+
+// Many npcData entries carry a leading space or the tail of "a/an" ("n Urchin") so they can be
+// spliced into fullDescription. Strip that for standalone use.
+const clean = (value: string): string => value.trim().replace(/^n\s+/, '').replace(/[,.]$/, '').trim();
+
+/** e.g. "Lawful Good", or "True Neutral" rather than "Neutral Neutral". */
+export const formatAlignment = (decoded: DecodedDna): string => {
+    const { lnc, gne } = decoded.alignment;
+    return lnc === 'Neutral' && gne === 'Neutral' ? 'True Neutral' : `${lnc} ${gne}`;
+};
+
+const byDominance = (a: PairedTrait, b: PairedTrait) => (b.intensity - a.intensity) || (b.score - a.score);
+const byScore = (a: UnpairedTrait, b: UnpairedTrait) => b.score - a.score;
+
+const lowerFirst = (text: string) => text.charAt(0).toLowerCase() + text.slice(1);
+const upperFirst = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Wants and secrets in npcData are verb phrases ("is secretly ...") or start with "they have ...";
+// turn either form into a full clause about the NPC.
+const withSubject = (text: string, name: string): string => {
+    const clause = lowerFirst(text.trim());
+    if (/^they\b/.test(clause)) {
+        return clause.replace(/^they have\b/, `${name} has`).replace(/^they are\b/, `${name} is`).replace(/^they\b/, name);
+    }
+    return `${name} ${clause}`;
+};
+
+/**
+ * Writes a full character profile from the decoded DNA and the rolled NPC fields, without any AI.
+ * The result has the same shape as the AI's structured profile, so NpcCard renders it the same way.
+ */
+export const writeLocalProfile = (decoded: DecodedDna, npc: Npc): NpcProfile => {
+    const firstName = npc.name.split(' ')[0];
+    const profession = clean(npc.profession);
+    const wants = withSubject(npc.wantsOrNeed, firstName);
+    const secret = withSubject(npc.secretOrObstacle, firstName);
+    const dominant = [...decoded.pairedTraits].sort(byDominance);
+    const [primary, secondary, tertiary] = dominant;
+    const weakest = dominant[dominant.length - 1];
+    const virtues = [...decoded.unpairedTraits].sort(byScore);
+    const strongVirtues = virtues.filter(v => v.strength === 'Strong');
+    const weakVirtues = virtues.filter(v => v.strength === 'Weak/Opposite').reverse();
+    const topVirtue = virtues[0];
+    const lowVirtue = virtues[virtues.length - 1];
+
+    const phrase = (trait: PairedTrait) => pairedTraitPhrases[trait.name]?.behavior ?? 'keeps their own counsel';
+    const tell = (trait: PairedTrait) => pairedTraitPhrases[trait.name]?.tell ?? 'a manner that is hard to place';
+    const belief = (trait: UnpairedTrait) => unpairedTraitPhrases[trait.name]?.belief ?? 'Every choice has a cost.';
+    const failing = (trait: UnpairedTrait) => unpairedTraitPhrases[trait.name]?.failing ?? 'has a blind spot they refuse to see';
+
+    const archetype = archetypes[primary.name] ?? 'The Stranger';
+    const facialHair = npc.facialHair !== '.' ? `, with ${clean(npc.facialHair).replace(/^and\s+/, '')}` : '';
+    const contradiction = topVirtue.strength === 'Strong' && lowVirtue.strength === 'Weak/Opposite'
+        ? `${firstName} swears by one rule, "${belief(topVirtue)}", and yet ${failing(lowVirtue)}. The gap between the two is where they hurt the people closest to them.`
+        : `${firstName} ${phrase(primary)}, but also ${phrase(weakest)}, and can never quite reconcile the two.`;
+    const firstPersonWant = lowerFirst(npc.wantsOrNeed.trim())
+        .replace(/^is\s+/, 'am ')
+        .replace(/^(needs|wants)\b/, m => m.slice(0, -1));
+
+    return {
+        name: npc.name,
+        role: profession,
+        alignment: formatAlignment(decoded),
+        narrativeEssence: `A ${primary.name.toLowerCase()} heart wearing a ${secondary.name.toLowerCase()} mask.`,
+        archetype,
+        appearance: [
+            `A ${clean(npc.age)} ${npc.race} ${npc.gender}, ${clean(npc.height)} with a${npc.weight.trimEnd()} build, ${clean(npc.complexion)} skin and ${npc.hairStyle} ${npc.hairColor}${facialHair}.`,
+            `${upperFirst(npc.eyeShape)} ${npc.eyeColor}; ${firstName} also ${npc.descriptor}.`,
+            `On first meeting, people notice ${tell(primary)}. Those who linger notice ${tell(secondary)}.`,
+        ],
+        personality: [
+            `${firstName} ${phrase(primary)}. At other times, ${firstName} ${phrase(secondary)}.`,
+            contradiction,
+            `Quirk: ${tell(tertiary)}, a habit picked up during their years as a ${profession.toLowerCase()}.`,
+            `Vulnerability: ${secret}, and the wrong person finding out would unravel everything.`,
+        ],
+        backstory: [
+            `${firstName} did not so much choose the life of a ${profession.toLowerCase()} as fall into it, and a${npc.demeanor.trimEnd()} attitude has only hardened with the years. Somewhere along the way they settled on a creed, "${belief(topVirtue)}", and paid for the lesson in full. Now ${wants}, and that pursuit has begun to pull them away from everything familiar.`,
+        ],
+        bdi: {
+            beliefs: [belief(topVirtue), belief(virtues[1])],
+            desires: [
+                `I ${firstPersonWant}.`,
+                `I need people to stop seeing me as ${lowerFirst(archetype)}.`,
+            ],
+            intentions: [
+                'Find the next lead before anyone else does.',
+                'Make use of the next capable strangers who walk through my door.',
+            ],
+        },
+        strengths: [primary, secondary, ...strongVirtues.slice(0, 2)]
+            .map(t => `${t.name}: ${'intensity' in t ? phrase(t) : `"${belief(t)}"`}`),
+        weaknesses: [weakest, ...weakVirtues.slice(0, 2)]
+            .map(t => 'intensity' in t ? `${t.name}: ${phrase(t)}` : `${t.name} (lacking): ${failing(t)}`),
+        secrets: [
+            `${upperFirst(secret)}.`,
+            weakVirtues[0]
+                ? `Behind closed doors, ${firstName} ${failing(weakVirtues[0])}, and would do a great deal to keep that hidden.`
+                : `${firstName} doubts their own virtue far more than anyone would guess.`,
+        ],
+        relationships: [
+            { name: 'An old mentor', relationship: 'mentor', description: `Taught ${firstName} the trade of a ${profession.toLowerCase()}, and still expects repayment.` },
+            { name: 'A rival', relationship: 'rival', description: `Someone who ${phrase(weakest)}, and never lets ${firstName} forget it.` },
+        ],
+        possessions: npc.alsoCarrying.slice(0, 2).map(item => ({
+            name: upperFirst(clean(item).replace(/^(?:a|an|some)\s+/i, '')),
+            description: 'Kept close, and never explained.',
+        })),
+        roleplayingCues: {
+            communicationStyle: `Speaks like someone who ${phrase(secondary)}, with ${tell(primary)}.`,
+            coreVulnerability: `Being forced to admit how often ${firstName} ${lowVirtue.strength === 'Weak/Opposite' ? failing(lowVirtue) : phrase(weakest)}.`,
+            mechanicalNote: `Appeals to ${topVirtue.name.toLowerCase()} succeed more easily; pressure aimed at their ${primary.name.toLowerCase()} nature provokes an immediate, unreasoned reaction.`,
+        },
+        exampleInteraction: [
+            `The party approaches ${firstName}, who is busy at their trade. ${firstName} looks them over before speaking.`,
+            `"If you're here about the job, you're late. If you're here about anything else, you're later."`,
+            `When pressed, ${firstName} ${phrase(secondary)}, and the conversation turns on whether the party can earn a moment of their trust.`,
+        ],
+        hooks: [
+            { title: `What ${firstName} Wants`, description: `${upperFirst(wants)}, and offers payment or favors to anyone willing to help.` },
+            { title: 'The Cost of Secrets', description: `Someone has learned that ${secret}, and the party is caught in the middle.` },
+            { title: `A ${primary.name} Mistake`, description: `${firstName}'s ${primary.name.toLowerCase()} nature drives them into a confrontation they cannot win alone.` },
+        ],
+    };
+};
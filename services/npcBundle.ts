@@ -0,0 +1,217 @@
+// services/npcBundle.ts
+
+import { encodeDna, validateDna } from './dnaDecoder';
+import { validateNpcProfile } from './profileParser';
+import { relationshipTypes } from './relationshipWeb';
+import type { GenerationMetadata, Npc, NpcRelationship, SavedNpc } from '../types';
+
+export const NPC_BUNDLE_FORMAT = 'npc-dna.bundle';
+export const NPC_BUNDLE_VERSION = 1;
+
+/**
+ * A `.npc.json` file: one or more NPCs with everything needed to open them again, exactly as
+ * they were. Entries are library records, so ids and the relationships between them survive.
+ */
+export interface NpcBundle {
+    format: typeof NPC_BUNDLE_FORMAT;
+    version: number;
+    exportedAt: string;
+    npcs: SavedNpc[];
+}
+
+export const createNpcBundle = (records: SavedNpc[]): NpcBundle => ({
+    format: NPC_BUNDLE_FORMAT,
+    version: NPC_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    npcs: records,
+});
+
+export const bundleFileName = (records: SavedNpc[], label?: string): string => {
+    const name = records.length === 1 ? records[0].npc.name : `${label || 'npcs'}-${records.length}`;
+    return `${name.replace(/\s+/g, '_')}.npc.json`;
+};
+
+const npcStringFields: (keyof Npc)[] = [
+    'name', 'gender', 'race', 'age', 'intelligence', 'hairStyle', 'hairColor', 'facialHair', 'height', 'weight',
+    'eyeShape', 'eyeColor', 'complexion', 'descriptor', 'profession', 'demeanor', 'wantsOrNeed', 'secretOrObstacle',
+    'fullDescription',
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isTimestamp = (value: unknown): value is string => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+// Collects what is wrong with one entry, prefixed with where it is, e.g. "NPC 2 (Mira Ashdown)".
+const validateEntry = (entry: unknown, label: string): string[] => {
+    if (!isRecord(entry)) return [`${label} is not an object.`];
+    const errors: string[] = [];
+    const { npc, profile } = entry;
+
+    if (!isRecord(npc)) {
+        errors.push(`${label} has no NPC details.`);
+    } else {
+        const missing = npcStringFields.filter(field => typeof npc[field] !== 'string');
+        if (missing.length > 0) errors.push(`${label} is missing ${missing.join(', ')}.`);
+        if (!isStringArray(npc.alsoCarrying)) errors.push(`${label} has no inventory list.`);
+        if (!['gold', 'silver', 'copper'].every(coin => typeof npc[coin] === 'number')) errors.push(`${label} is missing its coin purse.`);
+    }
+
+    if (typeof entry.dna !== 'string') {
+        errors.push(`${label} has no DNA code.`);
+    } else {
+        const validation = validateDna(entry.dna);
+        if ('errors' in validation) {
+            errors.push(`${label} has an invalid DNA code. ${validation.errors.map(e => e.message).join(' ')}`);
+        }
+    }
+
+    if (typeof profile !== 'string') {
+        try {
+            validateNpcProfile(profile);
+        } catch (err) {
+            errors.push(`${label} has no readable profile. ${err instanceof Error ? err.message : ''}`.trim());
+        }
+    }
+    if (entry.imageUrl !== null && entry.imageUrl !== undefined && typeof entry.imageUrl !== 'string') {
+        errors.push(`${label} has a portrait that is not base64 image data.`);
+    }
+    if (entry.seed !== null && entry.seed !== undefined && typeof entry.seed !== 'string') {
+        errors.push(`${label} has a seed that is not text.`);
+    }
+    if (entry.tags !== undefined && !isStringArray(entry.tags)) errors.push(`${label} has tags that are not text.`);
+    if (entry.relationships !== undefined && !Array.isArray(entry.relationships)) errors.push(`${label} has a malformed relationship list.`);
+    for (const field of ['createdAt', 'updatedAt']) {
+        if (entry[field] !== undefined && !isTimestamp(entry[field])) errors.push(`${label} has an unreadable ${field} timestamp.`);
+    }
+    return errors;
+};
+
+const normalizeGeneration = (value: unknown): GenerationMetadata | null =>
+    isRecord(value) && typeof value.provider === 'string'
+        ? {
+            provider: value.provider,
+            textModel: typeof value.textModel === 'string' ? value.textModel : null,
+            imageModel: typeof value.imageModel === 'string' ? value.imageModel : null,
+        }
+        : null;
+
+// Copies the NPC details out of an entry that passed validation, field by field.
+const normalizeNpc = (value: unknown): Npc => {
+    const npc = isRecord(value) ? value : {};
+    const text = (field: keyof Npc): string => {
+        const fieldValue = npc[field];
+        return typeof fieldValue === 'string' ? fieldValue : '';
+    };
+    const coins = (field: 'gold' | 'silver' | 'copper'): number => {
+        const fieldValue = npc[field];
+        return typeof fieldValue === 'number' ? fieldValue : 0;
+    };
+    return {
+        name: text('name'),
+        gender: text('gender'),
+        race: text('race'),
+        age: text('age'),
+        intelligence: text('intelligence'),
+        hairStyle: text('hairStyle'),
+        hairColor: text('hairColor'),
+        facialHair: text('facialHair'),
+        height: text('height'),
+        weight: text('weight'),
+        eyeShape: text('eyeShape'),
+        eyeColor: text('eyeColor'),
+        complexion: text('complexion'),
+        descriptor: text('descriptor'),
+        profession: text('profession'),
+        demeanor: text('demeanor'),
+        wantsOrNeed: text('wantsOrNeed'),
+        secretOrObstacle: text('secretOrObstacle'),
+        alsoCarrying: isStringArray(npc.alsoCarrying) ? npc.alsoCarrying : [],
+        gold: coins('gold'),
+        silver: coins('silver'),
+        copper: coins('copper'),
+        fullDescription: text('fullDescription'),
+    };
+};
+
+// Links with an unknown type or without both ends are dropped rather than failing the import.
+const normalizeRelationships = (value: unknown): NpcRelationship[] =>
+    (Array.isArray(value) ? value : []).flatMap((item: unknown) => {
+        if (!isRecord(item) || typeof item.from !== 'string' || typeof item.to !== 'string') return [];
+        const type = relationshipTypes.find(known => known === item.type);
+        if (!type) return [];
+        return [{ from: item.from, to: item.to, type, description: typeof item.description === 'string' ? item.description : '' }];
+    });
+
+// Fills in what older or hand-edited bundles may leave out, and upgrades legacy DNA codes.
+const normalizeEntry = (entry: Record<string, unknown>, now: string): SavedNpc => {
+    const dna = typeof entry.dna === 'string' ? entry.dna : '';
+    const validation = validateDna(dna);
+    return {
+        id: typeof entry.id === 'string' && entry.id ? entry.id : crypto.randomUUID(),
+        npc: normalizeNpc(entry.npc),
+        dna: 'errors' in validation ? dna : encodeDna(validation.decoded),
+        profile: typeof entry.profile === 'string' ? entry.profile : validateNpcProfile(entry.profile),
+        // Portraits are stored without the data URI prefix, as the generators return them.
+        imageUrl: typeof entry.imageUrl === 'string' && entry.imageUrl ? entry.imageUrl.replace(/^data:image\/\w+;base64,/, '') : null,
+        seed: typeof entry.seed === 'string' && entry.seed ? entry.seed : null,
+        tags: isStringArray(entry.tags) ? entry.tags : [],
+        campaign: typeof entry.campaign === 'string' ? entry.campaign : '',
+        relationships: normalizeRelationships(entry.relationships),
+        generation: normalizeGeneration(entry.generation),
+        createdAt: isTimestamp(entry.createdAt) ? entry.createdAt : now,
+        updatedAt: isTimestamp(entry.updatedAt) ? entry.updatedAt : now,
+    };
+};
+
+/**
+ * Reads a `.npc.json` file. A bare library record or a list of them is accepted as well as a full
+ * bundle. Throws with every problem found, so a broken file can be fixed in one go.
+ */
+export const parseNpcBundle = (text: string): NpcBundle => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+
+    let entries: unknown[];
+    let exportedAt: unknown;
+    if (isRecord(data) && data.format === NPC_BUNDLE_FORMAT) {
+        if (typeof data.version !== 'number' || data.version > NPC_BUNDLE_VERSION) {
+            throw new Error(`The bundle is version ${data.version}, which this version of the app cannot read.`);
+        }
+        if (!Array.isArray(data.npcs)) {
+            throw new Error('The bundle has no NPC list.');
+        }
+        entries = data.npcs;
+        exportedAt = data.exportedAt;
+    } else if (Array.isArray(data)) {
+        entries = data;
+    } else if (isRecord(data) && 'npc' in data) {
+        entries = [data];
+    } else {
+        throw new Error('The file is not an NPC bundle.');
+    }
+    if (entries.length === 0) {
+        throw new Error('The bundle contains no NPCs.');
+    }
+
+    const errors = entries.flatMap((entry, index) => {
+        const name = isRecord(entry) && isRecord(entry.npc) && typeof entry.npc.name === 'string' ? ` (${entry.npc.name})` : '';
+        return validateEntry(entry, `NPC ${index + 1}${name}`);
+    });
+    if (errors.length > 0) {
+        throw new Error(`The bundle could not be imported. ${errors.join(' ')}`);
+    }
+
+    const now = new Date().toISOString();
+    return {
+        format: NPC_BUNDLE_FORMAT,
+        version: NPC_BUNDLE_VERSION,
+        exportedAt: isTimestamp(exportedAt) ? exportedAt : now,
+        npcs: entries.filter(isRecord).map(entry => normalizeEntry(entry, now)),
+    };
+};
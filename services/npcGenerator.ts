@@ -1,120 +1,127 @@
 
-import type { Npc } from '../types';
-import * as npcData from '../data/npcData';
+import type { ConstrainableNpcField, Npc, NpcFieldConstraint, NpcGenerationOptions } from '../types';
+import { getRaceDefinition } from '../data/races';
+import { baseTables, getNpcTables, toTableValue, type RaceNames } from './dataPacks';
+import { randomItem, type Rng } from './random';
 
-const getRandomItem = <T,>(arr: T[]): T => arr[Math.floor(Math.random() * arr.length)];
+/**
+ * The table each constrainable field is rolled from, with the enabled data packs applied.
+ */
+export const getNpcFieldTables = (): Record<ConstrainableNpcField, string[]> => {
+  const tables = getNpcTables();
+  return {
+    gender: tables.genders,
+    race: tables.races,
+    age: tables.ages,
+    intelligence: tables.intelligences,
+    hairStyle: tables.hairStyles,
+    hairColor: tables.hairColors,
+    height: tables.heights,
+    weight: tables.weights,
+    eyeShape: tables.eyeShapes,
+    eyeColor: tables.eyeColors,
+    complexion: tables.complexions,
+    descriptor: tables.descriptors,
+    profession: tables.professions,
+    demeanor: tables.demeanors,
+    wantsOrNeed: tables.wantsOrNeeds,
+    secretOrObstacle: tables.secretOrObstacles,
+  };
+};
+
+// Rolls from the table, or from the constraint when one is set. Always makes exactly one draw, so
+// locking a field does not reshuffle the fields rolled after it for the same seed.
+const pick = (rng: Rng, table: string[], constraint?: NpcFieldConstraint): string => {
+  const allowed = (typeof constraint === 'string' ? [constraint] : constraint ?? [])
+    .filter(value => value.trim() !== '')
+    .map(value => toTableValue(table, value));
+  return randomItem(rng, allowed.length > 0 ? allowed : table);
+};
 
-const setGender = (): string => getRandomItem(npcData.genders);
-const setRace = (): string => getRandomItem(npcData.races);
+const setGender = (rng: Rng, constraint?: NpcFieldConstraint): string => pick(rng, getNpcTables().genders, constraint);
+const setRace = (rng: Rng, constraint?: NpcFieldConstraint): string => pick(rng, getNpcTables().races, constraint);
 
-const setName = (gender: string, race: string): string => {
-  let firstName: string;
-  let lastName: string;
+// Races without name lists of their own, and genders a race has no first names for, borrow
+// human names, and the built-in human names back those up.
+const nonEmpty = (list: string[] | undefined): string[] | null => list?.length ? list : null;
 
-  const getFirstName = (nameList: { male: string[]; female: string[] }) => {
-    return getRandomItem(nameList[gender as keyof typeof nameList]);
-  };
-  
-  switch (race) {
-    case 'Human':
-      firstName = getFirstName(npcData.humanFirstNames);
-      lastName = getRandomItem(npcData.humanLastNames);
-      break;
-    case 'Elf':
-      firstName = getFirstName(npcData.elfFirstNames);
-      lastName = getRandomItem(npcData.elfLastNames);
-      break;
-    case 'Dwarf':
-      firstName = getFirstName(npcData.dwarfFirstNames);
-      lastName = getRandomItem(npcData.dwarfLastNames);
-      break;
-    case 'Halfling':
-      firstName = getFirstName(npcData.halflingFirstNames);
-      lastName = getRandomItem(npcData.halflingLastNames);
-      break;
-    case 'Gnome':
-      firstName = getFirstName(npcData.gnomeFirstNames);
-      lastName = getRandomItem(npcData.gnomeLastNames);
-      break;
-    case 'Goliath':
-      firstName = getFirstName(npcData.goliathFirstNames);
-      lastName = getRandomItem(npcData.goliathLastNames);
-      break;
-    case 'Half-elf':
-      firstName = getFirstName(npcData.halfElfFirstNames);
-      lastName = getRandomItem(npcData.halfElfLastNames);
-      break;
-    case 'Half-orc':
-      firstName = getFirstName(npcData.halfOrcFirstNames);
-      lastName = getRandomItem(npcData.halfOrcLastNames);
-      break;
-    case 'Tiefling':
-      firstName = getFirstName(npcData.tieflingFirstNames);
-      lastName = getRandomItem(npcData.tieflingLastNames);
-      break;
-    default:
-      firstName = getFirstName(npcData.humanFirstNames);
-      lastName = getRandomItem(npcData.humanLastNames);
-  }
+const firstNamesFor = (names: RaceNames | undefined, gender: string): string[] | null => nonEmpty(names?.first[gender]);
+
+const setName = (rng: Rng, gender: string, race: string, familyName?: string): string => {
+  const { names } = getNpcTables();
+  const firstNames = firstNamesFor(names[race], gender) ?? firstNamesFor(names.Human, gender)
+    ?? nonEmpty(Object.values(names.Human?.first ?? {}).flat()) ?? Object.values(baseTables.names.Human.first).flat();
+  const lastNames = nonEmpty(names[race]?.last) ?? nonEmpty(names.Human?.last) ?? baseTables.names.Human.last;
+  const firstName = randomItem(rng, firstNames);
+  const lastName = randomItem(rng, lastNames);
 
-  return `${firstName.trim()} ${lastName.trim()}`;
+  return `${firstName.trim()} ${(familyName ?? lastName).trim()}`;
 };
 
-const setAge = (): string => getRandomItem(npcData.ages);
-const setIntelligence = (): string => getRandomItem(npcData.intelligences);
-const setHairStyle = (): string => getRandomItem(npcData.hairStyles);
-const setHairColor = (): string => getRandomItem(npcData.hairColors);
-const setFacialHair = (gender: string, race: string): string => {
-  if (gender === 'male' || (race === 'Dwarf' && Math.random() > 0.5)) {
-    return getRandomItem(npcData.facialHairStyles);
+const setAge = (rng: Rng, constraint?: NpcFieldConstraint): string => pick(rng, getNpcTables().ages, constraint);
+const setIntelligence = (rng: Rng, constraint?: NpcFieldConstraint): string => pick(rng, getNpcTables().intelligences, constraint);
+const setHairStyle = (rng: Rng, constraint?: NpcFieldConstraint): string => pick(rng, getNpcTables().hairStyles, constraint);
+const setHairColor = (rng: Rng, constraint?: NpcFieldConstraint): string => pick(rng, getNpcTables().hairColors, constraint);
+// Races the registry does not know grow facial hair as humans do.
+const setFacialHair = (rng: Rng, gender: string, race: string): string => {
+  const facialHair = getRaceDefinition(race)?.facialHair ?? 'male';
+  if (facialHair !== 'none' && (gender === 'male' || (facialHair === 'all' && rng() > 0.5))) {
+    return randomItem(rng, getNpcTables().facialHairStyles);
   }
   return ".";
 };
-const setHeight = (): string => getRandomItem(npcData.heights);
-const setWeight = (): string => getRandomItem(npcData.weights);
-const setEyeShape = (): string => getRandomItem(npcData.eyeShapes);
-const setEyeColor = (): string => getRandomItem(npcData.eyeColors);
-const setComplexion = (): string => getRandomItem(npcData.complexions);
-const setDescriptors = (): string => getRandomItem(npcData.descriptors);
-const setProfession = (): string => getRandomItem(npcData.professions);
-const setDemeanor = (): string => getRandomItem(npcData.demeanors);
-const setWantsOrNeeds = (): string => getRandomItem(npcData.wantsOrNeeds);
-const setSecretOrObstacle = (): string => getRandomItem(npcData.secretOrObstacles);
-const setAlsoCarrying = (): string[] => {
-  const numItems = Math.floor(Math.random() * 4) + 1;
+const setHeight = (rng: Rng, constraint?: NpcFieldConstraint): string => pick(rng, getNpcTables().heights, constraint);
+const setWeight = (rng: Rng, constraint?: NpcFieldConstraint): string => pick(rng, getNpcTables().weights, constraint);
+const setEyeShape = (rng: Rng, constraint?: NpcFieldConstraint): string => pick(rng, getNpcTables().eyeShapes, constraint);
+const setEyeColor = (rng: Rng, constraint?: NpcFieldConstraint): string => pick(rng, getNpcTables().eyeColors, constraint);
+const setComplexion = (rng: Rng, constraint?: NpcFieldConstraint): string => pick(rng, getNpcTables().complexions, constraint);
+const setDescriptors = (rng: Rng, constraint?: NpcFieldConstraint): string => pick(rng, getNpcTables().descriptors, constraint);
+const setProfession = (rng: Rng, constraint?: NpcFieldConstraint): string => pick(rng, getNpcTables().professions, constraint);
+const setDemeanor = (rng: Rng, constraint?: NpcFieldConstraint): string => pick(rng, getNpcTables().demeanors, constraint);
+const setWantsOrNeeds = (rng: Rng, constraint?: NpcFieldConstraint): string => pick(rng, getNpcTables().wantsOrNeeds, constraint);
+const setSecretOrObstacle = (rng: Rng, constraint?: NpcFieldConstraint): string => pick(rng, getNpcTables().secretOrObstacles, constraint);
+const setAlsoCarrying = (rng: Rng): string[] => {
+  const numItems = Math.floor(rng() * 4) + 1;
   const selectedItems: string[] = [];
-  const itemsCopy = [...npcData.items];
+  const itemsCopy = [...getNpcTables().items];
   for (let i = 0; i < numItems; i++) {
     if(itemsCopy.length === 0) break;
-    const itemIndex = Math.floor(Math.random() * itemsCopy.length);
+    const itemIndex = Math.floor(rng() * itemsCopy.length);
     selectedItems.push(itemsCopy.splice(itemIndex, 1)[0]);
   }
   return selectedItems;
 };
 
-export const generateNpc = (): Npc => {
-  const gender = setGender();
-  const race = setRace();
-  const name = setName(gender, race);
-  const age = setAge();
-  const intelligence = setIntelligence();
-  const hairStyle = setHairStyle();
-  const hairColor = setHairColor();
-  const facialHair = setFacialHair(gender, race);
-  const height = setHeight();
-  const weight = setWeight();
-  const eyeShape = setEyeShape();
-  const eyeColor = setEyeColor();
-  const complexion = setComplexion();
-  const descriptor = setDescriptors();
-  const profession = setProfession();
-  const demeanor = setDemeanor();
-  const wantsOrNeed = setWantsOrNeeds();
-  const secretOrObstacle = setSecretOrObstacle();
-  const alsoCarrying = setAlsoCarrying();
-  const gold = Math.floor(Math.random() * 100);
-  const silver = Math.floor(Math.random() * 100);
-  const copper = Math.floor(Math.random() * 100);
+/**
+ * Rolls a new base NPC. Pass a seeded random source (see `createRng`) to get the same NPC back
+ * for the same seed; it defaults to Math.random. Fields set in `options` are locked to a value
+ * or restricted to a list of values; every other field is rolled from the npcData tables, as
+ * changed by the enabled data packs. `options.lastName` replaces the rolled family name, e.g. for
+ * relatives of an existing NPC.
+ */
+export const generateNpc = (rng: Rng = Math.random, options: NpcGenerationOptions = {}): Npc => {
+  const gender = setGender(rng, options.gender);
+  const race = setRace(rng, options.race);
+  const name = setName(rng, gender, race, options.lastName);
+  const age = setAge(rng, options.age);
+  const intelligence = setIntelligence(rng, options.intelligence);
+  const hairStyle = setHairStyle(rng, options.hairStyle);
+  const hairColor = setHairColor(rng, options.hairColor);
+  const facialHair = setFacialHair(rng, gender, race);
+  const height = setHeight(rng, options.height);
+  const weight = setWeight(rng, options.weight);
+  const eyeShape = setEyeShape(rng, options.eyeShape);
+  const eyeColor = setEyeColor(rng, options.eyeColor);
+  const complexion = setComplexion(rng, options.complexion);
+  const descriptor = setDescriptors(rng, options.descriptor);
+  const profession = setProfession(rng, options.profession);
+  const demeanor = setDemeanor(rng, options.demeanor);
+  const wantsOrNeed = setWantsOrNeeds(rng, options.wantsOrNeed);
+  const secretOrObstacle = setSecretOrObstacle(rng, options.secretOrObstacle);
+  const alsoCarrying = setAlsoCarrying(rng);
+  const gold = Math.floor(rng() * 100);
+  const silver = Math.floor(rng() * 100);
+  const copper = Math.floor(rng() * 100);
 
   const fullDescription = `${name}, a${intelligence.trim()}${age} ${gender} ${race} with${complexion} skin, ${hairStyle} ${hairColor}${facialHair.trim()} Is ${height} with a${weight} build, has ${eyeShape} ${eyeColor}, and ${descriptor}. ${name.split(' ')[0]} is a${profession}, has a${demeanor} attitude and is currently ${wantsOrNeed}, and ${secretOrObstacle}. They are carrying ${alsoCarrying.join(', ')} and have ${gold}GP, ${silver}SP, and ${copper}CP in their coin purse.`;
 
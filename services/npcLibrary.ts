@@ -0,0 +1,134 @@
+// services/npcLibrary.ts
+
+import { decodeDna, type GneAlignment, type LncAlignment } from './dnaDecoder';
+import type { CampaignContext, NpcProfile, SavedNpc } from '../types';
+
+const DB_NAME = 'npc-dna';
+const DB_VERSION = 2;
+const NPC_STORE = 'npcs';
+const CAMPAIGN_STORE = 'campaigns';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('This browser does not support IndexedDB, so the NPC library is unavailable.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(NPC_STORE)) {
+                    db.createObjectStore(NPC_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(CAMPAIGN_STORE)) {
+                    db.createObjectStore(CAMPAIGN_STORE, { keyPath: 'name' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // A failed open is not cached, so the next call can try again.
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const withStore = async <T,>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDb();
+    return requestToPromise(action(db.transaction(storeName, mode).objectStore(storeName)));
+};
+
+/** Every saved NPC, most recently updated first. */
+export const listSavedNpcs = async (): Promise<SavedNpc[]> => {
+    const records = await withStore<SavedNpc[]>(NPC_STORE, 'readonly', store => store.getAll());
+    return records.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+/** Inserts or replaces a saved NPC, stamping `updatedAt`. Returns the stored record. */
+export const putSavedNpc = async (record: SavedNpc): Promise<SavedNpc> => {
+    const stored = { ...record, updatedAt: new Date().toISOString() };
+    await withStore(NPC_STORE, 'readwrite', store => store.put(stored));
+    return stored;
+};
+
+export const deleteSavedNpc = async (id: string): Promise<void> => {
+    await withStore(NPC_STORE, 'readwrite', store => store.delete(id));
+};
+
+/** Every saved campaign setting, sorted by name. */
+export const listCampaigns = async (): Promise<CampaignContext[]> => {
+    const campaigns = await withStore<CampaignContext[]>(CAMPAIGN_STORE, 'readonly', store => store.getAll());
+    return campaigns.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/** Inserts or replaces a campaign setting, keyed by its name. Returns the stored record. */
+export const putCampaign = async (campaign: CampaignContext): Promise<CampaignContext> => {
+    const stored = { ...campaign, updatedAt: new Date().toISOString() };
+    await withStore(CAMPAIGN_STORE, 'readwrite', store => store.put(stored));
+    return stored;
+};
+
+export const deleteCampaign = async (name: string): Promise<void> => {
+    await withStore(CAMPAIGN_STORE, 'readwrite', store => store.delete(name));
+};
+
+/** Flattens a profile, structured or legacy markdown, into plain text for searching. */
+export const profileToText = (profile: NpcProfile | string): string => {
+    if (typeof profile === 'string') return profile;
+    const parts: string[] = [];
+    const collect = (value: unknown) => {
+        if (typeof value === 'string') parts.push(value);
+        else if (Array.isArray(value)) value.forEach(collect);
+        else if (value && typeof value === 'object') Object.values(value).forEach(collect);
+    };
+    collect(profile);
+    return parts.join('\n');
+};
+
+export interface LibraryFilter {
+    /** Words that must all appear in the name, race, profession or profile. */
+    query?: string;
+    /** Only NPCs carrying every one of these tags. */
+    tags?: string[];
+    campaign?: string;
+    lnc?: LncAlignment;
+    gne?: GneAlignment;
+}
+
+export const filterLibrary = (records: SavedNpc[], filter: LibraryFilter): SavedNpc[] => {
+    const words = (filter.query ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+    const tags = (filter.tags ?? []).map(tag => tag.toLowerCase());
+
+    return records.filter(record => {
+        if (filter.campaign !== undefined && record.campaign !== filter.campaign) return false;
+        if (tags.some(tag => !record.tags.some(t => t.toLowerCase() === tag))) return false;
+
+        if (filter.lnc || filter.gne) {
+            // Alignment always comes from the DNA itself, never from what the profile claims.
+            const alignment = decodeDna(record.dna)?.alignment;
+            if (!alignment) return false;
+            if (filter.lnc && alignment.lnc !== filter.lnc) return false;
+            if (filter.gne && alignment.gne !== filter.gne) return false;
+        }
+
+        if (words.length > 0) {
+            const haystack = [record.npc.name, record.npc.race, record.npc.profession, profileToText(record.profile)].join('\n').toLowerCase();
+            if (words.some(word => !haystack.includes(word))) return false;
+        }
+        return true;
+    });
+};
+
+/** All campaign names and tags in use, sorted, for filter pickers. */
+export const collectLibraryFacets = (records: SavedNpc[]): { campaigns: string[]; tags: string[] } => ({
+    campaigns: Array.from(new Set(records.map(r => r.campaign).filter(Boolean))).sort(),
+    tags: Array.from(new Set(records.flatMap(r => r.tags))).sort(),
+});
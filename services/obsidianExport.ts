@@ -0,0 +1,226 @@
+// services/obsidianExport.ts
+
+import { buildStatBlock, type StatBlock } from './statBlock';
+import { deriveCombatTactics } from './combatTactics';
+import { decodeDna } from './dnaDecoder';
+import { formatAlignment } from './localProfileWriter';
+import { relationshipLabels } from './relationshipWeb';
+import { describeAdjustment } from './traitMechanics';
+import { createZip, type ZipEntry } from './zipWriter';
+import type { SavedNpc } from '../types';
+
+const NOTES_FOLDER = 'NPCs';
+const ATTACHMENTS_FOLDER = `${NOTES_FOLDER}/attachments`;
+
+// Characters Obsidian does not allow in note names, or that break wikilinks.
+const safeNoteName = (name: string) => name.replace(/[\\/:*?"<>|#^[\]]/g, '').replace(/\s+/g, ' ').trim() || 'Unnamed NPC';
+
+// Double-quoted YAML scalars read the same as JSON strings.
+const yamlString = (value: string) => JSON.stringify(value);
+
+const yamlList = (values: string[]) => values.length > 0 ? `[${values.map(yamlString).join(', ')}]` : '[]';
+
+// Obsidian tags cannot contain spaces.
+const toTag = (value: string) => value.trim().toLowerCase().replace(/\s+/g, '-').replace(/[^\w/-]/g, '');
+
+// Generated professions keep the "n" of "an" ("n Artisan"); frontmatter values should be plain.
+const plainProfession = (profession: string) => profession.trim().replace(/^n\s+/, '').replace(/[,.]$/, '').trim();
+
+const bullets = (items: string[]) => items.map(item => `- ${item}`).join('\n');
+
+const saveNames: Record<string, string> = { Str: 'strength', Dex: 'dexterity', Con: 'constitution', Int: 'intelligence', Wis: 'wisdom', Cha: 'charisma' };
+
+// "Wis +3, Con +4" as [["Wis", 3], ["Con", 4]].
+const parseBonuses = (text: string): [string, number][] =>
+    text ? text.split(', ').map(part => {
+        const match = part.match(/^(.*) ([+-]\d+)$/);
+        return match ? [match[1], Number(match[2])] as [string, number] : null;
+    }).filter((pair): pair is [string, number] => pair !== null) : [];
+
+/** The stat block in the layout of the Fantasy Statblocks plugin's `statblock` code fence. */
+const statblockFence = (name: string, stats: StatBlock, alignment: string): string => {
+    const [, size, type, subtype] = stats.sizeAndType.match(/^(\w+) (\w+) \((.+)\)$/) ?? [];
+    const entries = (items: { name: string; description: string }[]) =>
+        items.map(item => `  - name: ${yamlString(item.name)}\n    desc: ${yamlString(item.description)}`).join('\n');
+    const bonuses = (pairs: [string, number][], key: (label: string) => string) =>
+        pairs.map(([label, bonus]) => `  - ${yamlString(key(label))}: ${bonus}`).join('\n');
+
+    const saves = parseBonuses(stats.savingThrows);
+    const skills = parseBonuses(stats.skills);
+    const lines = [
+        'layout: Basic 5e Layout',
+        `name: ${yamlString(name)}`,
+        `size: ${yamlString(size ?? 'Medium')}`,
+        `type: ${yamlString(type ?? 'humanoid')}`,
+        `subtype: ${yamlString(subtype ?? '')}`,
+        `alignment: ${yamlString(alignment)}`,
+        `ac: ${stats.armorClass}`,
+        `hp: ${stats.hitPointMaximum}`,
+        `hit_dice: ${yamlString(stats.hitDiceFormula)}`,
+        `speed: ${yamlString(stats.speed)}`,
+        `stats: [${(['str', 'dex', 'con', 'int', 'wis', 'cha'] as const).map(a => stats.abilityScores[a]).join(', ')}]`,
+        saves.length > 0 ? `saves:\n${bonuses(saves, label => saveNames[label] ?? label.toLowerCase())}` : '',
+        skills.length > 0 ? `skillsaves:\n${bonuses(skills, label => label.toLowerCase())}` : '',
+        `senses: ${yamlString(stats.senses)}`,
+        `languages: ${yamlString(stats.languages)}`,
+        `cr: ${yamlString(stats.challenge.split(' ')[0])}`,
+        stats.traits && stats.traits.length > 0 ? `traits:\n${entries(stats.traits)}` : '',
+        `actions:\n${entries(stats.actions)}`,
+    ];
+    return ['```statblock', ...lines.filter(Boolean), '```'].join('\n');
+};
+
+interface NoteContext {
+    noteNames: Map<string, string>;
+    /** Note name by the NPC's name in lower case, to link names that come up in profiles. */
+    notesByNpcName: Map<string, string>;
+    attachment: string | null;
+}
+
+const linkName = (name: string, context: NoteContext) => {
+    const note = context.notesByNpcName.get(name.trim().toLowerCase());
+    return note ? `[[${note}]]` : name;
+};
+
+/**
+ * Writes one NPC as an Obsidian note: YAML frontmatter for Dataview and search, the profile as
+ * headings, the 5e stat block as a `statblock` fence, and wikilinks to every other NPC in the
+ * export that it is related to.
+ */
+const buildObsidianNote = (record: SavedNpc, context: NoteContext): string => {
+    const { npc, profile } = record;
+    const decoded = decodeDna(record.dna);
+    const alignment = decoded ? formatAlignment(decoded) : typeof profile === 'string' ? '' : profile.alignment;
+    const tags = Array.from(new Set(['npc', toTag(npc.race), ...record.tags.map(toTag)].filter(Boolean)));
+
+    const frontmatter = [
+        '---',
+        `name: ${yamlString(npc.name)}`,
+        `race: ${yamlString(npc.race)}`,
+        `gender: ${yamlString(npc.gender)}`,
+        `age: ${yamlString(npc.age)}`,
+        `profession: ${yamlString(plainProfession(npc.profession))}`,
+        `alignment: ${yamlString(alignment)}`,
+        decoded ? `law_chaos: ${yamlString(decoded.alignment.lnc)}` : '',
+        decoded ? `good_evil: ${yamlString(decoded.alignment.gne)}` : '',
+        typeof profile !== 'string' && profile.role ? `role: ${yamlString(profile.role)}` : '',
+        typeof profile !== 'string' && profile.archetype ? `archetype: ${yamlString(profile.archetype)}` : '',
+        record.campaign ? `campaign: ${yamlString(record.campaign)}` : '',
+        `tags: ${yamlList(tags)}`,
+        record.seed ? `seed: ${yamlString(record.seed)}` : '',
+        `dna: ${yamlString(record.dna)}`,
+        `created: ${yamlString(record.createdAt)}`,
+        `updated: ${yamlString(record.updatedAt)}`,
+        '---',
+    ].filter(Boolean).join('\n');
+
+    const sections: string[] = [frontmatter, `# ${npc.name}`];
+    if (context.attachment) sections.push(`![[${context.attachment}|300]]`);
+
+    if (typeof profile === 'string') {
+        // Legacy profiles are already markdown.
+        sections.push(profile);
+    } else {
+        if (profile.narrativeEssence) sections.push(`> [!quote]\n> ${profile.narrativeEssence}`);
+        sections.push(bullets([
+            `**Role:** ${profile.role || 'N/A'}`,
+            `**Profession:** ${plainProfession(npc.profession)}`,
+            `**Demeanor:** ${npc.demeanor.trim()}`,
+            `**Race:** ${npc.race}`,
+            `**Age:** ${npc.age}`,
+            `**Height:** ${npc.height}`,
+            `**Build:** ${npc.weight.trim()}`,
+        ]));
+        sections.push(`## Appearance & Presence\n\n${bullets(profile.appearance)}`);
+        sections.push(`## Personality & Internal Conflict\n\n${bullets(profile.personality)}`);
+        sections.push(`## Backstory\n\n${profile.backstory.join('\n\n')}`);
+        sections.push([
+            '## Behavioral Model (BDI)',
+            `### Beliefs\n\n${bullets(profile.bdi.beliefs)}`,
+            `### Desires\n\n${bullets(profile.bdi.desires)}`,
+            `### Intentions\n\n${bullets(profile.bdi.intentions)}`,
+        ].join('\n\n'));
+        sections.push(`## Core Motivation\n\n${bullets([`**Wants/Needs:** ${npc.wantsOrNeed}`, `**Secret/Obstacle:** ${npc.secretOrObstacle}`])}`);
+    }
+
+    const stats = buildStatBlock(npc, { dna: decoded });
+    const tactics = deriveCombatTactics(decoded, stats.hitPointMaximum);
+    sections.push(`## Stat Block\n\n${statblockFence(npc.name, stats, alignment)}`);
+    sections.push(`### Tactics & Morale\n\n${bullets([
+        `**Opening:** ${tactics.opening.text}`,
+        `**Preferred Targets:** ${tactics.preferredTargets.text}`,
+        `**When an Ally Falls:** ${tactics.allyFalls.text}`,
+        `**Flees:** ${tactics.flee.text}`,
+        `**Surrender:** ${tactics.surrender.text}`,
+    ])}`);
+    if (stats.adjustments.length > 0) {
+        sections.push(`### Shaped by Personality\n\n${bullets(stats.adjustments.map(a => `**${a.source}:** ${describeAdjustment(a)}`))}`);
+    }
+
+    if (typeof profile !== 'string') {
+        sections.push(`## Strengths & Weaknesses\n\n${bullets([...profile.strengths.map(s => `➕ ${s}`), ...profile.weaknesses.map(w => `➖ ${w}`)])}`);
+        sections.push(`## Secrets\n\n${bullets(profile.secrets)}`);
+        sections.push(`## Significant Relationships\n\n${bullets(profile.relationships.map(r =>
+            `**${linkName(r.name, context)}${r.relationship ? ` (${r.relationship})` : ''}:** ${r.description}`))}`);
+        sections.push(`## Notable Possessions\n\n${bullets(profile.possessions.map(p => `**${p.name}:** ${p.description}`))}`);
+        sections.push(`## Roleplaying Cues\n\n${bullets([
+            `**Communication Style:** ${profile.roleplayingCues.communicationStyle}`,
+            `**Core Vulnerability:** ${profile.roleplayingCues.coreVulnerability}`,
+            `**Mechanical Note:** ${profile.roleplayingCues.mechanicalNote}`,
+        ])}`);
+        sections.push(`## Example Interaction\n\n${profile.exampleInteraction.join('\n\n')}`);
+        sections.push(`## Adventure Hooks\n\n${bullets(profile.hooks.map(hook => `**${hook.title}:** ${hook.description}`))}`);
+    }
+    sections.push(`## Inventory & Currency\n\n${bullets(npc.alsoCarrying.map(item => item.trim()))}\n\n**GP:** ${npc.gold} · **SP:** ${npc.silver} · **CP:** ${npc.copper}`);
+
+    const links = (record.relationships ?? []).filter(link => context.noteNames.has(link.to));
+    if (links.length > 0) {
+        sections.push(`## Related NPCs\n\n${bullets(links.map(link =>
+            `${relationshipLabels[link.type]} [[${context.noteNames.get(link.to)}]]${link.description ? `: ${link.description}` : ''}`))}`);
+    }
+
+    return `${sections.join('\n\n')}\n`;
+};
+
+const base64ToBytes = (base64: string): Uint8Array => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+};
+
+/**
+ * Packs NPCs into a zip that unpacks into an Obsidian vault: one note per NPC under `NPCs/`, and
+ * their portraits under `NPCs/attachments/`. NPCs with the same name get numbered notes so every
+ * wikilink points at the right one.
+ */
+export const buildObsidianVault = (records: SavedNpc[]): Uint8Array => {
+    const noteNames = new Map<string, string>();
+    const used = new Set<string>();
+    for (const record of records) {
+        const base = safeNoteName(record.npc.name);
+        let name = base;
+        for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base} ${n}`;
+        used.add(name.toLowerCase());
+        noteNames.set(record.id, name);
+    }
+    const notesByNpcName = new Map<string, string>();
+    for (const record of records) {
+        const key = record.npc.name.trim().toLowerCase();
+        if (!notesByNpcName.has(key)) notesByNpcName.set(key, noteNames.get(record.id)!);
+    }
+
+    const files: ZipEntry[] = [];
+    for (const record of records) {
+        const noteName = noteNames.get(record.id)!;
+        const attachment = record.imageUrl ? `${noteName}.png` : null;
+        if (record.imageUrl) {
+            files.push({ path: `${ATTACHMENTS_FOLDER}/${attachment}`, data: base64ToBytes(record.imageUrl) });
+        }
+        files.push({ path: `${NOTES_FOLDER}/${noteName}.md`, data: buildObsidianNote(record, { noteNames, notesByNpcName, attachment }) });
+    }
+    return createZip(files);
+};
+
+export const vaultFileName = (records: SavedNpc[]) =>
+    records.length === 1 ? `${safeNoteName(records[0].npc.name).replace(/\s+/g, '_')}-obsidian.zip` : `npc-vault-${records.length}.zip`;
@@ -0,0 +1,95 @@
+// services/osrStatBlock.ts
+
+import { deriveCharacter, weaponAbility, weapons } from './statBlock';
+import { deriveCombatTactics } from './combatTactics';
+import { getRaceDefinition } from '../data/races';
+import type { StatSheet, StatSheetOptions } from './gameSystems';
+import type { Npc } from '../types';
+
+export const osrHitDice = ['1/2', '1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12'];
+
+// Attack roll needed to hit AC 0, by Hit Dice; half a Hit Die attacks as a normal human.
+const thac0ByHitDice: Record<string, number> = {
+    '1/2': 20, '1': 19, '2': 18, '3': 17, '4': 16, '5': 15, '6': 14, '7': 13, '8': 12, '9': 12, '10': 11, '11': 11, '12': 10,
+};
+
+const xpByHitDice: Record<string, number> = {
+    '1/2': 5, '1': 10, '2': 20, '3': 35, '4': 75, '5': 175, '6': 275, '7': 450, '8': 650, '9': 900, '10': 1000, '11': 1100, '12': 1250,
+};
+
+// Death/poison, wands, paralysis/petrification, breath, spells/rods/staves.
+const normalHumanSaves = [14, 15, 16, 17, 18];
+const fighterSaves: [number, number[]][] = [
+    [3, [12, 13, 14, 15, 16]],
+    [6, [10, 11, 12, 13, 14]],
+    [9, [8, 9, 10, 10, 12]],
+    [12, [6, 7, 8, 8, 10]],
+];
+
+// B/X ability score modifiers, used for the attack and damage bonus.
+const abilityModifier = (score: number) =>
+    score <= 3 ? -3 : score <= 5 ? -2 : score <= 8 ? -1 : score <= 12 ? 0 : score <= 15 ? 1 : score <= 17 ? 2 : 3;
+
+const formatMovement = (feet: number) => `${feet}' (${feet / 3}')`;
+
+/**
+ * Builds a B/X-style stat line for an NPC: descending AC with the ascending value in brackets,
+ * Hit Dice, THAC0, saves as a fighter of the same level and morale on 2d6. Morale comes from the
+ * NPC's flee threshold, so a cowardly NPC breaks sooner here too.
+ */
+export const buildOsrStatSheet = (npc: Npc, options: StatSheetOptions = {}): StatSheet => {
+    const { race, template, weaponNames, abilityScores, adjustments } = deriveCharacter(npc, options.dna ?? null);
+    // Everyday commoners are normal humans with half a Hit Die.
+    const hitDice = options.target ?? (template.hitDice <= 1 ? '1/2' : String(template.hitDice - 1));
+    if (!(hitDice in thac0ByHitDice)) {
+        throw new Error(`"${options.target}" is not a number of Hit Dice.`);
+    }
+
+    const count = hitDice === '1/2' ? 0 : Number(hitDice);
+    const hitPoints = count === 0 ? 2 : Math.floor(count * 4.5);
+    const thac0 = thac0ByHitDice[hitDice];
+    const descendingAc = 19 - template.armorClass;
+    const saves = count === 0 ? normalHumanSaves : fighterSaves.find(([maxLevel]) => count <= maxLevel)![1];
+    const saveAs = count === 0 ? 'Normal Human' : `F${count}`;
+
+    const tactics = deriveCombatTactics(options.dna ?? null, hitPoints);
+    // A quarter of hit points lost before breaking sits at morale 7, a typical hireling's.
+    const morale = Math.min(12, Math.max(2, Math.round(12 - tactics.fleePercent / 5)));
+    const alignment = options.dna?.alignment.lnc ?? 'Neutral';
+
+    const attacks = weaponNames.map(name => {
+        const weapon = weapons[name];
+        const bonus = abilityModifier(abilityScores[weaponAbility(weapon, abilityScores)]);
+        const damageBonus = weapon.ranged ? 0 : bonus;
+        return {
+            name,
+            description: `${weapon.ranged ? 'Missile' : weapon.thrown ? 'Melee or thrown' : 'Melee'}, ${bonus >= 0 ? '+' : ''}${bonus} to hit, 1d${weapon.die}${damageBonus !== 0 ? `${damageBonus > 0 ? '+' : ''}${damageBonus}` : ''} damage.`,
+        };
+    });
+
+    return {
+        subtitle: `${npc.race} ${npc.profession.trim().toLowerCase()}`,
+        sections: [
+            [
+                { label: 'AC', value: `${descendingAc} [${template.armorClass}]` },
+                { label: 'HD', value: `${hitDice} (${hitPoints}hp)` },
+                { label: 'Att', value: `1 × ${weaponNames[0].toLowerCase()} (1d${weapons[weaponNames[0]].die})` },
+                { label: 'THAC0', value: `${thac0} [${19 - thac0 >= 0 ? '+' : ''}${19 - thac0}]` },
+                { label: 'MV', value: formatMovement(race.speed < 30 ? 90 : 120) },
+            ],
+            [
+                { label: 'SV', value: `D${saves[0]} W${saves[1]} P${saves[2]} B${saves[3]} S${saves[4]} (${saveAs})` },
+                { label: 'ML', value: String(morale) },
+                { label: 'AL', value: alignment },
+                { label: 'XP', value: String(xpByHitDice[hitDice]) },
+            ],
+        ],
+        abilities: (Object.keys(abilityScores) as (keyof typeof abilityScores)[]).map(a => ({ label: a.toUpperCase(), value: String(Math.min(18, abilityScores[a])) })),
+        traits: getRaceDefinition(npc.race)?.osrAbilities ?? [],
+        actionsTitle: 'Weapons',
+        actions: attacks,
+        hitPointMaximum: hitPoints,
+        note: `Saves as ${saveAs}, morale ${morale} from the flee threshold`,
+        adjustments,
+    };
+};
@@ -0,0 +1,464 @@
+// services/pdfExport.ts
+
+import { jsPDF } from 'jspdf';
+import { describeAdjustment } from './traitMechanics';
+import type { CombatTactics } from './combatTactics';
+import type { DecodedDna } from './dnaDecoder';
+import type { StatSheet } from './gameSystems';
+import type { Npc, NpcProfile } from '../types';
+
+/** Everything the character sheet shows, as the card has it on screen. */
+export interface NpcPdfContent {
+    npc: Npc;
+    profile: NpcProfile;
+    /** Base64-encoded PNG portrait. */
+    imageUrl: string | null;
+    seed?: string | null;
+    dna: string;
+    decodedDna: DecodedDna | null;
+    /** e.g. "D&D 5e", for the stat block's heading. */
+    systemLabel: string;
+    sheet: StatSheet;
+    tactics: CombatTactics;
+}
+
+type Rgb = [number, number, number];
+
+const PAGE_MARGIN = 48;
+const BODY_SIZE = 10;
+const LINE_FACTOR = 1.35;
+
+const colors: Record<'ink' | 'muted' | 'heading' | 'rule' | 'parchment' | 'parchmentBorder', Rgb> = {
+    ink: [30, 30, 30],
+    muted: [100, 100, 100],
+    heading: [88, 24, 13],
+    rule: [146, 38, 16],
+    parchment: [253, 241, 220],
+    parchmentBorder: [216, 200, 170],
+};
+
+// The standard PDF fonts only cover the Windows-1252 characters; the few others the stat sheets
+// use are swapped for near equivalents.
+const plain = (text: string) => text
+    .replace(/−/g, '-')
+    .replace(/◆/g, '>');
+
+const lineHeight = (size: number) => size * LINE_FACTOR;
+
+interface TextStyle {
+    size?: number;
+    font?: 'helvetica' | 'times' | 'courier';
+    style?: 'normal' | 'bold' | 'italic' | 'bolditalic';
+    color?: Rgb;
+}
+
+/** A block laid out ahead of time, so its height is known before it is drawn. */
+interface Block {
+    height: number;
+    draw: (y: number) => void;
+}
+
+/**
+ * Keeps a cursor down the page and starts a new page when the next block would run off the
+ * bottom. Text is laid out with jsPDF's own metrics, so it stays real, selectable text.
+ */
+const createPageWriter = (doc: jsPDF) => {
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const contentWidth = pageWidth - PAGE_MARGIN * 2;
+    let y = PAGE_MARGIN;
+
+    const setStyle = ({ size = BODY_SIZE, font = 'helvetica', style = 'normal', color = colors.ink }: TextStyle) => {
+        doc.setFont(font, style);
+        doc.setFontSize(size);
+        doc.setTextColor(...color);
+    };
+
+    const ensureSpace = (height: number) => {
+        if (y + height > pageHeight - PAGE_MARGIN) {
+            doc.addPage();
+            y = PAGE_MARGIN;
+        }
+    };
+
+    // One block per wrapped line, so long paragraphs break across pages.
+    const textLines = (text: string, x: number, width: number, style: TextStyle = {}): Block[] => {
+        setStyle(style);
+        const size = style.size ?? BODY_SIZE;
+        const lines: string[] = doc.splitTextToSize(plain(text), width);
+        return lines.map(line => ({
+            height: lineHeight(size),
+            draw: (top: number) => {
+                setStyle(style);
+                doc.text(line, x, top + size);
+            },
+        }));
+    };
+
+    // "Label: text" with the label in bold, wrapping under the label rather than beside it.
+    const labeledLines = (label: string, body: string, x: number, width: number, labelStyle: TextStyle = {}, bodyStyle: TextStyle = {}): Block[] => {
+        const size = bodyStyle.size ?? BODY_SIZE;
+        setStyle({ ...bodyStyle, ...labelStyle, style: labelStyle.style ?? 'bold' });
+        const labelText = plain(label);
+        const labelWidth = doc.getTextWidth(`${labelText} `);
+        setStyle(bodyStyle);
+
+        const lines: string[] = [];
+        let line = '';
+        for (const word of plain(body).split(/\s+/).filter(Boolean)) {
+            const candidate = line ? `${line} ${word}` : word;
+            const available = lines.length === 0 ? width - labelWidth : width;
+            if (line && doc.getTextWidth(candidate) > available) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = candidate;
+            }
+        }
+        lines.push(line);
+
+        return lines.map((text, index) => ({
+            height: lineHeight(size),
+            draw: (top: number) => {
+                if (index === 0) {
+                    setStyle({ ...bodyStyle, ...labelStyle, style: labelStyle.style ?? 'bold' });
+                    doc.text(labelText, x, top + size);
+                }
+                setStyle(bodyStyle);
+                doc.text(text, index === 0 ? x + labelWidth : x, top + size);
+            },
+        }));
+    };
+
+    const place = (blocks: Block[]) => {
+        for (const block of blocks) {
+            ensureSpace(block.height);
+            block.draw(y);
+            y += block.height;
+        }
+    };
+
+    const space = (height: number) => {
+        y += height;
+    };
+
+    const chapter = (title: string) => {
+        ensureSpace(60);
+        space(8);
+        place(textLines(title, PAGE_MARGIN, contentWidth, { size: 18, font: 'times', style: 'bold', color: colors.heading }));
+        doc.setDrawColor(...colors.rule);
+        doc.setLineWidth(1.5);
+        doc.line(PAGE_MARGIN, y + 2, PAGE_MARGIN + contentWidth, y + 2);
+        space(10);
+    };
+
+    const heading = (title: string) => {
+        // Keep a heading with at least a couple of lines of what follows it.
+        ensureSpace(lineHeight(13) + lineHeight(BODY_SIZE) * 2 + 6);
+        space(6);
+        place(textLines(title, PAGE_MARGIN, contentWidth, { size: 13, font: 'times', style: 'bold', color: colors.heading }));
+        space(2);
+    };
+
+    const paragraph = (text: string, style: TextStyle = {}) => {
+        place(textLines(text, PAGE_MARGIN, contentWidth, style));
+        space(4);
+    };
+
+    const bullets = (items: (string | { label: string; text: string })[], marker = '•') => {
+        const indent = 12;
+        for (const item of items) {
+            const blocks = typeof item === 'string'
+                ? textLines(item, PAGE_MARGIN + indent, contentWidth - indent)
+                : labeledLines(`${item.label}:`, item.text, PAGE_MARGIN + indent, contentWidth - indent);
+            const [first, ...rest] = blocks;
+            place([{
+                height: first.height,
+                draw: (top) => {
+                    setStyle({ color: colors.heading });
+                    doc.text(marker, PAGE_MARGIN, top + BODY_SIZE);
+                    first.draw(top);
+                },
+            }, ...rest]);
+            space(2);
+        }
+    };
+
+    /**
+     * Draws blocks on a parchment panel, the full width of the page. A panel too tall for what
+     * is left of the page is split, each part on its own panel.
+     */
+    const panel = (blocks: Block[]) => {
+        const padding = 10;
+        let index = 0;
+        while (index < blocks.length) {
+            const first = blocks[index];
+            ensureSpace(first.height + padding * 2);
+            const available = pageHeight - PAGE_MARGIN - y - padding * 2;
+            let height = 0;
+            let end = index;
+            while (end < blocks.length && height + blocks[end].height <= available) {
+                height += blocks[end].height;
+                end++;
+            }
+            if (end === index) {
+                height = first.height;
+                end = index + 1;
+            }
+            doc.setFillColor(...colors.parchment);
+            doc.setDrawColor(...colors.parchmentBorder);
+            doc.setLineWidth(1);
+            doc.rect(PAGE_MARGIN, y, contentWidth, height + padding * 2, 'FD');
+            let top = y + padding;
+            for (const block of blocks.slice(index, end)) {
+                block.draw(top);
+                top += block.height;
+            }
+            y += height + padding * 2;
+            index = end;
+        }
+        space(10);
+    };
+
+    const rule = (x: number, width: number): Block => ({
+        height: 8,
+        draw: (top) => {
+            doc.setDrawColor(...colors.rule);
+            doc.setLineWidth(1.2);
+            doc.line(x, top + 4, x + width, top + 4);
+        },
+    });
+
+    const gap = (height: number): Block => ({ height, draw: () => undefined });
+
+    return {
+        doc, contentWidth, setStyle, ensureSpace, textLines, labeledLines, place, space, chapter, heading,
+        paragraph, bullets, panel, rule, gap,
+        get y() { return y; },
+        set y(value: number) { y = value; },
+    };
+};
+
+type PageWriter = ReturnType<typeof createPageWriter>;
+
+const writeHeader = (writer: PageWriter, { npc, profile, imageUrl, seed }: NpcPdfContent) => {
+    const { doc } = writer;
+    const top = writer.y;
+    const portraitSize = 170;
+    const textX = PAGE_MARGIN + (imageUrl ? portraitSize + 18 : 0);
+    const textWidth = writer.contentWidth - (imageUrl ? portraitSize + 18 : 0);
+
+    if (imageUrl) {
+        doc.addImage(`data:image/png;base64,${imageUrl}`, 'PNG', PAGE_MARGIN, top, portraitSize, portraitSize);
+        doc.setDrawColor(...colors.parchmentBorder);
+        doc.setLineWidth(1);
+        doc.rect(PAGE_MARGIN, top, portraitSize, portraitSize);
+    }
+
+    const vitals: [string, string][] = [
+        ['Role', profile.role || 'N/A'],
+        ['Profession', npc.profession.trim()],
+        ['Demeanor', npc.demeanor.trim()],
+        ['Alignment', profile.alignment || 'N/A'],
+        ['Archetype', profile.archetype || 'N/A'],
+        ['Race', npc.race],
+        ['Gender', npc.gender],
+        ['Age', npc.age],
+        ['Height', npc.height],
+        ['Build', npc.weight.trim()],
+    ];
+    if (seed) vitals.push(['Seed', seed]);
+
+    let textY = top;
+    for (const block of writer.textLines(profile.name, textX, textWidth, { size: 22, font: 'times', style: 'bold', color: colors.heading })) {
+        block.draw(textY);
+        textY += block.height;
+    }
+    textY += 4;
+    for (const [label, value] of vitals) {
+        for (const block of writer.labeledLines(label, value, textX, textWidth, { color: colors.muted }, { size: 9.5 })) {
+            block.draw(textY);
+            textY += block.height;
+        }
+    }
+
+    writer.y = Math.max(textY, imageUrl ? top + portraitSize : textY) + 12;
+    if (profile.narrativeEssence) {
+        writer.paragraph(`"${profile.narrativeEssence}"`, { style: 'italic', size: 11, color: colors.heading });
+    }
+};
+
+// The stat block as a parchment panel in the style of the card's Stats tab.
+const statSheetBlocks = (writer: PageWriter, name: string, sheet: StatSheet): Block[] => {
+    const x = PAGE_MARGIN + 10;
+    const width = writer.contentWidth - 20;
+    const label = { color: colors.rule };
+    const blocks: Block[] = [
+        ...writer.textLines(name, x, width, { size: 16, font: 'times', style: 'bold', color: colors.heading }),
+        ...writer.textLines(sheet.subtitle, x, width, { style: 'italic' }),
+        writer.rule(x, width),
+    ];
+
+    const section = (lines: StatSheet['sections'][number]) =>
+        lines.flatMap(line => writer.labeledLines(line.label, line.value, x, width, label));
+
+    const [firstSection, ...otherSections] = sheet.sections;
+    if (firstSection) blocks.push(...section(firstSection), writer.rule(x, width));
+
+    if (sheet.abilities.length > 0) {
+        const columnWidth = width / sheet.abilities.length;
+        blocks.push({
+            height: lineHeight(BODY_SIZE) * 2,
+            draw: (top) => {
+                sheet.abilities.forEach((ability, index) => {
+                    const center = x + columnWidth * (index + 0.5);
+                    writer.setStyle({ style: 'bold', color: colors.rule });
+                    writer.doc.text(plain(ability.label), center, top + BODY_SIZE, { align: 'center' });
+                    writer.setStyle({});
+                    writer.doc.text(plain(ability.value), center, top + BODY_SIZE + lineHeight(BODY_SIZE), { align: 'center' });
+                });
+            },
+        }, writer.rule(x, width));
+    }
+
+    otherSections.forEach((lines, index) => {
+        blocks.push(...section(lines));
+        if (index < otherSections.length - 1) blocks.push(writer.rule(x, width));
+    });
+
+    if (sheet.traits.length > 0) {
+        blocks.push(writer.gap(4));
+        for (const trait of sheet.traits) {
+            blocks.push(...writer.labeledLines(`${trait.name}.`, trait.description, x, width, { style: 'bolditalic' }), writer.gap(2));
+        }
+    }
+
+    blocks.push(writer.rule(x, width));
+    blocks.push(...writer.textLines(sheet.actionsTitle, x, width, { size: 13, font: 'times', style: 'bold', color: colors.heading }));
+    for (const action of sheet.actions) {
+        blocks.push(...writer.labeledLines(`${action.name}.`, action.description, x, width, { style: 'bolditalic' }), writer.gap(3));
+    }
+    return blocks;
+};
+
+const tacticsBlocks = (writer: PageWriter, tactics: CombatTactics): Block[] => {
+    const x = PAGE_MARGIN + 10;
+    const width = writer.contentWidth - 20;
+    const rows = [
+        { label: 'Opening', entry: tactics.opening },
+        { label: 'Preferred Targets', entry: tactics.preferredTargets },
+        { label: 'When an Ally Falls', entry: tactics.allyFalls },
+        { label: 'Flees', entry: tactics.flee },
+        { label: 'Surrender', entry: tactics.surrender },
+    ];
+    const blocks: Block[] = [
+        ...writer.textLines('Tactics & Morale', x, width, { size: 16, font: 'times', style: 'bold', color: colors.heading }),
+        ...writer.textLines(tactics.fleeAt > 0 ? `Breaks at ${tactics.fleeAt} HP` : 'Never breaks', x, width, { style: 'italic' }),
+        writer.rule(x, width),
+    ];
+    for (const { label, entry } of rows) {
+        blocks.push(...writer.labeledLines(`${label}.`, entry.text, x, width, { style: 'bolditalic' }));
+        if (entry.basis.length > 0) {
+            blocks.push(...writer.textLines(`From ${entry.basis.join(', ')}`, x, width, { size: 8, color: colors.muted }));
+        }
+        blocks.push(writer.gap(3));
+    }
+    return blocks;
+};
+
+/**
+ * Lays out an NPC's character sheet as a paginated PDF: portrait and vitals up top, then every
+ * tab of the card in turn, with the stat block and tactics on parchment panels. All text is real
+ * text, so it can be searched and copied.
+ */
+export const buildNpcPdf = (content: NpcPdfContent): jsPDF => {
+    const { npc, profile, dna, decodedDna, systemLabel, sheet, tactics } = content;
+    const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+    doc.setProperties({ title: `${profile.name} - NPC Profile`, subject: `${npc.race} ${npc.profession.trim()}` });
+    const writer = createPageWriter(doc);
+
+    writeHeader(writer, content);
+
+    writer.chapter('Profile');
+    writer.heading('Appearance & Presence');
+    writer.bullets(profile.appearance);
+    writer.heading('Personality & Internal Conflict');
+    writer.bullets(profile.personality);
+    writer.heading('Backstory');
+    profile.backstory.forEach(p => writer.paragraph(p));
+
+    writer.chapter('Behavior');
+    writer.heading('Beliefs (Core Philosophies)');
+    writer.bullets(profile.bdi.beliefs.map(item => `"${item}"`));
+    writer.heading('Desires (Driving Wants)');
+    writer.bullets(profile.bdi.desires.map(item => `"${item}"`));
+    writer.heading('Intentions (Near-Term Plans)');
+    writer.bullets(profile.bdi.intentions.map(item => `"${item}"`));
+    writer.heading('Core Motivation (Generated)');
+    writer.bullets([
+        { label: 'Wants/Needs', text: npc.wantsOrNeed },
+        { label: 'Secret/Obstacle', text: npc.secretOrObstacle },
+    ]);
+
+    writer.chapter(`${systemLabel} Stat Block`);
+    writer.panel(statSheetBlocks(writer, profile.name, sheet));
+    writer.panel(tacticsBlocks(writer, tactics));
+    if (sheet.adjustments.length > 0) {
+        writer.heading('Shaped by Personality');
+        writer.bullets(sheet.adjustments.map(adjustment => ({ label: adjustment.source, text: describeAdjustment(adjustment) })));
+    }
+
+    writer.chapter('GM Toolkit');
+    writer.heading('Strengths & Weaknesses');
+    writer.bullets(profile.strengths, '+');
+    writer.bullets(profile.weaknesses, '–');
+    writer.heading('Secrets');
+    writer.bullets(profile.secrets);
+    writer.heading('Significant Relationships');
+    writer.bullets(profile.relationships.map(r => ({ label: r.relationship ? `${r.name} (${r.relationship})` : r.name, text: r.description })));
+    writer.heading('Notable Possessions (AI)');
+    writer.bullets(profile.possessions.map(p => ({ label: p.name, text: p.description })));
+    writer.heading('Inventory & Currency (Generated)');
+    writer.bullets(npc.alsoCarrying);
+    writer.paragraph(`GP: ${npc.gold}   SP: ${npc.silver}   CP: ${npc.copper}`, { font: 'courier' });
+    writer.heading('Roleplaying Cues');
+    writer.bullets([
+        { label: 'Communication Style', text: profile.roleplayingCues.communicationStyle },
+        { label: 'Core Vulnerability', text: profile.roleplayingCues.coreVulnerability },
+        { label: 'Mechanical Note', text: profile.roleplayingCues.mechanicalNote },
+    ]);
+
+    writer.chapter('Story Hooks');
+    writer.heading('Example Interaction');
+    profile.exampleInteraction.forEach(p => writer.paragraph(p));
+    writer.heading('Adventure Hooks');
+    writer.bullets(profile.hooks.map(hook => ({ label: hook.title, text: hook.description })));
+
+    if (decodedDna) {
+        writer.chapter('DNA Profile');
+        writer.paragraph(dna, { font: 'courier', size: 8, color: colors.muted });
+        writer.heading('Alignment Averages');
+        writer.bullets([
+            { label: `${decodedDna.alignment.lnc} (${decodedDna.alignment.lncScore}/9)`, text: 'Law vs Chaos' },
+            { label: `${decodedDna.alignment.gne} (${decodedDna.alignment.gneScore}/9)`, text: 'Good vs Evil' },
+        ]);
+        writer.heading('Paired Traits (LNC)');
+        writer.bullets(decodedDna.pairedTraits.map(trait => ({
+            label: trait.name,
+            text: `of ${trait.pair}; intensity ${trait.intensity}/5, influence ${trait.influence}`,
+        })));
+        writer.heading('Unpaired Traits (GNE)');
+        writer.bullets(decodedDna.unpairedTraits.map(trait => ({ label: trait.name, text: `${trait.strength} (${trait.score}/9)` })));
+    }
+
+    // Page numbers go on last, once the page count is known.
+    const pageCount = doc.getNumberOfPages();
+    for (let page = 1; page <= pageCount; page++) {
+        doc.setPage(page);
+        writer.setStyle({ size: 8, color: colors.muted });
+        doc.text(`${plain(profile.name)} - page ${page} of ${pageCount}`, doc.internal.pageSize.getWidth() / 2, doc.internal.pageSize.getHeight() - PAGE_MARGIN / 2, { align: 'center' });
+    }
+    return doc;
+};
+
+export const pdfFileName = (npc: Npc) => `npc-profile-${npc.name.replace(/\s+/g, '_')}.pdf`;
@@ -0,0 +1,153 @@
+// services/pf2eStatBlock.ts
+
+import { deriveCharacter, formatModifier, getModifier, weaponAbility, weapons, type Ability } from './statBlock';
+import { getRaceDefinition } from '../data/races';
+import type { StatSheet, StatSheetOptions } from './gameSystems';
+import type { Npc } from '../types';
+
+interface LevelRow {
+    perception: number;
+    armorClass: number;
+    /** Moderate save; high and low saves are 3 either side. */
+    save: number;
+    hitPoints: number;
+    attack: number;
+    damage: number;
+    skill: number;
+}
+
+// Moderate values from the "Building Creatures" tables, for creature levels -1 to 20.
+const levelTable: Record<number, LevelRow> = {
+    [-1]: { perception: 5, armorClass: 14, save: 5, hitPoints: 8, attack: 6, damage: 3, skill: 4 },
+    0: { perception: 6, armorClass: 15, save: 6, hitPoints: 15, attack: 6, damage: 4, skill: 5 },
+    1: { perception: 7, armorClass: 15, save: 7, hitPoints: 20, attack: 7, damage: 5, skill: 6 },
+    2: { perception: 8, armorClass: 17, save: 8, hitPoints: 30, attack: 9, damage: 8, skill: 7 },
+    3: { perception: 9, armorClass: 18, save: 9, hitPoints: 45, attack: 10, damage: 10, skill: 9 },
+    4: { perception: 11, armorClass: 20, save: 11, hitPoints: 60, attack: 12, damage: 12, skill: 10 },
+    5: { perception: 12, armorClass: 21, save: 12, hitPoints: 75, attack: 13, damage: 13, skill: 12 },
+    6: { perception: 14, armorClass: 23, save: 14, hitPoints: 95, attack: 15, damage: 15, skill: 13 },
+    7: { perception: 15, armorClass: 24, save: 15, hitPoints: 115, attack: 16, damage: 17, skill: 15 },
+    8: { perception: 16, armorClass: 26, save: 16, hitPoints: 135, attack: 18, damage: 18, skill: 16 },
+    9: { perception: 18, armorClass: 27, save: 18, hitPoints: 155, attack: 19, damage: 20, skill: 18 },
+    10: { perception: 19, armorClass: 29, save: 19, hitPoints: 175, attack: 21, damage: 22, skill: 19 },
+    11: { perception: 21, armorClass: 30, save: 21, hitPoints: 195, attack: 22, damage: 23, skill: 21 },
+    12: { perception: 22, armorClass: 32, save: 22, hitPoints: 215, attack: 24, damage: 25, skill: 22 },
+    13: { perception: 23, armorClass: 33, save: 23, hitPoints: 235, attack: 25, damage: 27, skill: 24 },
+    14: { perception: 25, armorClass: 35, save: 25, hitPoints: 255, attack: 27, damage: 28, skill: 25 },
+    15: { perception: 26, armorClass: 36, save: 26, hitPoints: 275, attack: 28, damage: 30, skill: 27 },
+    16: { perception: 28, armorClass: 38, save: 28, hitPoints: 295, attack: 30, damage: 31, skill: 28 },
+    17: { perception: 29, armorClass: 39, save: 29, hitPoints: 315, attack: 31, damage: 32, skill: 30 },
+    18: { perception: 30, armorClass: 41, save: 30, hitPoints: 335, attack: 33, damage: 33, skill: 31 },
+    19: { perception: 32, armorClass: 42, save: 32, hitPoints: 355, attack: 34, damage: 35, skill: 33 },
+    20: { perception: 33, armorClass: 44, save: 33, hitPoints: 375, attack: 36, damage: 37, skill: 34 },
+};
+
+export const pf2eLevels = Object.keys(levelTable).map(Number).sort((a, b) => a - b);
+
+const pf2eSkills: Record<string, string | null> = {
+    'Acrobatics': 'Acrobatics', 'Animal Handling': 'Nature', 'Arcana': 'Arcana', 'Athletics': 'Athletics',
+    'Deception': 'Deception', 'History': 'Society', 'Insight': null, 'Intimidation': 'Intimidation',
+    'Investigation': 'Society', 'Medicine': 'Medicine', 'Nature': 'Nature', 'Perception': null,
+    'Performance': 'Performance', 'Persuasion': 'Diplomacy', 'Religion': 'Religion', 'Sleight of Hand': 'Thievery',
+    'Stealth': 'Stealth', 'Survival': 'Survival',
+};
+
+const pf2eSkillAbilities: Record<string, Ability> = {
+    'Acrobatics': 'dex', 'Arcana': 'int', 'Athletics': 'str', 'Deception': 'cha', 'Diplomacy': 'cha',
+    'Intimidation': 'cha', 'Medicine': 'wis', 'Nature': 'wis', 'Performance': 'cha', 'Religion': 'wis',
+    'Society': 'int', 'Stealth': 'dex', 'Survival': 'wis', 'Thievery': 'dex',
+};
+
+const weaponTraits: Record<string, string[]> = {
+    'Club': ['thrown 10 feet'],
+    'Dagger': ['agile', 'finesse', 'thrown 10 feet', 'versatile S'],
+    'Greataxe': ['sweep'],
+    'Handaxe': ['agile', 'sweep', 'thrown 10 feet'],
+    'Light Crossbow': ['range increment 120 feet'],
+    'Light Hammer': ['agile', 'thrown 20 feet'],
+    'Longsword': ['versatile P'],
+    'Mace': ['shove'],
+    'Quarterstaff': ['monk', 'parry', 'two-hand d8'],
+    'Rapier': ['deadly d8', 'disarm', 'finesse'],
+    'Shortbow': ['deadly d10', 'range increment 60 feet'],
+    'Shortsword': ['agile', 'finesse', 'versatile S'],
+    'Sickle': ['agile', 'finesse', 'trip'],
+    'Spear': ['thrown 20 feet'],
+    'Warhammer': ['shove'],
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// How far an attribute modifier moves a moderate value: a little, either way.
+const nudge = (mod: number) => clamp(mod, -2, 2);
+
+/**
+ * Builds a Pathfinder 2e creature block for an NPC. Numbers start from the moderate column of the
+ * building-creatures tables for the creature's level and are nudged by armor, attributes and the
+ * saves and skills the NPC's traits give it.
+ */
+export const buildPf2eStatSheet = (npc: Npc, options: StatSheetOptions = {}): StatSheet => {
+    const { race, template, weaponNames, abilityScores, skills, saves, adjustments } = deriveCharacter(npc, options.dna ?? null);
+    // Commoners are level -1 and a town guard level 1, as in the bestiaries.
+    const level = options.target !== undefined ? Number(options.target) : template.hitDice <= 1 ? -1 : template.hitDice - 1;
+    const row = levelTable[level];
+    if (!row) {
+        throw new Error(`"${options.target}" is not a creature level.`);
+    }
+
+    const mods = Object.fromEntries((Object.keys(abilityScores) as Ability[]).map(a => [a, getModifier(abilityScores[a])])) as Record<Ability, number>;
+    const keyAbility = weaponAbility(weapons[weaponNames[0]], abilityScores);
+    // The key attribute rises at levels 5, 10, 15 and 20.
+    mods[keyAbility] = Math.min(7, mods[keyAbility] + [5, 10, 15, 20].filter(l => level >= l).length);
+
+    const proficientSave = (...names: Ability[]) => names.some(a => saves.has(a)) ? 3 : 0;
+    const fortitude = row.save + nudge(mods.con) + proficientSave('con', 'str');
+    const reflex = row.save + nudge(mods.dex) + proficientSave('dex');
+    const will = row.save + nudge(mods.wis) + proficientSave('wis', 'int', 'cha');
+    const armorClass = row.armorClass + clamp(Math.round((template.armorClass - 13) / 2), -2, 2);
+    const hitPoints = Math.max(1, Math.round(row.hitPoints * (1 + mods.con / 10)));
+    const perception = row.perception + nudge(mods.wis) + (skills.has('Perception') || skills.has('Insight') ? 2 : 0);
+
+    const skillNames = [...new Set([...skills].map(skill => pf2eSkills[skill]).filter((s): s is string => !!s))].sort();
+    const skillString = skillNames.map(skill => `${skill} ${formatModifier(row.skill + nudge(mods[pf2eSkillAbilities[skill]]))}`).join(', ');
+
+    const diceCount = level >= 19 ? 4 : level >= 12 ? 3 : level >= 4 ? 2 : 1;
+    const actions = weaponNames.map(name => {
+        const weapon = weapons[name];
+        const mod = mods[weaponAbility(weapon, abilityScores)];
+        const attack = row.attack + clamp(mod - 3, -2, 1);
+        const bonus = Math.max(0, Math.round(row.damage - diceCount * (weapon.die + 1) / 2));
+        const traits = weaponTraits[name] ?? [];
+        return {
+            name: `${weapon.ranged ? 'Ranged' : 'Melee'} ◆ ${name}`,
+            description: `${formatModifier(attack)}${traits.length > 0 ? ` (${traits.join(', ')})` : ''}, Damage ${diceCount}d${weapon.die}${bonus > 0 ? `+${bonus}` : ''} ${weapon.damageType}`,
+        };
+    });
+
+    const creature = npc.race;
+    const vision = getRaceDefinition(npc.race)?.pf2eVision;
+    return {
+        subtitle: `Creature ${level} · ${race.size} · Humanoid · ${creature}`,
+        sections: [
+            [
+                { label: 'Perception', value: `${formatModifier(perception)}${vision ? `; ${vision}` : ''}` },
+                { label: 'Languages', value: race.languages.join(', ') },
+                { label: 'Skills', value: skillString },
+            ].filter(line => line.value),
+            [
+                { label: 'AC', value: `${armorClass}; Fort ${formatModifier(fortitude)}, Ref ${formatModifier(reflex)}, Will ${formatModifier(will)}` },
+                { label: 'HP', value: String(hitPoints) },
+            ],
+            [
+                { label: 'Speed', value: `${race.speed} feet` },
+            ],
+        ],
+        abilities: (Object.keys(mods) as Ability[]).map(a => ({ label: `${a.charAt(0).toUpperCase()}${a.slice(1)}`, value: formatModifier(mods[a]) })),
+        traits: [],
+        actionsTitle: 'Strikes',
+        actions,
+        hitPointMaximum: hitPoints,
+        note: `Moderate values for a level ${level} creature`,
+        adjustments,
+    };
+};
@@ -0,0 +1,302 @@
+// services/profileParser.ts
+
+import type { NpcProfile } from '../types';
+
+const stringList = (description: string) => ({ type: 'array', items: { type: 'string' }, description });
+
+/**
+ * JSON schema sent to the model so it answers with an `NpcProfile` object.
+ */
+export const npcProfileSchema = {
+    type: 'object',
+    properties: {
+        name: { type: 'string' },
+        role: { type: 'string', description: 'The role the NPC plays in the story or community.' },
+        alignment: { type: 'string', description: 'e.g. "Lawful Good" or "True Neutral".' },
+        narrativeEssence: { type: 'string', description: 'A poetic metaphor capturing their essence.' },
+        archetype: { type: 'string', description: 'The character archetype, e.g. "The Reluctant Hero".' },
+        appearance: stringList('Physical features and presence, one point per item. Include a non-visual sensory detail.'),
+        personality: stringList('Personality and internal conflict, one point per item: voice, contradiction, quirk, vulnerability.'),
+        backstory: stringList('Backstory paragraphs, including a turning point.'),
+        bdi: {
+            type: 'object',
+            properties: {
+                beliefs: stringList('Core philosophies in the NPC\'s own voice.'),
+                desires: stringList('Driving wants.'),
+                intentions: stringList('Near-term plans, at least one that could intersect with the party.'),
+            },
+            required: ['beliefs', 'desires', 'intentions'],
+        },
+        strengths: stringList('Strengths derived from dominant traits or worldview.'),
+        weaknesses: stringList('Weaknesses or blind spots that create roleplay tension.'),
+        secrets: stringList('1-2 hidden truths that influence trust or power.'),
+        relationships: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    name: { type: 'string' },
+                    relationship: { type: 'string', description: 'e.g. "estranged sister", "creditor".' },
+                    description: { type: 'string' },
+                },
+                required: ['name', 'relationship', 'description'],
+            },
+        },
+        possessions: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    name: { type: 'string' },
+                    description: { type: 'string' },
+                },
+                required: ['name', 'description'],
+            },
+        },
+        roleplayingCues: {
+            type: 'object',
+            properties: {
+                communicationStyle: { type: 'string' },
+                coreVulnerability: { type: 'string' },
+                mechanicalNote: { type: 'string', description: 'A light, system-agnostic mechanical rule reflecting their personality.' },
+            },
+            required: ['communicationStyle', 'coreVulnerability', 'mechanicalNote'],
+        },
+        exampleInteraction: stringList('A mini scene with dialogue, one paragraph per item.'),
+        hooks: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    title: { type: 'string' },
+                    description: { type: 'string' },
+                },
+                required: ['title', 'description'],
+            },
+        },
+    },
+    required: [
+        'name', 'role', 'alignment', 'narrativeEssence', 'archetype', 'appearance', 'personality', 'backstory',
+        'bdi', 'strengths', 'weaknesses', 'secrets', 'relationships', 'possessions', 'roleplayingCues',
+        'exampleInteraction', 'hooks',
+    ],
+};
+
+// --- JSON profiles ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const expectString = (value: unknown, path: string): string => {
+    if (typeof value !== 'string') throw new Error(`Profile field "${path}" must be text.`);
+    return value.trim();
+};
+
+const expectStringList = (value: unknown, path: string): string[] => {
+    if (!Array.isArray(value)) throw new Error(`Profile field "${path}" must be a list.`);
+    return value.map((item, i) => expectString(item, `${path}[${i}]`)).filter(Boolean);
+};
+
+const expectObject = (value: unknown, path: string): Record<string, unknown> => {
+    if (!isRecord(value)) throw new Error(`Profile field "${path}" must be an object.`);
+    return value;
+};
+
+const expectObjectList = <T,>(value: unknown, path: string, read: (item: Record<string, unknown>, itemPath: string) => T): T[] => {
+    if (!Array.isArray(value)) throw new Error(`Profile field "${path}" must be a list.`);
+    return value.map((item, i) => read(expectObject(item, `${path}[${i}]`), `${path}[${i}]`));
+};
+
+/**
+ * Checks that an arbitrary value has the shape of an `NpcProfile`, throwing an error that names
+ * the first bad field.
+ */
+export const validateNpcProfile = (value: unknown): NpcProfile => {
+    const data = expectObject(value, 'profile');
+    const bdi = expectObject(data.bdi, 'bdi');
+    const cues = expectObject(data.roleplayingCues, 'roleplayingCues');
+
+    return {
+        name: expectString(data.name, 'name'),
+        role: expectString(data.role, 'role'),
+        alignment: expectString(data.alignment, 'alignment'),
+        narrativeEssence: expectString(data.narrativeEssence, 'narrativeEssence'),
+        archetype: expectString(data.archetype, 'archetype'),
+        appearance: expectStringList(data.appearance, 'appearance'),
+        personality: expectStringList(data.personality, 'personality'),
+        backstory: expectStringList(data.backstory, 'backstory'),
+        bdi: {
+            beliefs: expectStringList(bdi.beliefs, 'bdi.beliefs'),
+            desires: expectStringList(bdi.desires, 'bdi.desires'),
+            intentions: expectStringList(bdi.intentions, 'bdi.intentions'),
+        },
+        strengths: expectStringList(data.strengths, 'strengths'),
+        weaknesses: expectStringList(data.weaknesses, 'weaknesses'),
+        secrets: expectStringList(data.secrets, 'secrets'),
+        relationships: expectObjectList(data.relationships, 'relationships', (item, path) => ({
+            name: expectString(item.name, `${path}.name`),
+            relationship: expectString(item.relationship, `${path}.relationship`),
+            description: expectString(item.description, `${path}.description`),
+        })),
+        possessions: expectObjectList(data.possessions, 'possessions', (item, path) => ({
+            name: expectString(item.name, `${path}.name`),
+            description: expectString(item.description, `${path}.description`),
+        })),
+        roleplayingCues: {
+            communicationStyle: expectString(cues.communicationStyle, 'roleplayingCues.communicationStyle'),
+            coreVulnerability: expectString(cues.coreVulnerability, 'roleplayingCues.coreVulnerability'),
+            mechanicalNote: expectString(cues.mechanicalNote, 'roleplayingCues.mechanicalNote'),
+        },
+        exampleInteraction: expectStringList(data.exampleInteraction, 'exampleInteraction'),
+        hooks: expectObjectList(data.hooks, 'hooks', (item, path) => ({
+            title: expectString(item.title, `${path}.title`),
+            description: expectString(item.description, `${path}.description`),
+        })),
+    };
+};
+
+/**
+ * Parses the model's JSON answer into a validated `NpcProfile`. Tolerates a surrounding code fence,
+ * which some local models add even when asked not to.
+ */
+export const parseNpcProfile = (text: string): NpcProfile => {
+    const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error("The profile is not valid JSON.");
+    }
+    return validateNpcProfile(data);
+};
+
+// --- Legacy markdown profiles ---
+// Profiles saved before the JSON format were free-form markdown. This parser is kept only so
+// they can still be rendered.
+
+const sectionHeaders = [
+    "Appearance & Presence", "Personality & Internal Conflict", "Backstory",
+    "Behavioral Model (BDI)", "Strengths & Weaknesses",
+    "Secrets", "Significant Relationships", "Notable Possessions", "Roleplaying Cues",
+    "Example Interaction", "Adventure Hooks"
+];
+
+const headerRegex = (headerText: string) => {
+    const escapedText = headerText.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|\\n)\\s*(?:#+\\s*)?(?:\\*\\*)?${escapedText}(?:\\*\\*)?`, 'i');
+};
+
+// Splits a section into its non-empty lines, without list markers.
+const toLines = (text?: string): string[] => (text ?? '')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line !== '' && !/^-{3,}$/.test(line))
+    .map(line => line.replace(/^(?:[*•–-]\s+)+/, '').trim());
+
+// Splits "**Title:** description" (or "Title: description") into its two halves.
+const splitLabeled = (line: string): { label: string; text: string } => {
+    const match = line.match(/^\*\*(.+?):?\*\*:?\s*(.*)$/) || line.match(/^([^:]{1,60}):\s+(.*)$/);
+    return match ? { label: match[1].trim(), text: match[2].trim() } : { label: '', text: line };
+};
+
+const parseBdiTable = (markdown?: string): NpcProfile['bdi'] => {
+    const bdi: NpcProfile['bdi'] = { beliefs: [], desires: [], intentions: [] };
+    if (!markdown) return bdi;
+
+    const rows = markdown.trim().split('\n').filter(line => line.includes('|') && !/^[\s|:-]+$/.test(line));
+    // The first table row is the header; every following row adds to each column.
+    for (const row of rows.slice(1)) {
+        const cells = row.split('|').slice(1, -1);
+        const [beliefs, desires, intentions] = cells.map(cell => cell
+            .split(/<br\s*\/?>/)
+            .map(item => item.replace(/^\s*•\s*/, '').trim().replace(/^"(.*)"$/, '$1'))
+            .filter(Boolean));
+        bdi.beliefs.push(...(beliefs ?? []));
+        bdi.desires.push(...(desires ?? []));
+        bdi.intentions.push(...(intentions ?? []));
+    }
+    return bdi;
+};
+
+/**
+ * Converts a legacy markdown profile into an `NpcProfile`. Returns null if the markdown does not
+ * contain enough recognizable sections to be worth rendering.
+ */
+export const parseMarkdownProfile = (profile: string, fallbackName: string): NpcProfile | null => {
+    // Find the start of the first content section to isolate the header block
+    let firstSectionIndex = profile.length;
+    for (const headerText of ["Profile", ...sectionHeaders]) {
+        const match = profile.match(headerRegex(headerText));
+        if (match && match.index! < firstSectionIndex) {
+            firstSectionIndex = match.index!;
+        }
+    }
+
+    const headerBlock = profile.substring(0, firstSectionIndex).trim();
+    const contentBlock = profile.substring(firstSectionIndex);
+
+    let narrativeEssence = '';
+    let archetype = '';
+    const tableMatch = headerBlock.match(/\|.*?\n\|[ -:|]+?\n\|(.*?)\|(.*?)\|/s);
+    if (tableMatch) {
+        narrativeEssence = tableMatch[1]?.trim().replace(/[\[\]"]/g, '') || '';
+        archetype = tableMatch[2]?.trim().replace(/[\[\]"]/g, '') || '';
+    }
+
+    const sections: Record<string, string> = {};
+    const headerLocations = sectionHeaders
+        .map(header => {
+            const match = contentBlock.match(headerRegex(header));
+            return { header, index: match ? match.index! : -1, headerLength: match ? match[0].length : 0 };
+        })
+        .filter(h => h.index !== -1)
+        .sort((a, b) => a.index - b.index);
+
+    headerLocations.forEach((current, i) => {
+        const next = headerLocations[i + 1];
+        sections[current.header] = contentBlock.substring(current.index + current.headerLength, next ? next.index : contentBlock.length).trim();
+    });
+
+    if (headerLocations.length < 3) {
+        console.warn("Parsing may have failed to extract enough content from the markdown profile.");
+        return null;
+    }
+
+    const strengthsWeaknesses = (sections["Strengths & Weaknesses"] ?? '').split('\n').map(line => line.trim()).filter(Boolean);
+    const isWeakness = (line: string) => /^(?:[*•]\s+)?[–-]\s+/.test(line);
+
+    const cues = toLines(sections["Roleplaying Cues"]).map(splitLabeled);
+    const findCue = (label: string) => cues.find(cue => cue.label.toLowerCase().startsWith(label))?.text ?? '';
+
+    return {
+        name: headerBlock.match(/^(?:#+\s*)?\*\*(.*?)\*\*/)?.[1]?.trim() || fallbackName,
+        role: headerBlock.match(/\*\*Role:\*\* (.*?)\n/)?.[1]?.trim() || '',
+        alignment: headerBlock.match(/\*\*Alignment:\*\* (.*?)\n/)?.[1]?.trim() || '',
+        narrativeEssence,
+        archetype,
+        appearance: toLines(sections["Appearance & Presence"]),
+        personality: toLines(sections["Personality & Internal Conflict"]),
+        backstory: toLines(sections["Backstory"]),
+        bdi: parseBdiTable(sections["Behavioral Model (BDI)"]),
+        strengths: toLines(strengthsWeaknesses.filter(line => !isWeakness(line)).join('\n')),
+        weaknesses: toLines(strengthsWeaknesses.filter(isWeakness).join('\n')),
+        secrets: toLines(sections["Secrets"]),
+        relationships: toLines(sections["Significant Relationships"]).map(line => {
+            const { label, text } = splitLabeled(line);
+            return { name: label, relationship: '', description: text };
+        }),
+        possessions: toLines(sections["Notable Possessions"]).map(line => {
+            const { label, text } = splitLabeled(line);
+            return { name: label, description: text };
+        }),
+        roleplayingCues: {
+            communicationStyle: findCue('communication'),
+            coreVulnerability: findCue('core vulnerability'),
+            mechanicalNote: findCue('system-agnostic') || findCue('mechanical'),
+        },
+        exampleInteraction: toLines(sections["Example Interaction"]),
+        hooks: toLines(sections["Adventure Hooks"]).map(line => {
+            const { label, text } = splitLabeled(line);
+            return { title: label, description: text };
+        }),
+    };
+};
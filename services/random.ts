@@ -0,0 +1,47 @@
+// services/random.ts
+
+/**
+ * A source of random numbers in the range [0, 1), with the same contract as Math.random.
+ */
+export type Rng = () => number;
+
+// xmur3 string hash, used to turn a human-readable seed into a 32-bit state.
+const hashSeed = (seed: string): number => {
+    let h = 1779033703 ^ seed.length;
+    for (let i = 0; i < seed.length; i++) {
+        h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+        h = (h << 13) | (h >>> 19);
+    }
+    h = Math.imul(h ^ (h >>> 16), 2246822507);
+    h = Math.imul(h ^ (h >>> 13), 3266489909);
+    return (h ^= h >>> 16) >>> 0;
+};
+
+/**
+ * Creates a deterministic random source from a seed.
+ * The optional stream name gives independent sequences from the same seed, so the
+ * NPC and its DNA can each be re-rolled without shifting the other.
+ */
+export const createRng = (seed: string, stream = ''): Rng => {
+    let state = hashSeed(stream ? `${seed}:${stream}` : seed);
+    // mulberry32
+    return () => {
+        state = (state + 0x6D2B79F5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+/**
+ * Creates a short, easy-to-type seed, e.g. "k3f9q2xa".
+ */
+export const generateSeed = (): string => {
+    return Math.floor(Math.random() * 36 ** 8).toString(36).padStart(8, '0');
+};
+
+export const randomInt = (rng: Rng, min: number, max: number): number => {
+    return Math.floor(rng() * (max - min + 1)) + min;
+};
+
+export const randomItem = <T,>(rng: Rng, arr: T[]): T => arr[Math.floor(rng() * arr.length)];
@@ -0,0 +1,101 @@
+// services/relationshipWeb.ts
+
+import type { NpcRelationship, RelationshipType, SavedNpc } from '../types';
+
+export const relationshipTypes: RelationshipType[] = ['rival', 'debtor', 'lover', 'sibling', 'blackmailer', 'ally'];
+
+/** How each link type reads from the `from` NPC's side. */
+export const relationshipLabels: Record<RelationshipType, string> = {
+    rival: 'rival of',
+    debtor: 'owes',
+    lover: 'lover of',
+    sibling: 'sibling of',
+    blackmailer: 'blackmails',
+    ally: 'ally of',
+};
+
+/**
+ * JSON schema sent to the model so it answers with a list of links between the NPCs, which are
+ * referred to by the keys given in the prompt (N1, N2, ...).
+ */
+export const relationshipWebSchema = {
+    type: 'object',
+    properties: {
+        relationships: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    from: { type: 'string', description: 'Key of the NPC the link belongs to, e.g. "N1".' },
+                    to: { type: 'string', description: 'Key of the other NPC, e.g. "N2".' },
+                    type: { type: 'string', enum: relationshipTypes },
+                    description: { type: 'string', description: 'One or two sentences on how this link plays out at the table.' },
+                },
+                required: ['from', 'to', 'type', 'description'],
+            },
+        },
+    },
+    required: ['relationships'],
+};
+
+/** The prompt key for the NPC at `index`. */
+export const relationshipKey = (index: number) => `N${index + 1}`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parses the model's answer into links between the given NPCs. Links naming unknown keys, linking
+ * an NPC to itself, or using an unknown type are dropped rather than failing the whole web; a
+ * malformed answer throws.
+ */
+export const parseRelationshipWeb = (text: string, records: SavedNpc[]): NpcRelationship[] => {
+    const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error("The relationship web is not valid JSON.");
+    }
+    if (!isRecord(data) || !Array.isArray(data.relationships)) {
+        throw new Error('The relationship web must have a "relationships" list.');
+    }
+
+    const idByKey = new Map(records.map((record, i) => [relationshipKey(i), record.id]));
+    const seen = new Set<string>();
+    const links: NpcRelationship[] = [];
+
+    for (const item of data.relationships) {
+        if (!isRecord(item)) continue;
+        const from = idByKey.get(String(item.from).trim().toUpperCase());
+        const to = idByKey.get(String(item.to).trim().toUpperCase());
+        const type = String(item.type).trim().toLowerCase() as RelationshipType;
+        if (!from || !to || from === to || !relationshipTypes.includes(type)) continue;
+
+        const identity = `${from}>${to}:${type}`;
+        if (seen.has(identity)) continue;
+        seen.add(identity);
+        links.push({ from, to, type, description: typeof item.description === 'string' ? item.description.trim() : '' });
+    }
+    return links;
+};
+
+/**
+ * Replaces the links among `records` with `links`, leaving links to NPCs outside the set alone.
+ * Returns the updated records, ready to be saved.
+ */
+export const applyRelationshipWeb = (records: SavedNpc[], links: NpcRelationship[]): SavedNpc[] => {
+    const ids = new Set(records.map(record => record.id));
+    return records.map(record => ({
+        ...record,
+        relationships: [
+            ...(record.relationships ?? []).filter(link => !ids.has(link.to)),
+            ...links.filter(link => link.from === record.id),
+        ],
+    }));
+};
+
+/** Every link among the given records, for drawing the graph. */
+export const collectRelationships = (records: SavedNpc[]): NpcRelationship[] => {
+    const ids = new Set(records.map(record => record.id));
+    return records.flatMap(record => (record.relationships ?? []).filter(link => ids.has(link.to)));
+};
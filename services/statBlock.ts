@@ -0,0 +1,496 @@
+// services/statBlock.ts
+
+import { deriveTraitAdjustments, type TraitAdjustment } from './traitMechanics';
+import { getRaceDefinition, type RaceSize } from '../data/races';
+import type { DecodedDna } from './dnaDecoder';
+import type { Npc } from '../types';
+
+export type Ability = 'str' | 'dex' | 'con' | 'int' | 'wis' | 'cha';
+
+export type AbilityScores = Record<Ability, number>;
+
+export interface StatBlockEntry {
+    name: string;
+    description: string;
+}
+
+export interface StatBlock {
+    /** e.g. "Medium humanoid (dwarf)". */
+    sizeAndType: string;
+    armorClass: number;
+    /** e.g. "11 (2d8 + 2)". */
+    hitPoints: string;
+    hitPointMaximum: number;
+    /** e.g. "2d8 + 2". */
+    hitDiceFormula: string;
+    speed: string;
+    abilityScores: AbilityScores;
+    abilityMods: Record<Ability, string>;
+    savingThrows: string;
+    skills: string;
+    senses: string;
+    languages: string;
+    /** e.g. "3 (700 XP)". */
+    challenge: string;
+    /** The challenge as a number, e.g. 0.25 for CR 1/4. */
+    challengeValue: number;
+    proficiencyBonus: number;
+    /** The DMG defensive and offensive ratings the challenge is the average of. */
+    challengeBreakdown: { defensive: string; offensive: string };
+    /** Set when a target challenge was asked for and no fit rates at it, e.g. CR 1/8 in heavy armor. */
+    missedTarget?: string;
+    /** Weapon dice per hit; more than one when the Brute trait applies. */
+    damageDice: number;
+    /** Attacks in the multiattack, 1 when there is none. */
+    attackCount: number;
+    actions: StatBlockEntry[];
+    traits?: StatBlockEntry[];
+    /** The personality and intelligence changes that made it into the block, for showing their cause. */
+    adjustments: TraitAdjustment[];
+}
+
+export interface StatBlockOptions {
+    /**
+     * Challenge rating to build towards, e.g. "1/2" or "5". Hit dice, proficiency, multiattack and
+     * the main ability score scale to fit; without it the profession's everyday numbers are used.
+     */
+    targetCr?: string;
+    /** Personality DNA whose traits adjust abilities, skills and saves. */
+    dna?: DecodedDna | null;
+}
+
+export interface ChallengeRow {
+    cr: string;
+    value: number;
+    xp: number;
+    proficiency: number;
+    armorClass: number;
+    hitPoints: [number, number];
+    attackBonus: number;
+    damagePerRound: [number, number];
+}
+
+/** The DMG's "Monster Statistics by Challenge Rating" table. */
+export const challengeTable: ChallengeRow[] = [
+    { cr: '0', value: 0, xp: 10, proficiency: 2, armorClass: 13, hitPoints: [1, 6], attackBonus: 3, damagePerRound: [0, 1] },
+    { cr: '1/8', value: 0.125, xp: 25, proficiency: 2, armorClass: 13, hitPoints: [7, 35], attackBonus: 3, damagePerRound: [2, 3] },
+    { cr: '1/4', value: 0.25, xp: 50, proficiency: 2, armorClass: 13, hitPoints: [36, 49], attackBonus: 3, damagePerRound: [4, 5] },
+    { cr: '1/2', value: 0.5, xp: 100, proficiency: 2, armorClass: 13, hitPoints: [50, 70], attackBonus: 3, damagePerRound: [6, 8] },
+    { cr: '1', value: 1, xp: 200, proficiency: 2, armorClass: 13, hitPoints: [71, 85], attackBonus: 3, damagePerRound: [9, 14] },
+    { cr: '2', value: 2, xp: 450, proficiency: 2, armorClass: 13, hitPoints: [86, 100], attackBonus: 3, damagePerRound: [15, 20] },
+    { cr: '3', value: 3, xp: 700, proficiency: 2, armorClass: 13, hitPoints: [101, 115], attackBonus: 4, damagePerRound: [21, 26] },
+    { cr: '4', value: 4, xp: 1100, proficiency: 2, armorClass: 14, hitPoints: [116, 130], attackBonus: 5, damagePerRound: [27, 32] },
+    { cr: '5', value: 5, xp: 1800, proficiency: 3, armorClass: 15, hitPoints: [131, 145], attackBonus: 6, damagePerRound: [33, 38] },
+    { cr: '6', value: 6, xp: 2300, proficiency: 3, armorClass: 15, hitPoints: [146, 160], attackBonus: 6, damagePerRound: [39, 44] },
+    { cr: '7', value: 7, xp: 2900, proficiency: 3, armorClass: 15, hitPoints: [161, 175], attackBonus: 6, damagePerRound: [45, 50] },
+    { cr: '8', value: 8, xp: 3900, proficiency: 3, armorClass: 16, hitPoints: [176, 190], attackBonus: 7, damagePerRound: [51, 56] },
+    { cr: '9', value: 9, xp: 5000, proficiency: 4, armorClass: 16, hitPoints: [191, 205], attackBonus: 7, damagePerRound: [57, 62] },
+    { cr: '10', value: 10, xp: 5900, proficiency: 4, armorClass: 17, hitPoints: [206, 220], attackBonus: 7, damagePerRound: [63, 68] },
+    { cr: '11', value: 11, xp: 7200, proficiency: 4, armorClass: 17, hitPoints: [221, 235], attackBonus: 8, damagePerRound: [69, 74] },
+    { cr: '12', value: 12, xp: 8400, proficiency: 4, armorClass: 17, hitPoints: [236, 250], attackBonus: 8, damagePerRound: [75, 80] },
+    { cr: '13', value: 13, xp: 10000, proficiency: 5, armorClass: 18, hitPoints: [251, 265], attackBonus: 8, damagePerRound: [81, 86] },
+    { cr: '14', value: 14, xp: 11500, proficiency: 5, armorClass: 18, hitPoints: [266, 280], attackBonus: 8, damagePerRound: [87, 92] },
+    { cr: '15', value: 15, xp: 13000, proficiency: 5, armorClass: 18, hitPoints: [281, 295], attackBonus: 8, damagePerRound: [93, 98] },
+    { cr: '16', value: 16, xp: 15000, proficiency: 5, armorClass: 18, hitPoints: [296, 310], attackBonus: 9, damagePerRound: [99, 104] },
+    { cr: '17', value: 17, xp: 18000, proficiency: 6, armorClass: 19, hitPoints: [311, 325], attackBonus: 10, damagePerRound: [105, 110] },
+    { cr: '18', value: 18, xp: 20000, proficiency: 6, armorClass: 19, hitPoints: [326, 340], attackBonus: 10, damagePerRound: [111, 116] },
+    { cr: '19', value: 19, xp: 22000, proficiency: 6, armorClass: 19, hitPoints: [341, 355], attackBonus: 10, damagePerRound: [117, 122] },
+    { cr: '20', value: 20, xp: 25000, proficiency: 6, armorClass: 19, hitPoints: [356, 400], attackBonus: 10, damagePerRound: [123, 140] },
+    { cr: '21', value: 21, xp: 33000, proficiency: 7, armorClass: 19, hitPoints: [401, 445], attackBonus: 11, damagePerRound: [141, 158] },
+    { cr: '22', value: 22, xp: 41000, proficiency: 7, armorClass: 19, hitPoints: [446, 490], attackBonus: 11, damagePerRound: [159, 176] },
+    { cr: '23', value: 23, xp: 50000, proficiency: 7, armorClass: 19, hitPoints: [491, 535], attackBonus: 11, damagePerRound: [177, 194] },
+    { cr: '24', value: 24, xp: 62000, proficiency: 7, armorClass: 19, hitPoints: [536, 580], attackBonus: 12, damagePerRound: [195, 212] },
+    { cr: '25', value: 25, xp: 75000, proficiency: 8, armorClass: 19, hitPoints: [581, 625], attackBonus: 12, damagePerRound: [213, 230] },
+    { cr: '26', value: 26, xp: 90000, proficiency: 8, armorClass: 19, hitPoints: [626, 670], attackBonus: 12, damagePerRound: [231, 248] },
+    { cr: '27', value: 27, xp: 105000, proficiency: 8, armorClass: 19, hitPoints: [671, 715], attackBonus: 13, damagePerRound: [249, 266] },
+    { cr: '28', value: 28, xp: 120000, proficiency: 8, armorClass: 19, hitPoints: [716, 760], attackBonus: 13, damagePerRound: [267, 284] },
+    { cr: '29', value: 29, xp: 135000, proficiency: 9, armorClass: 19, hitPoints: [761, 805], attackBonus: 13, damagePerRound: [285, 302] },
+    { cr: '30', value: 30, xp: 155000, proficiency: 9, armorClass: 19, hitPoints: [806, 850], attackBonus: 14, damagePerRound: [303, 320] },
+];
+
+/**
+ * Challenge ratings grouped by the tier of play whose parties they suit, for pickers. CR 0 is left
+ * out: the weakest weapon still deals more than its 0–1 damage per round.
+ */
+export const challengeTiers: { label: string; crs: string[] }[] = [
+    { label: 'Tier 1 (levels 1–4)', crs: ['1/8', '1/4', '1/2', '1', '2', '3', '4'] },
+    { label: 'Tier 2 (levels 5–10)', crs: ['5', '6', '7', '8', '9', '10'] },
+    { label: 'Tier 3 (levels 11–16)', crs: ['11', '12', '13', '14', '15', '16'] },
+    { label: 'Tier 4 (levels 17–20)', crs: ['17', '18', '19', '20'] },
+];
+
+export const skillAbilities: Record<string, Ability> = {
+    'Acrobatics': 'dex', 'Animal Handling': 'wis', 'Arcana': 'int', 'Athletics': 'str', 'Deception': 'cha',
+    'History': 'int', 'Insight': 'wis', 'Intimidation': 'cha', 'Investigation': 'int', 'Medicine': 'wis',
+    'Nature': 'int', 'Perception': 'wis', 'Performance': 'cha', 'Persuasion': 'cha', 'Religion': 'int',
+    'Sleight of Hand': 'dex', 'Stealth': 'dex', 'Survival': 'wis',
+};
+
+export type DamageType = 'bludgeoning' | 'piercing' | 'slashing';
+
+export interface Weapon {
+    /** Number of sides on the damage die. */
+    die: number;
+    damageType: DamageType;
+    /** Uses the better of Strength and Dexterity. */
+    finesse?: boolean;
+    /** Thrown weapons list their range as well as their reach. */
+    thrown?: string;
+    /** Ranged weapons use Dexterity and have no reach. */
+    ranged?: string;
+    /** Die when wielded in two hands. */
+    versatile?: number;
+}
+
+export const weapons: Record<string, Weapon> = {
+    'Club': { die: 4, damageType: 'bludgeoning' },
+    'Dagger': { die: 4, damageType: 'piercing', finesse: true, thrown: '20/60 ft.' },
+    'Greataxe': { die: 12, damageType: 'slashing' },
+    'Handaxe': { die: 6, damageType: 'slashing', thrown: '20/60 ft.' },
+    'Light Crossbow': { die: 8, damageType: 'piercing', ranged: '80/320 ft.' },
+    'Light Hammer': { die: 4, damageType: 'bludgeoning', thrown: '20/60 ft.' },
+    'Longsword': { die: 8, damageType: 'slashing', versatile: 10 },
+    'Mace': { die: 6, damageType: 'bludgeoning' },
+    'Quarterstaff': { die: 6, damageType: 'bludgeoning', versatile: 8 },
+    'Rapier': { die: 8, damageType: 'piercing', finesse: true },
+    'Shortbow': { die: 6, damageType: 'piercing', ranged: '80/320 ft.' },
+    'Shortsword': { die: 6, damageType: 'piercing', finesse: true },
+    'Sickle': { die: 4, damageType: 'slashing' },
+    'Spear': { die: 6, damageType: 'piercing', thrown: '20/60 ft.', versatile: 8 },
+    'Warhammer': { die: 8, damageType: 'bludgeoning', versatile: 10 },
+};
+
+export interface ProfessionTemplate {
+    armorClass: number;
+    hitDice: number;
+    skills: string[];
+    /** The first weapon is the one the NPC fights with by preference. */
+    weapons: string[];
+    bonuses: Partial<AbilityScores>;
+}
+
+const professionTemplates: { keywords: string[]; template: ProfessionTemplate }[] = [
+    { keywords: ['guard', 'soldier', 'mercenary'], template: { armorClass: 16, hitDice: 2, skills: ['Perception'], weapons: ['Longsword', 'Spear'], bonuses: { str: 2, con: 1 } } },
+    { keywords: ['sage', 'scholar', 'scribe'], template: { armorClass: 10, hitDice: 1, skills: ['History', 'Arcana'], weapons: ['Quarterstaff'], bonuses: { int: 2, wis: 1 } } },
+    { keywords: ['cutpurse', 'thief', 'burglar'], template: { armorClass: 12, hitDice: 2, skills: ['Sleight of Hand', 'Stealth'], weapons: ['Shortsword', 'Dagger'], bonuses: { dex: 2, cha: 1 } } },
+    { keywords: ['farmer', 'laborer'], template: { armorClass: 10, hitDice: 1, skills: ['Animal Handling'], weapons: ['Sickle'], bonuses: { str: 2, con: 1 } } },
+    { keywords: ['blacksmith', 'mason'], template: { armorClass: 13, hitDice: 3, skills: ['Athletics'], weapons: ['Light Hammer'], bonuses: { str: 2, con: 1 } } },
+    { keywords: ['noble', 'courtier', 'diplomat'], template: { armorClass: 10, hitDice: 2, skills: ['Persuasion', 'Deception'], weapons: ['Rapier'], bonuses: { cha: 2, int: 1 } } },
+];
+
+const defaultTemplate: ProfessionTemplate = { armorClass: 10, hitDice: 1, skills: [], weapons: ['Club'], bonuses: {} };
+
+export const getProfessionTemplate = (profession: string): ProfessionTemplate => {
+    const lower = profession.toLowerCase();
+    return professionTemplates.find(({ keywords }) => keywords.some(k => lower.includes(k)))?.template ?? defaultTemplate;
+};
+
+export interface RaceFeatures {
+    size: RaceSize;
+    speed: number;
+    bonuses: Partial<AbilityScores>;
+    languages: string[];
+    skills: string[];
+    traits: StatBlockEntry[];
+    /** Range in feet, 0 for none. */
+    darkvision: number;
+}
+
+/** A race's 5e features from the race registry. Races it does not know are Medium humanoids with no features. */
+export const getRaceFeatures = (race: string): RaceFeatures => {
+    const definition = getRaceDefinition(race);
+    if (!definition) {
+        return { size: 'Medium', speed: 30, bonuses: {}, languages: ['Common'], skills: [], traits: [], darkvision: 0 };
+    }
+    return {
+        size: definition.size,
+        speed: definition.speed,
+        bonuses: { ...definition.abilityBonuses },
+        languages: [...definition.languages],
+        skills: [...definition.skills],
+        traits: [...definition.traits],
+        darkvision: definition.darkvision,
+    };
+};
+
+export const abilities: Ability[] = ['str', 'dex', 'con', 'int', 'wis', 'cha'];
+
+export const getModifier = (score: number) => Math.floor((score - 10) / 2);
+
+export const formatModifier = (mod: number) => mod >= 0 ? `+${mod}` : `${mod}`;
+
+export const formatDice = (count: number, die: number, mod: number) =>
+    mod === 0 ? `${count}d${die}` : `${count}d${die} ${mod > 0 ? '+' : '-'} ${Math.abs(mod)}`;
+
+export const averageRoll = (count: number, die: number, mod: number) => Math.max(1, Math.floor(count * (die + 1) / 2) + mod);
+
+const numberWords = ['zero', 'one', 'two', 'three', 'four', 'five'];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const rowIndex = (cr: string): number => {
+    const index = challengeTable.findIndex(row => row.cr === cr);
+    if (index === -1) {
+        throw new Error(`"${cr}" is not a challenge rating.`);
+    }
+    return index;
+};
+
+const clampIndex = (index: number) => clamp(index, 0, challengeTable.length - 1);
+
+// The first row whose range reaches the value; anything past the table is CR 30.
+const rowFor = (value: number, range: (row: ChallengeRow) => [number, number]): number => {
+    const index = challengeTable.findIndex(row => value <= range(row)[1]);
+    return index === -1 ? challengeTable.length - 1 : index;
+};
+
+export interface ChallengeRating {
+    cr: string;
+    defensive: string;
+    offensive: string;
+}
+
+/**
+ * Works out a challenge rating the DMG way. The defensive rating is the row matching the hit
+ * points, moved one step for every 2 points the armor class is above or below that row's; the
+ * offensive rating is the row matching the damage per round, moved the same way by the attack
+ * bonus. The challenge is the average of the two, rounded to the nearest rating.
+ */
+export const calculateChallenge = (hitPoints: number, armorClass: number, damagePerRound: number, attackBonus: number): ChallengeRating => {
+    const hpIndex = rowFor(hitPoints, row => row.hitPoints);
+    const defensive = clampIndex(hpIndex + Math.trunc((armorClass - challengeTable[hpIndex].armorClass) / 2));
+    const damageIndex = rowFor(damagePerRound, row => row.damagePerRound);
+    const offensive = clampIndex(damageIndex + Math.trunc((attackBonus - challengeTable[damageIndex].attackBonus) / 2));
+
+    const average = (challengeTable[defensive].value + challengeTable[offensive].value) / 2;
+    // Rows are in ascending order, so on a tie the later (higher) one wins.
+    const nearest = challengeTable.reduce((best, row) =>
+        Math.abs(row.value - average) <= Math.abs(best.value - average) ? row : best);
+
+    return { cr: nearest.cr, defensive: challengeTable[defensive].cr, offensive: challengeTable[offensive].cr };
+};
+
+/** How many attacks a multiattack may bundle at a challenge rating. */
+const maxAttacksAt = (value: number) => value < 1 ? 1 : value < 5 ? 2 : value < 11 ? 3 : value < 17 ? 4 : 5;
+
+// Ability score increases past CR 4, as a character of the matching level would have.
+const increasesAt = (value: number) => [4, 8, 12, 16, 19].filter(threshold => value >= threshold).length;
+
+interface Offense {
+    attacks: number;
+    /** Weapon dice per hit, so 2 means one extra die. */
+    dice: number;
+}
+
+// Weapon dice per hit stop here; past it, a block that still hits too softly makes up for it with hit points.
+const MAX_DICE = 4;
+
+// The attacks and dice whose damage per round lands in the target row's range, or closest to it,
+// preferring fewer dice and then more attacks.
+const fitOffense = (row: ChallengeRow, weapon: Weapon, mod: number): Offense => {
+    const [low, high] = row.damagePerRound;
+    let best: Offense = { attacks: 1, dice: 1 };
+    let bestMiss = Infinity;
+    for (let dice = 1; dice <= MAX_DICE; dice++) {
+        for (let attacks = maxAttacksAt(row.value); attacks >= 1; attacks--) {
+            const damage = attacks * averageRoll(dice, weapon.die, mod);
+            const miss = damage < low ? low - damage : damage > high ? damage - high : 0;
+            if (miss < bestMiss) {
+                best = { attacks, dice };
+                bestMiss = miss;
+            }
+        }
+    }
+    return best;
+};
+
+/** What every game system's stat block starts from: race, profession and personality. */
+export interface CharacterBasis {
+    race: RaceFeatures;
+    template: ProfessionTemplate;
+    /** Weapons the NPC carries, preferred first. */
+    weaponNames: string[];
+    abilityScores: AbilityScores;
+    /** 5e skill names. */
+    skills: Set<string>;
+    saves: Set<Ability>;
+    adjustments: TraitAdjustment[];
+}
+
+/**
+ * Rolls race, profession, personality DNA and intelligence into ability scores and
+ * proficiencies. Proficiencies the NPC already has from race or profession are not credited to a
+ * trait.
+ */
+export const deriveCharacter = (npc: Npc, dna: DecodedDna | null): CharacterBasis => {
+    const race = getRaceFeatures(npc.race);
+    const template = getProfessionTemplate(npc.profession);
+
+    const abilityScores: AbilityScores = { str: 10, dex: 10, con: 10, int: 10, wis: 10, cha: 10 };
+    for (const ability of abilities) {
+        abilityScores[ability] += (race.bonuses[ability] ?? 0) + (template.bonuses[ability] ?? 0);
+    }
+
+    const skills = new Set([...race.skills, ...template.skills]);
+    const saves = new Set<Ability>();
+    const adjustments = deriveTraitAdjustments(dna, npc.intelligence).filter(adjustment => {
+        if (adjustment.ability) {
+            abilityScores[adjustment.ability.name] += adjustment.ability.amount;
+        } else if (adjustment.skill) {
+            if (skills.has(adjustment.skill)) return false;
+            skills.add(adjustment.skill);
+        } else if (adjustment.save) {
+            if (saves.has(adjustment.save)) return false;
+            saves.add(adjustment.save);
+        }
+        return true;
+    });
+    for (const ability of abilities) {
+        abilityScores[ability] = clamp(abilityScores[ability], 3, 20);
+    }
+
+    return { race, template, weaponNames: template.weapons.filter(name => weapons[name]), abilityScores, skills, saves, adjustments };
+};
+
+/** The ability a weapon attacks with: Dexterity for ranged weapons and nimble wielders of finesse ones. */
+export const weaponAbility = (weapon: Weapon, scores: AbilityScores): Ability =>
+    weapon.ranged ? 'dex' : weapon.finesse && scores.dex > scores.str ? 'dex' : 'str';
+
+/**
+ * Builds a 5e stat block for an NPC from its race and profession. With a target challenge rating,
+ * hit dice, proficiency, multiattack and damage dice are fitted to the DMG's numbers for that
+ * rating; the challenge shown is always the one calculated from the finished block.
+ */
+export const buildStatBlock = (npc: Npc, options: StatBlockOptions = {}): StatBlock => {
+    const { race, template, weaponNames, abilityScores: scores, skills, saves, adjustments } = deriveCharacter(npc, options.dna ?? null);
+
+    const abilityFor = (weapon: Weapon) => weaponAbility(weapon, scores);
+    const primary = weapons[weaponNames[0]];
+
+    const target = options.targetCr !== undefined ? challengeTable[rowIndex(options.targetCr)] : null;
+    if (target) {
+        const ability = abilityFor(primary);
+        scores[ability] = Math.min(20, scores[ability] + 2 * increasesAt(target.value));
+    }
+
+    const mods = Object.fromEntries(abilities.map(a => [a, getModifier(scores[a])])) as AbilityScores;
+    const hitDie = race.size === 'Small' ? 6 : 8;
+    const hitPointsFor = (count: number) => Math.max(1, Math.floor(count * (hitDie + 1) / 2) + count * mods.con);
+    const attackMod = mods[abilityFor(primary)];
+
+    let hitDice = template.hitDice;
+    let offense: Offense = { attacks: 1, dice: 1 };
+    let proficiency = 2;
+
+    // Rated on the multiattack, which always uses the preferred weapon.
+    const rate = () => calculateChallenge(
+        hitPointsFor(hitDice),
+        template.armorClass,
+        offense.attacks * averageRoll(offense.dice, primary.die, attackMod),
+        attackMod + proficiency,
+    );
+
+    let rating: ChallengeRating;
+    if (target) {
+        proficiency = target.proficiency;
+        const targetIndex = challengeTable.indexOf(target);
+        // Start from rows that make up for armor or accuracy below the target's, as the DMG's
+        // adjustments take that back, then search nearby rows for the fit that rates at the target
+        // with defense and offense closest together.
+        const hpStart = targetIndex + Math.trunc((target.armorClass - template.armorClass) / 2);
+        const damageStart = targetIndex + Math.trunc((target.attackBonus - attackMod - proficiency) / 2);
+
+        const fit = (hpIndex: number, damageIndex: number) => {
+            const [low, high] = challengeTable[hpIndex].hitPoints;
+            hitDice = Math.max(1, Math.round((low + high) / 2 / Math.max(1, (hitDie + 1) / 2 + mods.con)));
+            offense = fitOffense(challengeTable[damageIndex], primary, attackMod);
+            return rate();
+        };
+        const cost = (r: ChallengeRating, hpIndex: number, damageIndex: number) =>
+            Math.abs(rowIndex(r.cr) - targetIndex) * 10000
+            + Math.abs(rowIndex(r.defensive) - rowIndex(r.offensive)) * 10
+            + Math.abs(hpIndex - hpStart) + Math.abs(damageIndex - damageStart);
+
+        // Every pairing of rows is tried, as a fit that rates at the target can lie far from the
+        // starting rows when ability scores are extreme; a miss costs more than any distance.
+        let best = { hpIndex: clampIndex(hpStart), damageIndex: clampIndex(damageStart), cost: Infinity };
+        for (let hpIndex = 0; hpIndex < challengeTable.length; hpIndex++) {
+            for (let damageIndex = 0; damageIndex < challengeTable.length; damageIndex++) {
+                const candidate = cost(fit(hpIndex, damageIndex), hpIndex, damageIndex);
+                if (candidate < best.cost) best = { hpIndex, damageIndex, cost: candidate };
+            }
+        }
+        rating = fit(best.hpIndex, best.damageIndex);
+    } else {
+        // Proficiency follows the challenge rating, which in turn depends on the attack bonus.
+        rating = rate();
+        for (let i = 0; i < 3 && challengeTable[rowIndex(rating.cr)].proficiency !== proficiency; i++) {
+            proficiency = challengeTable[rowIndex(rating.cr)].proficiency;
+            rating = rate();
+        }
+    }
+
+    const row = challengeTable[rowIndex(rating.cr)];
+    const creature = npc.race.toLowerCase();
+    const hitPoints = hitPointsFor(hitDice);
+    const hitDiceFormula = formatDice(hitDice, hitDie, hitDice * mods.con);
+
+    const saveString = abilities.filter(a => saves.has(a))
+        .map(a => `${a.charAt(0).toUpperCase()}${a.slice(1)} ${formatModifier(mods[a] + proficiency)}`).join(', ');
+    const skillString = [...skills].sort().map(skill => `${skill} ${formatModifier(mods[skillAbilities[skill]] + proficiency)}`).join(', ');
+    const passivePerception = 10 + mods.wis + (skills.has('Perception') ? proficiency : 0);
+
+    const traits = [...race.traits];
+    if (offense.dice > 1) {
+        const extra = offense.dice - 1;
+        traits.push({
+            name: 'Brute',
+            description: `A weapon deals ${numberWords[extra] ?? extra} extra ${extra === 1 ? 'die' : 'dice'} of its damage when the ${creature} hits with it (included in the attack).`,
+        });
+    }
+
+    const actions: StatBlockEntry[] = [];
+    if (offense.attacks > 1) {
+        actions.push({ name: 'Multiattack', description: `The ${creature} makes ${numberWords[offense.attacks]} ${weaponNames[0].toLowerCase()} attacks.` });
+    }
+    for (const name of weaponNames) {
+        const weapon = weapons[name];
+        const mod = mods[abilityFor(weapon)];
+        const toHit = formatModifier(mod + proficiency);
+        const damage = `${averageRoll(offense.dice, weapon.die, mod)} (${formatDice(offense.dice, weapon.die, mod)}) ${weapon.damageType} damage`;
+        let description = weapon.ranged
+            ? `Ranged Weapon Attack: ${toHit} to hit, range ${weapon.ranged}, one target. Hit: ${damage}`
+            : weapon.thrown
+                ? `Melee or Ranged Weapon Attack: ${toHit} to hit, reach 5 ft. or range ${weapon.thrown}, one target. Hit: ${damage}`
+                : `Melee Weapon Attack: ${toHit} to hit, reach 5 ft., one target. Hit: ${damage}`;
+        if (weapon.versatile) {
+            description += `, or ${averageRoll(offense.dice, weapon.versatile, mod)} (${formatDice(offense.dice, weapon.versatile, mod)}) ${weapon.damageType} damage if used with two hands`;
+        }
+        actions.push({ name, description: `${description}.` });
+    }
+
+    return {
+        sizeAndType: `${race.size} humanoid (${creature})`,
+        armorClass: template.armorClass,
+        hitPoints: `${hitPoints} (${hitDiceFormula})`,
+        hitPointMaximum: hitPoints,
+        hitDiceFormula,
+        speed: `${race.speed} ft.`,
+        abilityScores: scores,
+        abilityMods: Object.fromEntries(abilities.map(a => [a, formatModifier(mods[a])])) as Record<Ability, string>,
+        savingThrows: saveString,
+        skills: skillString,
+        senses: `${race.darkvision ? `darkvision ${race.darkvision} ft., ` : ''}passive Perception ${passivePerception}`,
+        languages: race.languages.join(', '),
+        challenge: `${row.cr} (${row.xp.toLocaleString('en-US')} XP)`,
+        challengeValue: row.value,
+        proficiencyBonus: proficiency,
+        challengeBreakdown: { defensive: rating.defensive, offensive: rating.offensive },
+        missedTarget: target && target.cr !== row.cr ? target.cr : undefined,
+        damageDice: offense.dice,
+        attackCount: offense.attacks,
+        actions,
+        traits,
+        adjustments,
+    };
+};
@@ -0,0 +1,41 @@
+// services/taskQueue.ts
+
+export interface TaskQueue {
+    /** Runs the task as soon as fewer than `concurrency` queued tasks are in flight. */
+    run<T>(task: () => Promise<T>): Promise<T>;
+    setConcurrency(concurrency: number): void;
+}
+
+/**
+ * Limits how many async tasks run at once. Used to keep batch generation from firing dozens of
+ * AI requests in parallel and tripping the provider's rate limits.
+ */
+export const createTaskQueue = (initialConcurrency: number): TaskQueue => {
+    let concurrency = Math.max(1, initialConcurrency);
+    let active = 0;
+    const waiting: (() => void)[] = [];
+
+    const next = () => {
+        while (active < concurrency && waiting.length > 0) {
+            active++;
+            waiting.shift()!();
+        }
+    };
+
+    return {
+        run: <T,>(task: () => Promise<T>) => new Promise<T>((resolve, reject) => {
+            waiting.push(() => {
+                // Started inside a promise so a task that throws before returning one still rejects and frees its slot.
+                Promise.resolve().then(task).then(resolve, reject).finally(() => {
+                    active--;
+                    next();
+                });
+            });
+            next();
+        }),
+        setConcurrency: (value: number) => {
+            concurrency = Math.max(1, value);
+            next();
+        },
+    };
+};
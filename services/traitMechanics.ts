@@ -0,0 +1,179 @@
+// services/traitMechanics.ts
+
+import { getTableLabel } from './dataPacks';
+import type { DecodedDna } from './dnaDecoder';
+import type { Ability, AbilityScores } from './statBlock';
+
+/** One change to the stat block and the trait or descriptor behind it. */
+export interface TraitAdjustment {
+    /** e.g. "Suspicious (intensity 4)" or "Intelligence: very bright". */
+    source: string;
+    ability?: { name: Ability; amount: number };
+    skill?: string;
+    save?: Ability;
+}
+
+interface TraitEffect {
+    abilities?: Partial<AbilityScores>;
+    skills?: string[];
+    saves?: Ability[];
+}
+
+// Paired traits only shape the numbers when they show at intensity 4 or more.
+const MIN_INTENSITY = 4;
+
+// Unpaired traits shape the numbers when they are Strong (7+), or when they are all but absent (3-).
+const STRONG_SCORE = 7;
+const ABSENT_SCORE = 3;
+
+// Traits may move an ability score at most this far either way; the intelligence descriptor is on top.
+const MAX_TRAIT_SHIFT = 2;
+
+// Traits grant at most this many skill and saving throw proficiencies each.
+const MAX_TRAIT_SKILLS = 3;
+const MAX_TRAIT_SAVES = 2;
+
+const pairedTraitEffects: Record<string, TraitEffect> = {
+    'Brave': { abilities: { str: 1 }, saves: ['wis'] },
+    'Cowardly': { abilities: { str: -1, dex: 1 }, skills: ['Stealth'] },
+    'Reserved': { skills: ['Perception'] },
+    'Outspoken': { abilities: { cha: 1 }, skills: ['Persuasion'] },
+    'Reckless': { abilities: { str: 1, wis: -1 }, skills: ['Athletics'] },
+    'Cautious': { skills: ['Perception'], saves: ['dex'] },
+    'Confident': { abilities: { cha: 1 } },
+    'Insecure': { abilities: { cha: -1 } },
+    'Stoic': { saves: ['con'] },
+    'Expressive': { skills: ['Performance'] },
+    'Patient': { abilities: { wis: 1 } },
+    'Impatient': { abilities: { wis: -1 } },
+    'Methodical': { abilities: { int: 1 }, skills: ['Investigation'] },
+    'Impulsive': { abilities: { dex: 1 } },
+    'Organized': { abilities: { int: 1 } },
+    'Suspicious': { skills: ['Insight'] },
+    'Trusting': { abilities: { wis: -1 } },
+    'Playful': { skills: ['Performance'] },
+    'Introverted': { abilities: { int: 1 } },
+    'Extroverted': { abilities: { cha: 1 } },
+    'Competitive': { skills: ['Athletics'], saves: ['str'] },
+    'Harmonious': { skills: ['Insight'] },
+    'Tactful': { skills: ['Persuasion'] },
+    'Blunt': { skills: ['Intimidation'] },
+    'Calm': { saves: ['wis'] },
+    'Hot-headed': { abilities: { str: 1, wis: -1 } },
+    'Perfectionist': { skills: ['Investigation'] },
+    'Authoritative': { abilities: { cha: 1 }, skills: ['Intimidation'] },
+    'Submissive': { abilities: { cha: -1 } },
+    'Driven': { abilities: { con: 1 }, saves: ['con'] },
+    'Apathetic': { abilities: { con: -1 } },
+    'Adventurous': { skills: ['Survival'] },
+    'Hesitant': { abilities: { dex: -1 } },
+    'Diplomatic': { skills: ['Persuasion'] },
+    'Confrontational': { abilities: { str: 1 }, skills: ['Intimidation'] },
+};
+
+const strongVirtueEffects: Record<string, TraitEffect> = {
+    'Compassionate': { skills: ['Medicine'] },
+    'Empathetic': { skills: ['Insight'] },
+    'Devoted': { skills: ['Religion'] },
+    'Loyal': { saves: ['wis'] },
+    'Integrity': { saves: ['cha'] },
+};
+
+const absentVirtueEffects: Record<string, TraitEffect> = {
+    'Honest': { skills: ['Deception'] },
+    'Merciful': { skills: ['Intimidation'] },
+};
+
+const intelligenceEffects: Record<string, TraitEffect> = {
+    'dumb as dirt': { abilities: { int: -4 } },
+    'dense': { abilities: { int: -2 } },
+    'not quite all there': { abilities: { int: -2, wis: -2 } },
+    'intelligent': { abilities: { int: 2 } },
+    'street smart': { abilities: { wis: 2 }, skills: ['Insight'] },
+    'book smart': { abilities: { int: 2 }, skills: ['History'] },
+    'book and street smart': { abilities: { int: 2, wis: 2 } },
+    'very bright': { abilities: { int: 4 } },
+};
+
+const toAdjustments = (source: string, effect: TraitEffect): TraitAdjustment[] => [
+    ...Object.entries(effect.abilities ?? {}).map(([name, amount]) => ({ source, ability: { name: name as Ability, amount } })),
+    ...(effect.skills ?? []).map(skill => ({ source, skill })),
+    ...(effect.saves ?? []).map(save => ({ source, save })),
+];
+
+/**
+ * Maps an NPC's personality DNA and intelligence descriptor onto ability score changes, skill
+ * proficiencies and saving throw proficiencies, each tagged with what caused it. Trait changes to
+ * one ability are capped at ±2 in total, and traits grant at most three skills and two saves; the
+ * strongest traits go first and the ones that would pass a cap are left out. A trait's ability
+ * changes go in together or not at all, so no trait is credited with half of its effect.
+ */
+export const deriveTraitAdjustments = (decoded: DecodedDna | null, intelligence: string): TraitAdjustment[] => {
+    const traitAdjustments: TraitAdjustment[] = [];
+
+    // Strongest traits first, so they are the ones that make the caps.
+    const pairedTraits = [...(decoded?.pairedTraits ?? [])].sort((a, b) => b.intensity - a.intensity);
+    for (const trait of pairedTraits) {
+        const effect = pairedTraitEffects[trait.name];
+        if (effect && trait.intensity >= MIN_INTENSITY) {
+            traitAdjustments.push(...toAdjustments(`${trait.name} (intensity ${trait.intensity})`, effect));
+        }
+    }
+    for (const trait of decoded?.unpairedTraits ?? []) {
+        const effect = trait.score >= STRONG_SCORE ? strongVirtueEffects[trait.name]
+            : trait.score <= ABSENT_SCORE ? absentVirtueEffects[trait.name]
+            : undefined;
+        if (effect) {
+            traitAdjustments.push(...toAdjustments(`${trait.name} ${trait.score}/9`, effect));
+        }
+    }
+
+    const shifts: Partial<Record<Ability, number>> = {};
+    const skills = new Set<string>();
+    const saves = new Set<Ability>();
+    // Whether each trait's ability changes fit under the cap, decided at its first ability change.
+    const abilityFits = new Map<string, boolean>();
+    const fitsAbilityCap = (source: string): boolean => {
+        const known = abilityFits.get(source);
+        if (known !== undefined) return known;
+        const next = { ...shifts };
+        for (const { ability } of traitAdjustments.filter(other => other.source === source)) {
+            if (ability) next[ability.name] = (next[ability.name] ?? 0) + ability.amount;
+        }
+        const fits = Object.values(next).every(shift => Math.abs(shift) <= MAX_TRAIT_SHIFT);
+        if (fits) Object.assign(shifts, next);
+        abilityFits.set(source, fits);
+        return fits;
+    };
+    const capped = traitAdjustments.filter(adjustment => {
+        if (adjustment.skill) {
+            if (skills.size >= MAX_TRAIT_SKILLS || skills.has(adjustment.skill)) return false;
+            skills.add(adjustment.skill);
+            return true;
+        }
+        if (adjustment.save) {
+            if (saves.size >= MAX_TRAIT_SAVES || saves.has(adjustment.save)) return false;
+            saves.add(adjustment.save);
+            return true;
+        }
+        if (adjustment.ability) return fitsAbilityCap(adjustment.source);
+        return false;
+    });
+
+    const descriptor = getTableLabel(intelligence).replace(/,$/, '').toLowerCase();
+    const intelligenceEffect = intelligenceEffects[descriptor];
+    return intelligenceEffect ? [...toAdjustments(`Intelligence: ${descriptor}`, intelligenceEffect), ...capped] : capped;
+};
+
+const abilityLabels: Record<Ability, string> = { str: 'Str', dex: 'Dex', con: 'Con', int: 'Int', wis: 'Wis', cha: 'Cha' };
+
+/** What an adjustment does, e.g. "+1 Cha", "Insight proficiency" or "Wis save proficiency". */
+export const describeAdjustment = (adjustment: TraitAdjustment): string => {
+    if (adjustment.ability) {
+        const { name, amount } = adjustment.ability;
+        return `${amount > 0 ? '+' : ''}${amount} ${abilityLabels[name]}`;
+    }
+    if (adjustment.skill) return `${adjustment.skill} proficiency`;
+    if (adjustment.save) return `${abilityLabels[adjustment.save]} save proficiency`;
+    return '';
+};
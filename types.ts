@@ -23,4 +23,137 @@ export interface Npc {
   silver: number;
   copper: number;
   fullDescription: string;
-}
\ No newline at end of file
+}
+
+/**
+ * The structured character profile written by the AI (or the offline writer) from an NPC's DNA.
+ */
+export interface NpcProfile {
+  name: string;
+  role: string;
+  alignment: string;
+  narrativeEssence: string;
+  archetype: string;
+  appearance: string[];
+  personality: string[];
+  backstory: string[];
+  bdi: {
+    beliefs: string[];
+    desires: string[];
+    intentions: string[];
+  };
+  strengths: string[];
+  weaknesses: string[];
+  secrets: string[];
+  relationships: { name: string; relationship: string; description: string }[];
+  possessions: { name: string; description: string }[];
+  roleplayingCues: {
+    communicationStyle: string;
+    coreVulnerability: string;
+    mechanicalNote: string;
+  };
+  exampleInteraction: string[];
+  hooks: { title: string; description: string }[];
+}
+
+/**
+ * Npc fields that are rolled from a single npcData table and can be locked before generation.
+ */
+export type ConstrainableNpcField =
+  | 'gender' | 'race' | 'age' | 'intelligence' | 'hairStyle' | 'hairColor' | 'height' | 'weight'
+  | 'eyeShape' | 'eyeColor' | 'complexion' | 'descriptor' | 'profession' | 'demeanor'
+  | 'wantsOrNeed' | 'secretOrObstacle';
+
+/**
+ * A locked value, or a list of values to choose between. An empty list leaves the field random.
+ */
+export type NpcFieldConstraint = string | string[];
+
+export type NpcGenerationOptions = Partial<Record<ConstrainableNpcField, NpcFieldConstraint>> & {
+  /** Family name to use instead of a rolled one. */
+  lastName?: string;
+};
+
+/**
+ * What wrote an NPC's profile and painted its portrait. `provider` is 'local' for the offline
+ * profile writer; a model is null when that part was not made by a model.
+ */
+export interface GenerationMetadata {
+  provider: string;
+  textModel: string | null;
+  imageModel: string | null;
+}
+
+/**
+ * One NPC in the roster. `npc`, `dna` and `profile` stay null while the entry is generating or
+ * after it failed.
+ */
+export interface RosterEntry {
+  id: string;
+  seed: string;
+  status: 'generating' | 'ready' | 'failed';
+  isPinned: boolean;
+  npc: Npc | null;
+  dna: string | null;
+  /** A structured profile, or legacy markdown text. */
+  profile: NpcProfile | string | null;
+  imageUrl: string | null;
+  isImageLoading: boolean;
+  isRedecoding: boolean;
+  error: string | null;
+  /** Id of the library record this entry was saved as or opened from. */
+  libraryId: string | null;
+  generation: GenerationMetadata | null;
+}
+
+/**
+ * An NPC kept in the local library (IndexedDB). Timestamps are ISO 8601 strings.
+ */
+export interface SavedNpc {
+  id: string;
+  npc: Npc;
+  dna: string;
+  profile: NpcProfile | string;
+  /** Base64-encoded PNG portrait, as in RosterEntry. */
+  imageUrl: string | null;
+  seed: string | null;
+  tags: string[];
+  /** Campaign the NPC belongs to; empty when unassigned. */
+  campaign: string;
+  /** Links from this NPC to other saved NPCs. Missing on records saved before relationship webs. */
+  relationships?: NpcRelationship[];
+  /** Missing on records saved before it was tracked. */
+  generation?: GenerationMetadata | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type RelationshipType = 'rival' | 'debtor' | 'lover' | 'sibling' | 'blackmailer' | 'ally';
+
+/**
+ * A typed link from one saved NPC to another, read as "<from> is <to>'s <type>"
+ * (e.g. the debtor owes the other NPC; the blackmailer holds something over them).
+ */
+export interface NpcRelationship {
+  /** SavedNpc id of the NPC the link belongs to. */
+  from: string;
+  /** SavedNpc id of the other NPC. */
+  to: string;
+  type: RelationshipType;
+  description: string;
+}
+
+/**
+ * The world an NPC lives in, fed to the AI so hooks and backstories tie into the actual campaign.
+ * Saved per campaign; `name` matches `SavedNpc.campaign`.
+ */
+export interface CampaignContext {
+  name: string;
+  worldName: string;
+  region: string;
+  factions: { name: string; description: string }[];
+  conflicts: string[];
+  /** E.g. "grim and political" or "lighthearted swashbuckling". */
+  tone: string;
+  updatedAt: string;
+}